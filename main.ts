@@ -1,107 +1,53 @@
 import {
 	App,
+	ButtonComponent,
+	Component,
+	debounce,
+	Editor,
+	FuzzySuggestModal,
+	ItemView,
 	Plugin,
 	PluginSettingTab,
 	Setting,
-	MarkdownRenderChild,
-	TextComponent,
-	setIcon,
 	Modal,
+	MarkdownPostProcessorContext,
+	MarkdownSectionInformation,
 	MarkdownView,
-	Notice
+	Notice,
+	TFile,
+	TFolder,
+	setIcon,
+	WorkspaceLeaf
 } from 'obsidian';
+import { ReviewGrade, ReviewHistory } from './src/scheduler';
+import { Flashcard, FlashyCardType } from './src/cards';
+import { extractFlashyBlocks, parseDeck } from './src/parser';
+import { DEFAULT_SETTINGS, FlashyPluginSettings, applyDisplaySettings } from './src/settings';
+import { DeckHost, getLiveDecks, renderDeck, renderDiagnostics } from './src/deck';
+import { renderExam } from './src/examDeck';
+import { CardFilter, CardIndex } from './src/cardIndex';
+import { CardIdentityRegistry, IdentityRegistryData } from './src/identity';
+import { FlashyReviewView, VIEW_TYPE_REVIEW, getReviewDeckId, parseReviewDeckId, renameReviewDeckId } from './src/reviewView';
+import { exportCardsToAnki, importAnkiFile, pickFile } from './src/ankiTransfer';
+import { DeckInfo, MAX_STORED_SESSIONS, SessionRecord, getDueCounts, getGoalProgress, renameNoteDeckId } from './src/stats';
+import { FlashyStatsView, VIEW_TYPE_STATS } from './src/statsView';
+import { SessionStateData, SessionStateStore } from './src/sessionState';
+import { CARD_TYPE_NAMES, ModalCardData, ModalDeckContext, ModalDeckData, ModalDeckProblem, buildDeckSource, createModalCard, hasContent, parseModalDeck, summarizeModalCard, validateModalDeck, wrapDeckSource } from './src/deckEditing';
+import { DEFAULT_GENERATE_OPTIONS, GENERATED_CARD_KIND_NAMES, GenerateOptions, GeneratedCard, generateCards } from './src/cardGenerator';
+import { CreatorDraft, DraftData, DraftStore } from './src/drafts';
+import { KEY_ACTIONS, KeyAction, eventToBinding, findKeyConflict, formatBinding } from './src/keymap';
+import { FlashyTheme, THEME_COLORS, addColorSetting, createTheme, findTheme, isValidColor, renderThemePreview, validateTheme } from './src/themes';
 
 /**
- * Base interface for all flashcard types.
- * Defines common properties like type, question, and custom styling.
- */
-interface BaseFlashcard {
-	type: 'multiple-choice' | 'fill-in-the-blank' | 'qa';
-	question: string;
-	customBackgroundColor?: string;
-	customTextColor?: string;
-}
-
-/**
- * Represents a multiple-choice flashcard.
- * Extends BaseFlashcard with an array of possible answers, each with text and a correctness flag.
- */
-interface MultipleChoiceCard extends BaseFlashcard {
-	type: 'multiple-choice';
-	answers: { text: string; isCorrect: boolean; }[];
-}
-
-/**
- * Represents a fill-in-the-blank flashcard.
- * Extends BaseFlashcard with an answer and an optional second part for the question
- * (used when the blank is in the middle of a sentence).
- */
-interface FillInTheBlankCard extends BaseFlashcard {
-	type: 'fill-in-the-blank';
-	questionPartTwo?: string;
-	answer: string;
-}
-
-/**
- * Represents a Question/Answer flashcard.
- * Extends BaseFlashcard with a direct answer to the question.
- */
-interface QACard extends BaseFlashcard {
-	type: 'qa';
-	answer: string;
-}
-
-/**
- * Union type for all possible flashcard types.
- */
-type Flashcard = MultipleChoiceCard | FillInTheBlankCard | QACard;
-
-export type FlashyCardType = 'multiple-choice' | 'fill-in-the-blank' | 'qa';
-
-interface ModalCardData {
-	cardType: FlashyCardType;
-	question: string;
-	correctAnswers: string;
-	incorrectAnswers: string;
-	fitbText: string;
-	qaAnswer: string;
-
-	bgColor: string;
-	textColor: string;
-}
-
-/**
- * Interface for the plugin's settings.
- * Defines configurable options such as card shuffling, auto-advancement,
- * and default card types for the creation modal.
- */
-interface FlashyPluginSettings {
-	shuffleCards: boolean;
-	shuffleAnswers: boolean;
-	autoAdvance: boolean;
-	autoAdvanceIncorrect: boolean;
-	autoAdvanceDelay: number;
-	defaultModalCardType: 'multiple-choice' | 'fill-in-the-blank' | 'qa';
-	keyPreviousCard: string;
-	keyNextCard: string;
-	keyResetSession: string;
-	enableKeyboardNav: boolean;
-}
-
-/**
- * Default settings for the Flashy plugin.
+ * Shape of the data persisted through the plugin's `saveData`.
  */
-const DEFAULT_SETTINGS: FlashyPluginSettings = {
-	shuffleCards: false,
-	shuffleAnswers: true,
-	autoAdvance: false,
-	autoAdvanceIncorrect: false,
-	autoAdvanceDelay: 1000,
-	defaultModalCardType: 'multiple-choice',
-	keyPreviousCard: 'ArrowLeft',
-	keyNextCard: 'ArrowRight',
-	keyResetSession: 'r',
-	enableKeyboardNav: true,
+interface FlashyPluginData {
+	settings: FlashyPluginSettings;
+	reviews: ReviewHistory;
+	identities: IdentityRegistryData;
+	sessions: SessionRecord[];
+	sessionStates: SessionStateData;
+	drafts: DraftData;
 }
 
 /**
@@ -110,6 +56,21 @@ const DEFAULT_SETTINGS: FlashyPluginSettings = {
  */
 export default class FlashyPlugin extends Plugin {
 	settings: FlashyPluginSettings;
+	reviews: ReviewHistory;
+	sessions: SessionRecord[];
+	sessionStates: SessionStateStore;
+	drafts: DraftStore;
+	identities: CardIdentityRegistry;
+	cardIndex: CardIndex;
+	private identityData: IdentityRegistryData;
+	/** Re-indexes the vault shortly after a setting affecting which cards exist changes. */
+	requestIndexRebuild = debounce(() => {
+		this.inlineCache = null;
+		this.cardIndex.build();
+	}, 1000, true);
+	private statusBarEl: HTMLElement | null = null;
+	/** Inline cards of the note last rendered in reading view, reused across its sections. */
+	private inlineCache: { path: string; text: string; cards: Flashcard[] } | null = null;
 
 	/**
 	 * Called when the plugin is loaded.
@@ -117,6 +78,175 @@ export default class FlashyPlugin extends Plugin {
 	async onload() {
 		await this.loadSettings();
 
+		this.cardIndex = new CardIndex(this.app, this.identities, this.settings);
+		this.app.workspace.onLayoutReady(async () => {
+			await this.cardIndex.build();
+			this.cardIndex.registerEvents(this);
+		});
+
+		// Today's due and new cards, and the daily goal, in the status bar.
+		this.statusBarEl = this.addStatusBarItem();
+		this.statusBarEl.addClass('flashy-status-bar', 'mod-clickable');
+		this.statusBarEl.addEventListener('click', () => this.activateReviewView());
+		this.registerEvent(this.cardIndex.on('changed', () => this.updateStatusBar()));
+		// Cards become due and days change while Obsidian stays open.
+		this.registerInterval(window.setInterval(() => this.updateStatusBar(), 60 * 1000));
+		this.updateStatusBar();
+
+		this.updateDisplayClasses();
+		this.registerEvent(this.app.workspace.on('window-open', () => this.updateDisplayClasses()));
+
+		this.registerView(VIEW_TYPE_REVIEW, (leaf) => new FlashyReviewView(leaf, this));
+		this.registerView(VIEW_TYPE_STATS, (leaf) => new FlashyStatsView(leaf, this));
+
+		this.addCommand({
+			id: 'review-due-cards',
+			name: 'Review due cards',
+			callback: () => this.activateReviewView(),
+		});
+
+		this.addCommand({
+			id: 'open-statistics',
+			name: 'Open statistics',
+			callback: () => this.activateStatsView(),
+		});
+
+		this.addCommand({
+			id: 'insert-new-deck',
+			name: 'Insert new deck',
+			editorCallback: (editor) => this.openCreator(editor),
+		});
+
+		this.addCommand({
+			id: 'review-current-note',
+			name: 'Start review of current note',
+			checkCallback: (checking) => {
+				const file = this.app.workspace.getActiveFile();
+				if (!file || this.cardIndex.getCards({ notePath: file.path }).length === 0) return false;
+				if (!checking) this.startReview({ notePath: file.path }, false);
+				return true;
+			},
+		});
+
+		this.addCommand({
+			id: 'review-folder',
+			name: 'Review due cards in folder',
+			callback: () => {
+				const folders = this.cardIndex.getFolders();
+				if (folders.length === 0) {
+					new Notice("No folder contains flashy cards.");
+					return;
+				}
+				// Offer the active note's folder first.
+				const current = this.app.workspace.getActiveFile()?.parent?.path;
+				if (current && folders.includes(current)) folders.unshift(...folders.splice(folders.indexOf(current), 1));
+				new FolderSuggestModal(this.app, folders, folder => this.startReview({ folder }, true)).open();
+			},
+		});
+
+		this.addCommand({
+			id: 'reset-session',
+			name: 'Reset session',
+			checkCallback: (checking) => {
+				const view = this.app.workspace.getActiveViewOfType(ItemView);
+				const deck = view ? getLiveDecks(view.containerEl)[0] : undefined;
+				if (!deck) return false;
+				if (!checking) deck.reset();
+				return true;
+			},
+		});
+
+		this.addCommand({
+			id: 'jump-to-next-deck',
+			name: 'Jump to next deck in note',
+			checkCallback: (checking) => {
+				const view = this.app.workspace.getActiveViewOfType(MarkdownView);
+				if (!view) return false;
+				if (!checking) this.jumpToNextDeck(view);
+				return true;
+			},
+		});
+
+		// Keep the statistics and unfinished sessions of a renamed note's decks with its new path,
+		// as well as those of review sessions narrowed down to the note or its folder.
+		this.registerEvent(this.app.vault.on('rename', (file, oldPath) => {
+			this.sessionStates.rename(oldPath, file.path);
+			this.sessionStates.renameDecks(deckId => renameReviewDeckId(deckId, oldPath, file.path));
+			let changed = false;
+			this.sessions.forEach(session => {
+				const reviewDeckId = renameReviewDeckId(session.deckId, oldPath, file.path);
+				if (reviewDeckId) {
+					session.deckId = reviewDeckId;
+					changed = true;
+					return;
+				}
+				if (session.sourcePath !== oldPath) return;
+				session.sourcePath = file.path;
+				session.deckId = renameNoteDeckId(session.deckId, oldPath, file.path) ?? session.deckId;
+				changed = true;
+			});
+			if (changed) this.savePluginData();
+		}));
+
+		this.addCommand({
+			id: 'import-anki-deck',
+			name: 'Import Anki deck',
+			callback: () => this.importAnkiDeck(),
+		});
+
+		this.addCommand({
+			id: 'export-note-to-anki',
+			name: 'Export cards in this note for Anki',
+			checkCallback: (checking) => {
+				const file = this.app.workspace.getActiveFile();
+				if (!file || file.extension !== 'md') return false;
+				if (!checking) this.exportToAnki(file);
+				return true;
+			},
+		});
+
+		this.addCommand({
+			id: 'generate-cards-from-note',
+			name: 'Generate cards from this note or selection',
+			editorCallback: (editor, ctx) => {
+				const selection = editor.getSelection();
+				// The deck goes right after the selection, or at the end of the note.
+				const lastLine = editor.lastLine();
+				const insertAt = selection ? editor.getCursor('to') : { line: lastLine, ch: editor.getLine(lastLine).length };
+				new GenerateCardsModal(this.app, this, selection || editor.getValue(), ctx.file?.path ?? '', (result) => {
+					editor.replaceRange(`\n\n${wrapDeckSource(result)}\n`, insertAt);
+				}).open();
+			},
+		});
+
+		this.addCommand({
+			id: 'edit-deck-at-cursor',
+			name: 'Edit the deck at the cursor',
+			editorCheckCallback: (checking, editor, ctx) => {
+				const line = editor.getCursor().line;
+				const block = extractFlashyBlocks(editor.getValue()).find(b => b.startLine <= line && line <= b.endLine);
+				if (!block) return false;
+				if (!checking) {
+					this.editDeck(block.source, `${ctx.file?.path ?? ''}:${block.startLine}`, source => {
+						// Only write back if the block is still where and what it was when the modal opened.
+						const current = extractFlashyBlocks(editor.getValue()).find(b => b.startLine === block.startLine);
+						if (!current || current.source !== block.source) throw new Error('The deck was changed while you were editing it.');
+						editor.replaceRange(`${source}\n`, { line: block.startLine + 1, ch: 0 }, { line: current.endLine, ch: 0 });
+					});
+				}
+				return true;
+			},
+		});
+
+		// Export a note's or folder's cards from the file explorer.
+		this.registerEvent(this.app.workspace.on('file-menu', (menu, file) => {
+			if (!(file instanceof TFolder) && !(file instanceof TFile && file.extension === 'md')) return;
+			menu.addItem(item => item
+				.setTitle('Export flashy cards for Anki')
+				.setIcon('download')
+				.onClick(() => this.exportToAnki(file)));
+		}));
+
 		/**
 		 * Registers a ribbon icon to the Obsidian UI.
 		 * Clicking this icon opens a modal for creating new flashcards.
@@ -125,11 +255,7 @@ export default class FlashyPlugin extends Plugin {
 			const view = this.app.workspace.getActiveViewOfType(MarkdownView);
 			if (view) {
 				if (view.getMode() === 'source') {
-					new FlashcardCreatorModal(this.app, this.settings, (result) => {
-						if (result) {
-							view.editor.replaceSelection(`\n\`\`\`flashy\n${result}\n\`\`\`\n`);
-						}
-					}).open();
+					this.openCreator(view.editor);
 				} else {
 					new Notice("Please switch to editing view to create a flashcard.");
 				}
@@ -143,453 +269,386 @@ export default class FlashyPlugin extends Plugin {
 		 * This function is responsible for rendering and managing the interactive flashcards.
 		 */
 		this.registerMarkdownCodeBlockProcessor('flashy', (source, el, ctx) => {
-			const settings = this.settings;
-
-			let currentCardIndex: number;
-			let stats: { correct: number, incorrect: number, answered: number };
-			let answeredCardIndexes: Set<number>;
-			let cardsToRender: Flashcard[];
-			const allCards = parseAllCards(source);
+			// Report lines relative to the note when we know where the block starts.
+			const section = ctx.getSectionInfo(el);
+			const deck = parseDeck(source, ctx.sourcePath, section ? section.lineStart + 1 : 0);
+			const allCards = deck.cards;
+			this.identities.assignIds(ctx.sourcePath, allCards);
 
 			if (allCards.length === 0) {
 				el.createEl('p', { text: 'No valid flashy cards found. Check your syntax!', cls: 'flashcard-error' });
+				renderDiagnostics(el, deck.diagnostics);
 				return;
 			}
 
-			// Fisher-Yates shuffle algorithm to randomize an array.
-			function fisherYatesShuffle<T>(array: T[]): T[] {
-				const arr = [...array];
-				for (let i = arr.length - 1; i > 0; i--) {
-					const j = Math.floor(Math.random() * (i + 1));
-					[arr[i], arr[j]] = [arr[j], arr[i]];
-				}
-				return arr;
-			}
-
-			// Initialize/reset deck function
-			function initializeDeck() {
-				// Store the card that is *currently* at index 0 before resetting
-				const previousFirstCard = cardsToRender ? cardsToRender[0] : undefined;
-
-				// Reset stats
-				stats = { correct: 0, incorrect: 0, answered: 0 };
-				answeredCardIndexes = new Set<number>();
-
-				// Shuffle logic with the added check
-				if (settings.shuffleCards && allCards.length > 1) {
-					do {
-						cardsToRender = fisherYatesShuffle(allCards);
-					} while (previousFirstCard !== undefined && cardsToRender[0] === previousFirstCard);
-				} else {
-					cardsToRender = [...allCards];
-				}
-
-				// Always start at the beginning
-				currentCardIndex = 0;
+			// The note's frontmatter can name and tag every deck in it.
+			const options = this.cardIndex.getDeckOptions(ctx.sourcePath, deck.options);
+			const deckInfo = this.getBlockDeckInfo(ctx.sourcePath, section, options.title);
+			const render = options.mode === 'exam' ? renderExam : renderDeck;
+			ctx.addChild(render(this, el, allCards, deckInfo, options));
+			// The last `theme` wins, as in the parser.
+			const themeProperty = deck.properties.filter(prop => prop.key === 'theme' && prop.value).pop();
+			if (themeProperty && !findTheme(this.settings.themes, themeProperty.value)) {
+				deck.diagnostics.push({
+					severity: 'warning',
+					message: `there is no theme called "${themeProperty.value}" in the settings`,
+					line: themeProperty.line,
+					column: themeProperty.column,
+				});
 			}
+			renderDiagnostics(el, deck.diagnostics);
 
-			const mainContainer = el.createDiv({ cls: 'flashcard-container' });
-			const child = new MarkdownRenderChild(mainContainer);
-			ctx.addChild(child);
-
-			/**
-			 * Handles keyboard navigation and interaction within the flashcard block.
-			 * @param event The KeyboardEvent object.
-			 */
-			const handleKeyDown = (event: KeyboardEvent) => {
-				if (!settings.enableKeyboardNav) return;
-				const activeEl = el.win.document.activeElement;
-				const isTyping = activeEl && activeEl.tagName === 'INPUT';
-
-				// Don't intercept keys if the flashcard block isn't focused/hovered
-				if (!el.contains(activeEl) && !el.matches(':hover')) return;
-
-				if (event.key === settings.keyPreviousCard) {
-					event.preventDefault();
-					if (currentCardIndex > 0) renderCard(currentCardIndex - 1);
-				} else if (event.key === settings.keyNextCard) {
-					event.preventDefault();
-					if (currentCardIndex < cardsToRender.length - 1) renderCard(currentCardIndex + 1);
-				} else if (event.key.toLowerCase() === settings.keyResetSession.toLowerCase()) {
-					if (isTyping) return;
-					event.preventDefault();
-					initializeDeck();
-					renderCard(0);
-				}
-
-				const num = parseInt(event.key);
-				if (!isNaN(num) && num >= 1 && num <= 9) {
-					if (isTyping) return;
-					event.preventDefault();
-					const answerButtons = mainContainer.querySelectorAll<HTMLButtonElement>('.flashcard-answer');
-					if (answerButtons[num - 1] && !answerButtons[num - 1].disabled) answerButtons[num - 1].click();
-				}
-			};
-			child.registerDomEvent(el.win, 'keydown', handleKeyDown);
-
-			/**
-			 * Callback function invoked when a card is graded (answered).
-			 * Updates statistics and handles auto-advancement.
-			 */
-			const onGraded = (isCorrect: boolean) => {
-				if (answeredCardIndexes.has(currentCardIndex)) {
-					return;
-				}
-				answeredCardIndexes.add(currentCardIndex);
+			const editButton = el.createEl('button', { cls: 'flashy-edit-deck flashy-icon-button', attr: { 'aria-label': 'Edit deck' } });
+			setIcon(editButton, 'pencil');
+			editButton.addEventListener('click', () => this.editRenderedDeck(source, el, ctx));
+		});
 
-				if (isCorrect) stats.correct++;
-				else stats.incorrect++;
-				stats.answered++;
+		/**
+		 * Registers a post-processor making inline cards reviewable in reading view.
+		 * Each rendered section gets a button that expands a deck of the cards it defines.
+		 */
+		this.registerMarkdownPostProcessor((el, ctx) => {
+			const section = ctx.getSectionInfo(el);
+			const file = this.app.vault.getAbstractFileByPath(ctx.sourcePath);
+			if (!section || !(file instanceof TFile)) return;
+
+			const cards = this.getInlineCards(file, section.text)
+				.filter(card => card.position.start.line >= section.lineStart && card.position.start.line <= section.lineEnd);
+			if (cards.length === 0) return;
+
+			const container = el.createDiv({ cls: 'flashy-inline' });
+			const toggle = container.createEl('button', {
+				text: cards.length === 1 ? 'Review card' : `Review ${cards.length} cards`,
+				cls: 'flashy-inline-toggle',
+			});
+			toggle.addEventListener('click', () => {
+				toggle.remove();
+				ctx.addChild(renderDeck(this, container.createDiv(), cards, {
+					id: `${ctx.sourcePath}#inline-${section.lineStart}`,
+					name: `${file.basename} (inline)`,
+					sourcePath: ctx.sourcePath,
+				}));
+			});
+		});
 
-				// Check if we should auto advance
-				const shouldAdvance = (isCorrect && settings.autoAdvance) || (!isCorrect && settings.autoAdvanceIncorrect);
+		this.addSettingTab(new FlashySettingTab(this.app, this));
+	}
 
-				if (shouldAdvance && currentCardIndex < cardsToRender.length - 1) {
-					window.setTimeout(() => {
-						renderCard(currentCardIndex + 1);
-					}, settings.autoAdvanceDelay);
-				}
+	/**
+	 * Called when the plugin is unloaded.
+	 */
+	onunload() {
+		this.getWindowBodies().forEach(body => applyDisplaySettings(body, { highContrast: false, reduceMotion: false }));
+	}
 
-				if (stats.answered === cardsToRender.length) {
-					window.setTimeout(() => renderSummary(), 1000);
-				}
-			};
-
-			/**
-			 * Renders a specific flashcard based on its index.
-			 * Clears the container and renders the appropriate card type and controls.
-			 * @param index The index of the card to render.
-			 */
-			function renderCard(index: number) {
-				currentCardIndex = index;
-				mainContainer.empty();
-				const cardData = cardsToRender[index];
-				if (!cardData) return;
-
-				if (cardData.customBackgroundColor) {
-					mainContainer.style.setProperty('--flashy-bg-override', cardData.customBackgroundColor);
-				} else {
-					mainContainer.style.removeProperty('--flashy-bg-override');
-				}
+	/**
+	 * Returns the body of the main window and of every popout window.
+	 */
+	private getWindowBodies(): HTMLElement[] {
+		const bodies = [document.body];
+		this.app.workspace.iterateAllLeaves(leaf => {
+			const body = leaf.view.containerEl.doc.body;
+			if (!bodies.includes(body)) bodies.push(body);
+		});
+		return bodies;
+	}
 
-				if (cardData.customTextColor) {
-					mainContainer.style.setProperty('--flashy-text-override', cardData.customTextColor);
-				} else {
-					mainContainer.style.removeProperty('--flashy-text-override');
-				}
+	/**
+	 * Applies the high contrast and reduced motion settings, which are styled from classes on the body of every window.
+	 */
+	updateDisplayClasses() {
+		this.getWindowBodies().forEach(body => applyDisplaySettings(body, this.settings));
+	}
 
-				renderHeader(mainContainer, cardData);
-				const body = mainContainer.createDiv({ cls: 'flashcard-body' });
-
-				switch (cardData.type) {
-					case 'multiple-choice':
-						renderMultipleChoiceBody(body, cardData, onGraded);
-						break;
-					case 'fill-in-the-blank':
-						renderFillInTheBlankBody(body, cardData, onGraded);
-						break;
-					case 'qa':
-						renderQABody(body, cardData, onGraded);
-						break;
-				}
-				renderControls(mainContainer, index, cardsToRender.length, renderCard);
-			}
+	/**
+	 * Returns the inline cards of a note for reading view, with their IDs assigned.
+	 * Reading view renders a note section by section, so the parse is reused while the text is unchanged.
+	 * @param file The note being rendered.
+	 * @param text The full markdown of the note.
+	 */
+	private getInlineCards(file: TFile, text: string): Flashcard[] {
+		if (this.inlineCache?.path !== file.path || this.inlineCache.text !== text) {
+			const cards = this.cardIndex.getInlineCards(file, text);
+			this.identities.assignIds(file.path, cards);
+			this.inlineCache = { path: file.path, text, cards };
+		}
+		return this.inlineCache.cards;
+	}
 
-			/**
-			 * Renders the summary screen after all cards have been answered.
-			 */
-			function renderSummary() {
-				mainContainer.empty();
-				const summaryEl = mainContainer.createDiv({ cls: 'flashcard-summary' });
-				summaryEl.createEl('h3', { text: 'Session complete!' });
-				const score = cardsToRender.length > 0 ? (stats.correct / cardsToRender.length * 100) : 0;
-				summaryEl.createEl('p', { text: `You answered ${stats.correct} out of ${cardsToRender.length} cards correctly on the first try.` });
-				summaryEl.createEl('p', { text: `Score: ${score.toFixed(0)}%` });
-
-				const resetButton = summaryEl.createEl('button', { text: 'Review again', cls: 'flashcard-reset' });
-				resetButton.addEventListener('click', () => {
-					initializeDeck();
-					renderCard(0);
-				});
-			}
+	/**
+	 * Lets the user pick an Anki deck and imports it into a new note next to the active one.
+	 */
+	async importAnkiDeck() {
+		const file = await pickFile('.apkg,.txt,.csv,.tsv');
+		if (!file) return;
+
+		try {
+			const folder = this.app.workspace.getActiveFile()?.parent?.path ?? '';
+			const result = await importAnkiFile(this.app, file, folder === '/' ? '' : folder);
+			new Notice(`Imported ${result.cardCount} cards into ${result.note.path}.`);
+			result.warnings.forEach(warning => new Notice(warning));
+			await this.app.workspace.getLeaf(false).openFile(result.note);
+		} catch (error) {
+			new Notice(`Could not import the Anki deck: ${error instanceof Error ? error.message : error}`);
+		}
+	}
 
-			/**
-			 * Renders the header section of a flashcard, including the question and a reset button.
-			 * @param container The HTMLElement to append the header to.
-			 * @param card The Flashcard data.
-			 */
-			function renderHeader(container: HTMLElement, card: Flashcard) {
-				const header = container.createDiv({ cls: 'flashcard-header' });
-
-				const titleContainer = header.createDiv();
-				let questionText = card.question;
-				if (card.type === 'fill-in-the-blank' && card.questionPartTwo) {
-					questionText += " ___ " + card.questionPartTwo;
-				}
-				titleContainer.createEl('p', { text: questionText, cls: 'flashcard-question' });
-
-				const resetButton = header.createEl('button', { cls: 'flashcard-reset flashy-icon-button' });
-				setIcon(resetButton, 'refresh-cw');
-				resetButton.ariaLabel = "Reset session (R)";
-				resetButton.addEventListener('click', () => {
-					initializeDeck();
-					renderCard(0);
-				});
-			}
+	/**
+	 * Exports the cards of a note or folder to an Anki text file.
+	 * @param target The note or folder to export.
+	 */
+	async exportToAnki(target: TFile | TFolder) {
+		const result = await exportCardsToAnki(this.app, this.cardIndex, target);
+		if (!result) {
+			new Notice(`No flashy cards found in ${target.name || 'the vault'}.`);
+			return;
+		}
+		new Notice(`Exported ${result.cardCount} cards to ${result.file.path}. Import it in Anki with File → Import.`);
+	}
 
-			/**
-			 * Renders the body for a multiple-choice flashcard.
-			 * @param container The HTMLElement to append the body to.
-			 * @param card The MultipleChoiceCard data.
-			 * @param onGraded Callback function to call when the card is graded.
-			 */
-			function renderMultipleChoiceBody(container: HTMLElement, card: MultipleChoiceCard, onGraded: (correct: boolean) => void) {
-				const buttonsContainer = container.createDiv({ cls: 'flashcard-buttons' });
-				const answers = card.answers;
-				const answersToShow = settings.shuffleAnswers ? fisherYatesShuffle(answers) : answers;
-				const totalCorrectAnswers = answers.filter(a => a.isCorrect).length;
-				let foundCorrectAnswers = 0;
-				let hasAnswered = false;
-				const allButtons: HTMLButtonElement[] = [];
-				const correctButtons: HTMLButtonElement[] = [];
-
-				answersToShow.forEach(answer => {
-					const button = buttonsContainer.createEl('button', { text: answer.text, cls: 'flashcard-answer' });
-					allButtons.push(button);
-					if (answer.isCorrect) correctButtons.push(button);
-
-					button.addEventListener('click', () => {
-						if (answer.isCorrect) {
-							button.classList.add('correct');
-							button.disabled = true;
-							foundCorrectAnswers++;
-							if (foundCorrectAnswers === totalCorrectAnswers) {
-								allButtons.forEach(btn => { if (!btn.disabled) btn.disabled = true; });
-								container.createEl('p', { text: 'Correct!', cls: 'flashcard-feedback correct' });
-								if (!hasAnswered) {
-									onGraded(true);
-									hasAnswered = true;
-								}
-							}
-						} else {
-							button.classList.add('incorrect');
-							allButtons.forEach(btn => btn.disabled = true);
-							correctButtons.forEach(correctBtn => correctBtn.classList.add('correct'));
-							container.createEl('p', { text: 'Incorrect', cls: 'flashcard-feedback incorrect' });
-							if (!hasAnswered) {
-								onGraded(false);
-								hasAnswered = true;
-							}
-						}
-					});
-				});
+	/**
+	 * Opens the creator modal for a new deck, inserted at the cursor.
+	 * @param editor The editor of the note to insert the deck into.
+	 */
+	openCreator(editor: Editor) {
+		new FlashcardCreatorModal(this.app, this, 'new', (result) => {
+			if (result) {
+				editor.replaceSelection(`\n${wrapDeckSource(result)}\n`);
 			}
+		}).open();
+	}
 
-			/**
-			 * Renders the body for a fill-in-the-blank flashcard.
-			 * @param container The HTMLElement to append the body to.
-			 * @param card The FillInTheBlankCard data.
-			 * @param onGraded Callback function to call when the card is graded.
-			 */
-			function renderFillInTheBlankBody(container: HTMLElement, card: FillInTheBlankCard, onGraded: (correct: boolean) => void) {
-				const formContainer = container.createDiv({ cls: 'flashcard-fill-container' });
-				const input = new TextComponent(formContainer).setPlaceholder("Type your answer...").inputEl;
-				input.classList.add('flashcard-fill-input');
-				const submitButton = formContainer.createEl('button', { text: "Submit", cls: "flashcard-fill-submit" });
-
-				const checkAnswer = () => {
-					const userAnswer = input.value.trim();
-					const isCorrect = userAnswer.toLowerCase() === card.answer.toLowerCase();
-					input.disabled = true;
-					submitButton.disabled = true;
-					onGraded(isCorrect);
-					const feedbackText = isCorrect ? "Correct!" : "Incorrect";
-					const feedbackClass = isCorrect ? "correct" : "incorrect";
-					input.classList.add(feedbackClass);
-					container.createEl('p', { text: feedbackText, cls: `flashcard-feedback ${feedbackClass}` });
-					if (!isCorrect) {
-						const reveal = container.createEl('p', { cls: 'flashcard-correct-answer-reveal' });
-						reveal.appendText('The correct answer was: ');
-						reveal.createEl('span', { text: card.answer });
-					}
-				};
-				submitButton.addEventListener('click', checkAnswer);
-				input.addEventListener('keydown', (e) => {
-					if (e.key === 'Enter' && !e.isComposing) { e.preventDefault(); checkAnswer(); }
-				});
-			}
+	/**
+	 * Opens the review view and starts a session right away.
+	 * @param filter The cards to review.
+	 * @param dueOnly Whether to only review the cards that are due.
+	 */
+	async startReview(filter: CardFilter, dueOnly: boolean) {
+		const leaf = await this.activateView(VIEW_TYPE_REVIEW);
+		if (leaf.view instanceof FlashyReviewView) leaf.view.startReview(filter, dueOnly);
+	}
 
-			/**
-			 * Renders the body for a Question/Answer flashcard.
-			 * @param container The HTMLElement to append the body to.
-			 * @param card The QACard data.
-			 * @param onGraded Callback function to call when the card is graded.
-			 */
-			function renderQABody(container: HTMLElement, card: QACard, onGraded: (correct: boolean) => void) {
-				const qaContainer = container.createDiv({ cls: 'qa-container' });
-				const answerContainer = qaContainer.createDiv({ cls: 'qa-answer-container', text: card.answer });
-				answerContainer.hide();
-
-				const gradingContainer = qaContainer.createDiv({ cls: 'qa-grading-buttons' });
-				gradingContainer.hide();
-
-				const showAnswerButton = qaContainer.createEl('button', { text: "Show answer", cls: 'mod-cta' });
-
-				const gradeCorrectButton = gradingContainer.createEl('button', { text: 'I was right', cls: 'qa-grading-button correct' });
-				const gradeIncorrectButton = gradingContainer.createEl('button', { text: 'I was wrong', cls: 'qa-grading-button incorrect' });
-
-				const handleGrading = (correct: boolean) => {
-					onGraded(correct);
-					gradeCorrectButton.disabled = true;
-					gradeIncorrectButton.disabled = true;
-				};
-
-				gradeCorrectButton.addEventListener('click', () => handleGrading(true));
-				gradeIncorrectButton.addEventListener('click', () => handleGrading(false));
-
-				showAnswerButton.addEventListener('click', () => {
-					showAnswerButton.hide();
-					answerContainer.show();
-					gradingContainer.show();
-				});
-			}
+	/**
+	 * Brings the next `flashy` block of a note into view, wrapping around after the last one.
+	 * In editing view "next" is after the cursor, in reading view after the top of the screen.
+	 * @param view The note's view.
+	 */
+	private jumpToNextDeck(view: MarkdownView) {
+		const source = view.getMode() === 'source';
+		const blocks = extractFlashyBlocks(source ? view.editor.getValue() : view.data);
+		const line = source ? view.editor.getCursor().line : Math.floor(view.previewMode.getScroll());
+		const block = blocks.find(b => b.startLine > line) ?? blocks[0];
+		if (!block) {
+			new Notice("This note has no flashy decks.");
+			return;
+		}
+		if (!source) {
+			view.previewMode.applyScroll(block.startLine);
+			return;
+		}
+		// Leave the cursor below the block, so live preview keeps it rendered and the next jump moves on.
+		view.editor.setCursor({ line: Math.min(block.endLine + 1, view.editor.lastLine()), ch: 0 });
+		view.editor.scrollIntoView({ from: { line: block.startLine, ch: 0 }, to: { line: block.endLine, ch: 0 } }, true);
+	}
 
-			/**
-			 * Renders navigation controls (previous/next buttons and progress indicator).
-			 * @param container The HTMLElement to append the controls to.
-			 * @param currentIndex The current index of the displayed card.
-			 * @param total The total number of cards.
-			 * @param onNavigate Callback function to navigate to a new card index.
-			 */
-			function renderControls(container: HTMLElement, currentIndex: number, total: number, onNavigate: (newIndex: number) => void) {
-				const controls = container.createDiv({ cls: 'flashcard-controls' });
-
-				const prevButton = controls.createEl('button', { cls: 'flashcard-nav flashy-icon-button' });
-				setIcon(prevButton, 'arrow-left');
-				prevButton.ariaLabel = 'Previous card (left arrow)';
-				prevButton.disabled = currentIndex === 0;
-				prevButton.addEventListener('click', () => onNavigate(currentIndex - 1));
-
-				const middleContainer = controls.createDiv({ cls: 'flashcard-middle-controls' });
-				if (total > 1) {
-					middleContainer.createEl('span', { text: `${currentIndex + 1} / ${total}`, cls: 'flashcard-progress' });
-				}
+	/**
+	 * Shows the number of due and new cards in the status bar, with today's progress towards the daily goal.
+	 */
+	updateStatusBar() {
+		if (!this.statusBarEl) return;
+		this.statusBarEl.toggle(this.settings.showStatusBar);
+		if (!this.settings.showStatusBar) return;
+		const counts = getDueCounts(this.cardIndex.getCards(), this.reviews);
+		const parts = [`${counts.due} due`, `${counts.new} new`];
+		const tooltip = [`${counts.due} ${counts.due === 1 ? 'card' : 'cards'} due and ${counts.new} new. Click to review.`];
+		if (this.settings.dailyGoal > 0) {
+			const goal = getGoalProgress(this.reviews, this.settings.dailyGoal);
+			parts.push(`${goal.today}/${this.settings.dailyGoal} today`);
+			if (goal.streak > 0) parts.push(`🔥 ${goal.streak}`);
+			tooltip.push(`Daily goal: ${goal.today} of ${this.settings.dailyGoal} reviews. Streak: ${goal.streak} ${goal.streak === 1 ? 'day' : 'days'}.`);
+		}
+		this.statusBarEl.setText(`Flashy: ${parts.join(' · ')}`);
+		this.statusBarEl.setAttr('aria-label', tooltip.join('\n'));
+		this.statusBarEl.setAttr('data-tooltip-position', 'top');
+	}
 
-				const nextButton = controls.createEl('button', { cls: 'flashcard-nav flashy-icon-button' });
-				setIcon(nextButton, 'arrow-right');
-				nextButton.ariaLabel = 'Next card (right arrow)';
-				nextButton.disabled = currentIndex >= total - 1;
-				nextButton.addEventListener('click', () => onNavigate(currentIndex + 1));
+	/**
+	 * Opens the creator modal pre-filled with an existing deck.
+	 * @param source The text between the block's fences.
+	 * @param draftKey Where the block is, e.g. `folder/note.md:12`, to keep unsaved edits under.
+	 * @param save Writes the edited source back over the block. May throw if the block can't be found anymore.
+	 */
+	editDeck(source: string, draftKey: string, save: (source: string) => void | Promise<void>) {
+		const deck = parseModalDeck(source);
+		if (!deck) {
+			new Notice("This deck has syntax errors. Fix them before editing it in the card creator.");
+			return;
+		}
+		new FlashcardCreatorModal(this.app, this, draftKey, async (result) => {
+			try {
+				await save(result);
+			} catch (error) {
+				new Notice(`Couldn't save the deck: ${error instanceof Error ? error.message : error}`);
 			}
+		}, deck, source).open();
+	}
 
-			/**
-			 * Parses the source string of a flashy code block into an array of Flashcard objects.
-			 * @param source The raw string content of the flashy code block.
-			 */
-			function parseAllCards(source: string): Flashcard[] {
-				let content = source.trim();
-				const globalProperties: { bg?: string; color?: string } = {};
-
-				const globalPropMatch = content.match(/^\[\[(.*?)]]\n?/);
-				if (globalPropMatch) {
-					const propLine = globalPropMatch[1];
-					const props = propLine.trim().split(/\s+/);
-					props.forEach(prop => {
-						const [key, value] = prop.split('=');
-						if (key === 'bg' && value) globalProperties.bg = value;
-						if (key === 'color' && value) globalProperties.color = value;
-					});
-					content = content.substring(globalPropMatch[0].length);
-				}
-
-				const cardBlocks = content.split(/\n---\n/);
-
-				return cardBlocks.map(block => {
-					const lines = block.trim().split('\n').filter(line => line.trim().length > 0);
-					if (lines.length === 0) return null;
-
-					const cardProperties: { bg?: string; color?: string } = {};
-					if (lines[0].startsWith('[') && lines[0].endsWith(']')) {
-						const propLine = lines.shift()?.slice(1, -1);
-						if (propLine) {
-							const props = propLine.trim().split(/\s+/);
-							props.forEach(prop => {
-								const [key, value] = prop.split('=');
-								if (key === 'bg' && value) cardProperties.bg = value;
-								if (key === 'color' && value) cardProperties.color = value;
-							});
-						}
-					}
+	/**
+	 * Edits a rendered `flashy` block, writing the result back to its note.
+	 * @param source The text between the block's fences, as rendered.
+	 * @param el The element the block was rendered into.
+	 * @param ctx The block's post-processor context.
+	 */
+	private editRenderedDeck(source: string, el: HTMLElement, ctx: MarkdownPostProcessorContext) {
+		const file = this.app.vault.getAbstractFileByPath(ctx.sourcePath);
+		const section = ctx.getSectionInfo(el);
+		if (!(file instanceof TFile) || !section) {
+			new Notice("Couldn't find this deck in its note. Use the \"Edit the deck at the cursor\" command instead.");
+			return;
+		}
+		this.editDeck(source, `${file.path}:${section.lineStart}`, async (result) => {
+			await this.app.vault.process(file, data => {
+				// Only write back if the block is still where and what it was when the modal opened.
+				const block = extractFlashyBlocks(data).find(b => b.startLine === section.lineStart);
+				if (!block || block.source.trim() !== source.trim()) throw new Error('The deck was changed while you were editing it.');
+				const lines = data.split('\n');
+				return [...lines.slice(0, block.startLine + 1), result, ...lines.slice(block.endLine)].join('\n');
+			});
+		});
+	}
 
-					if (lines.length === 0) return null;
-
-					let card: Flashcard | null = null;
-
-					const qaSeparatorIndex = lines.findIndex(line => line.trim().startsWith('==='));
-					if (qaSeparatorIndex > -1) {
-						const question = lines.slice(0, qaSeparatorIndex).join('\n').trim();
-						const answer = lines[qaSeparatorIndex].trim().substring(3).trim();
-
-						if (question && answer) {
-							card = { type: 'qa', question, answer } as QACard;
-						}
-					} else {
-						const questionLine = lines[0];
-						const fitbMatch = questionLine.match(/(.*){{(.*)}}(.*)/);
-						if (fitbMatch && fitbMatch[2]) {
-							const [, q1, answer, q2] = fitbMatch;
-							card = {
-								type: 'fill-in-the-blank',
-								question: q1.trim(), questionPartTwo: q2.trim() || undefined, answer: answer.trim(),
-							} as FillInTheBlankCard;
-						} else if (lines.length > 1) {
-							const answers = lines.slice(1).map(line => ({
-								text: line.trim().startsWith('=') ? line.trim().substring(1).trim() : line.trim(),
-								isCorrect: line.trim().startsWith('='),
-							}));
-							if (answers.some(a => a.isCorrect)) {
-								card = {
-									type: 'multiple-choice', question: questionLine.trim(), answers: answers,
-								} as MultipleChoiceCard;
-							}
-						}
-					}
+	/**
+	 * Identifies a `flashy` block for the session statistics by its note and its position among the note's blocks.
+	 * @param sourcePath The note containing the block.
+	 * @param section Where the block is in the note, if known.
+	 * @param title The deck's title, used as its name instead of the note's.
+	 */
+	private getBlockDeckInfo(sourcePath: string, section: MarkdownSectionInformation | null, title?: string): DeckInfo {
+		const noteName = sourcePath.split('/').pop()?.replace(/\.md$/, '') ?? sourcePath;
+		if (!section) return { id: sourcePath, name: title ?? noteName, sourcePath };
+		const blocks = extractFlashyBlocks(section.text);
+		const index = Math.max(0, blocks.findIndex(block => block.startLine === section.lineStart));
+		return {
+			id: `${sourcePath}#${index}`,
+			name: title ?? (blocks.length > 1 ? `${noteName} (deck ${index + 1})` : noteName),
+			sourcePath,
+		};
+	}
 
-					if (card) {
-						card.customBackgroundColor = cardProperties.bg || globalProperties.bg;
-						card.customTextColor = cardProperties.color || globalProperties.color;
-						return card;
-					}
+	/**
+	 * Opens the vault-wide review view, or focuses it if it is already open.
+	 */
+	async activateReviewView() {
+		await this.activateView(VIEW_TYPE_REVIEW);
+	}
 
-					return null;
-				}).filter((card): card is Flashcard => card !== null);
-			}
+	/**
+	 * Opens the statistics view, or focuses it if it is already open.
+	 */
+	async activateStatsView() {
+		await this.activateView(VIEW_TYPE_STATS);
+	}
 
-			initializeDeck();
-			renderCard(0);
+	/**
+	 * Opens a view of the given type in a new tab, or focuses the existing one.
+	 */
+	private async activateView(type: string): Promise<WorkspaceLeaf> {
+		const { workspace } = this.app;
+		let leaf = workspace.getLeavesOfType(type)[0];
+		if (!leaf) {
+			leaf = workspace.getLeaf('tab');
+			await leaf.setViewState({ type, active: true });
+		}
+		workspace.revealLeaf(leaf);
+		return leaf;
+	}
 
+	/**
+	 * Loads the plugin settings, review history, card identities and creator drafts from storage.
+	 */
+	async loadSettings() {
+		const data = await this.loadData();
+		// Older versions stored the settings object at the top level.
+		const storedSettings = data && data.settings ? data.settings : data;
+		this.settings = Object.assign({}, DEFAULT_SETTINGS, storedSettings);
+		// The themes are edited in place; keep the defaults out of it.
+		this.settings.themes = this.settings.themes.map(theme => ({ ...theme }));
+		this.reviews = (data && data.reviews) || {};
+		this.sessions = (data && data.sessions) || [];
+		// Unfinished sessions are only picked up from disk when they should survive restarts.
+		const sessionStates = this.settings.rememberSessions && data && data.sessionStates;
+		this.sessionStates = new SessionStateStore(sessionStates || {}, debounce(() => this.savePluginData(), 1000, true));
+		// Older versions joined the filters of review sessions with `:`; move their sessions to the encoded IDs.
+		const upgradeReviewDeckId = (deckId: string) => {
+			const filter = parseReviewDeckId(deckId);
+			return filter ? getReviewDeckId(filter) : null;
+		};
+		this.sessions.forEach(session => {
+			session.deckId = upgradeReviewDeckId(session.deckId) ?? session.deckId;
 		});
+		this.sessionStates.renameDecks(upgradeReviewDeckId);
+		this.drafts = new DraftStore((data && data.drafts) || {}, debounce(() => this.savePluginData(), 1000, true));
+		this.identityData = (data && data.identities) || {};
+		// Indexing the vault touches many notes at once; batch the resulting saves.
+		this.identities = new CardIdentityRegistry(this.identityData, debounce(() => this.savePluginData(), 1000, true));
+	}
 
-		this.addSettingTab(new FlashySettingTab(this.app, this));
+	/**
+	 * Saves the plugin settings to storage.
+	 */
+	async saveSettings() {
+		await this.savePluginData();
 	}
 
 	/**
-	 * Called when the plugin is unloaded.
+	 * Persists the settings, review history, card identities and creator drafts.
 	 */
-	onunload() { }
+	async savePluginData() {
+		const data: FlashyPluginData = {
+			settings: this.settings,
+			reviews: this.reviews,
+			identities: this.identityData,
+			sessions: this.sessions,
+			sessionStates: this.settings.rememberSessions ? this.sessionStates.getData() : {},
+			drafts: this.drafts.getData(),
+		};
+		await this.saveData(data);
+	}
 
 	/**
-	 * Loads the plugin settings from storage.
+	 * Records a graded review of a card and persists it.
+	 * @param cardId The stable ID of the reviewed card.
+	 * @param grade The grade given by the user.
 	 */
-	async loadSettings() {
-		this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
+	async recordReview(cardId: string, grade: ReviewGrade) {
+		await this.recordReviews([{ cardId, grade }]);
 	}
 
 	/**
-	 * Saves the plugin settings to storage.
+	 * Records several graded reviews, e.g. of a whole exam, and persists them with a single save.
+	 * @param reviews The stable ID of each reviewed card with the grade it got.
 	 */
-	async saveSettings() {
-		await this.saveData(this.settings);
+	async recordReviews(reviews: { cardId: string; grade: ReviewGrade }[]) {
+		const timestamp = Date.now();
+		reviews.forEach(({ cardId, grade }) => {
+			if (!this.reviews[cardId]) this.reviews[cardId] = [];
+			this.reviews[cardId].push({ timestamp, grade });
+		});
+		this.updateStatusBar();
+		await this.savePluginData();
+	}
+
+	/**
+	 * Records a completed review session, persists it and refreshes any open statistics view.
+	 * @param session The finished session.
+	 */
+	async recordSession(session: SessionRecord) {
+		this.sessions.push(session);
+		if (this.sessions.length > MAX_STORED_SESSIONS) this.sessions.splice(0, this.sessions.length - MAX_STORED_SESSIONS);
+		await this.savePluginData();
+		this.app.workspace.getLeavesOfType(VIEW_TYPE_STATS).forEach(leaf => {
+			if (leaf.view instanceof FlashyStatsView) leaf.view.render();
+		});
 	}
 }
 
@@ -599,50 +658,96 @@ export default class FlashyPlugin extends Plugin {
  */
 class FlashcardCreatorModal extends Modal {
 	private cards: ModalCardData[] = [];
+	private deckProperties = '';
 	private editingIndex = 0;
+	private readonly isEditing: boolean;
 	private readonly onSubmit: (result: string) => void;
+	private readonly plugin: FlashyPlugin;
 	private settings: FlashyPluginSettings;
+	/** Key of this deck's draft in the plugin's draft store. */
+	private readonly draftKey: string;
+	/** The source of the block being edited, to tell whether a stored draft still belongs to it. */
+	private readonly source?: string;
+	/** A draft left from an earlier, unfinished session, until the user restores or discards it. */
+	private pendingDraft: CreatorDraft | null = null;
+	/** Whether the deck was changed since the modal opened. */
+	private changed = false;
+	private submitted = false;
+	private problems: ModalDeckProblem[] = [];
+	/** Index of the card being dragged in the card list. */
+	private draggedIndex: number | null = null;
+	private cardListEl: HTMLElement;
+	private previewEl: HTMLElement;
+	private problemsEl: HTMLElement;
+	/** Owns the preview's rendered deck while the modal is open. */
+	private previewComponent: Component | null = null;
+	private previewChild: Component | null = null;
+	/** Refreshes the card list, preview, problems and draft shortly after the user stops typing. */
+	private readonly requestRefresh = debounce(() => this.refresh(), 300, true);
 
 	/**
 	 * Creates an instance of FlashcardCreatorModal.
 	 * @param app The Obsidian App instance.
-	 * @param settings The plugin settings, used for default card type.
+	 * @param plugin The plugin, providing the settings (e.g. the default card type) and the draft store.
+	 * @param draftKey Where unsaved work on this deck is kept: `new` for a new deck, `generate:` and the note's path
+	 * for generated cards, the block's location when editing.
 	 * @param onSubmit Callback function to execute when the deck is finished and inserted.
+	 * @param deck A deck to start from instead of an empty card, e.g. the one being edited.
+	 * @param source The text of the block being edited, if editing one.
 	 */
-	constructor(app: App, settings: FlashyPluginSettings, onSubmit: (result: string) => void) {
+	constructor(app: App, plugin: FlashyPlugin, draftKey: string, onSubmit: (result: string) => void, deck?: ModalDeckData, source?: string) {
 		super(app);
-		this.settings = settings;
+		this.plugin = plugin;
+		this.settings = plugin.settings;
+		this.draftKey = draftKey;
 		this.onSubmit = onSubmit;
-		this.cards.push(this.getEmptyCardData());
+		this.source = source;
+		this.isEditing = source !== undefined;
+		if (deck) {
+			this.deckProperties = deck.properties;
+			this.cards = deck.cards;
+		}
+		if (this.cards.length === 0) this.cards.push(this.getEmptyCardData());
+
+		const draft = plugin.drafts.get(draftKey);
+		// A draft of an edited block is stale once the block itself changed.
+		if (draft && draft.source === source) this.pendingDraft = draft;
+		else if (draft) plugin.drafts.delete(draftKey);
 	}
 
 	/** Returns an empty card data object with default values. */
 
-	getEmptyCardData() {
-		return {
-			cardType: this.settings.defaultModalCardType,
-			question: '',
-			correctAnswers: '',
-			incorrectAnswers: '',
-			fitbText: '',
-			qaAnswer: '',
-			bgColor: '',
-			textColor: '',
-		};
+	getEmptyCardData(): ModalCardData {
+		return createModalCard(this.settings.defaultModalCardType);
 	}
 
 	/**
-	 * Renders the main content of the modal, including navigation and the card form.
+	 * Renders the main content of the modal: the card list, the form of the card being edited and its preview.
 	 */
 	renderContent() {
 		const { contentEl } = this;
 		contentEl.empty();
 
-		contentEl.createEl("h2", { text: `Editing flashcard ${this.editingIndex + 1} of ${this.cards.length}` });
-
-		this.renderCardForm(contentEl.createDiv());
+		if (this.pendingDraft) this.renderDraftPrompt(contentEl, this.pendingDraft);
 
 		new Setting(contentEl)
+			.setName('Deck properties').setDesc("(optional) Applied to the whole deck, e.g. title=\"OSI model\" shuffle limit=10 theme=exam.")
+			.addText(text => text.setValue(this.deckProperties).onChange(value => this.deckProperties = value));
+
+		const layout = contentEl.createDiv({ cls: 'flashy-creator' });
+		const sidebar = layout.createDiv({ cls: 'flashy-creator-sidebar' });
+		this.cardListEl = sidebar.createDiv({ cls: 'flashy-creator-cards' });
+		sidebar.createEl('button', { text: 'Add card', cls: 'flashy-creator-add' }).addEventListener('click', () => {
+			this.cards.push(this.getEmptyCardData());
+			this.editingIndex = this.cards.length - 1;
+			this.onStructureChanged();
+		});
+
+		const form = layout.createDiv({ cls: 'flashy-creator-form' });
+		form.createEl("h2", { text: `Editing flashcard ${this.editingIndex + 1} of ${this.cards.length}` });
+		this.renderCardForm(form.createDiv());
+
+		new Setting(form)
 			.addButton(button => button
 				.setButtonText("Previous card")
 				.setDisabled(this.editingIndex === 0)
@@ -658,21 +763,235 @@ class FlashcardCreatorModal extends Modal {
 					this.editingIndex++;
 					if (this.editingIndex === this.cards.length) {
 						this.cards.push(this.getEmptyCardData());
+						this.changed = true;
 					}
 					this.renderContent();
 				}));
 
+		const preview = layout.createDiv({ cls: 'flashy-creator-preview' });
+		preview.createEl('h3', { text: 'Preview' });
+		this.previewEl = preview.createDiv();
+
+		this.problemsEl = contentEl.createDiv({ cls: 'flashy-creator-problems' });
+
 		new Setting(contentEl)
 			.addButton(button => button
-				.setButtonText("Finish & insert deck")
+				.setButtonText(this.isEditing ? "Save deck" : "Finish & insert deck")
 				.setCta()
-				.onClick(() => {
-					const deckString = this.buildDeckString();
-					if (deckString) {
-						this.onSubmit(deckString);
-					}
-					this.close();
-				}));
+				.onClick(() => this.submit()));
+
+		this.refresh();
+	}
+
+	/**
+	 * Offers to restore the draft left when the modal was last closed without inserting the deck.
+	 */
+	private renderDraftPrompt(container: HTMLElement, draft: CreatorDraft) {
+		const prompt = container.createDiv({ cls: 'flashy-creator-draft' });
+		const count = draft.deck.cards.filter(hasContent).length;
+		prompt.createSpan({ text: `You have an unsaved draft of this deck (${count} ${count === 1 ? 'card' : 'cards'}) from ${new Date(draft.savedAt).toLocaleString()}.` });
+		prompt.createEl('button', { text: 'Restore', cls: 'mod-cta' }).addEventListener('click', () => {
+			this.deckProperties = draft.deck.properties;
+			this.cards = draft.deck.cards.map(card => ({ ...card }));
+			if (this.cards.length === 0) this.cards.push(this.getEmptyCardData());
+			this.editingIndex = 0;
+			this.pendingDraft = null;
+			this.changed = true;
+			this.renderContent();
+		});
+		prompt.createEl('button', { text: 'Discard' }).addEventListener('click', () => {
+			this.plugin.drafts.delete(this.draftKey);
+			this.pendingDraft = null;
+			this.renderContent();
+		});
+	}
+
+	/**
+	 * Renders the card list: every card with its type and question, buttons to duplicate and delete it,
+	 * and drag and drop to reorder the cards.
+	 */
+	private renderCardList() {
+		this.cardListEl.empty();
+		this.cards.forEach((cardData, index) => {
+			const errors = this.problems.filter(problem => problem.cardIndex === index && problem.severity === 'error');
+			const item = this.cardListEl.createDiv({ cls: 'flashy-creator-card', attr: { draggable: 'true' } });
+			item.toggleClass('is-active', index === this.editingIndex);
+			item.toggleClass('is-invalid', errors.length > 0);
+			if (errors.length > 0) item.setAttr('title', errors.map(problem => problem.message).join('\n'));
+
+			const label = item.createDiv({ cls: 'flashy-creator-card-label' });
+			label.createDiv({ text: `${index + 1}. ${CARD_TYPE_NAMES[cardData.cardType]}`, cls: 'flashy-creator-card-type' });
+			label.createDiv({ text: summarizeModalCard(cardData) || 'Empty card', cls: 'flashy-creator-card-summary' });
+			label.addEventListener('click', () => {
+				this.editingIndex = index;
+				this.renderContent();
+			});
+
+			const duplicateButton = item.createEl('button', { cls: 'flashy-icon-button', attr: { 'aria-label': 'Duplicate card' } });
+			setIcon(duplicateButton, 'copy');
+			duplicateButton.addEventListener('click', () => {
+				// Property lines are copied too, but a pinned ID has to stay unique.
+				const copy = { ...cardData, properties: cardData.properties.replace(/(^|\s)id=("[^"]*"|\S+)/, '').trim() };
+				this.cards.splice(index + 1, 0, copy);
+				this.editingIndex = index + 1;
+				this.onStructureChanged();
+			});
+
+			const deleteButton = item.createEl('button', { cls: 'flashy-icon-button', attr: { 'aria-label': 'Delete card' } });
+			setIcon(deleteButton, 'trash-2');
+			deleteButton.addEventListener('click', () => {
+				this.cards.splice(index, 1);
+				if (this.cards.length === 0) this.cards.push(this.getEmptyCardData());
+				if (this.editingIndex > index || this.editingIndex === this.cards.length) this.editingIndex--;
+				this.onStructureChanged();
+			});
+
+			item.addEventListener('dragstart', (event) => {
+				this.draggedIndex = index;
+				event.dataTransfer?.setData('text/plain', String(index));
+				item.addClass('is-dragging');
+			});
+			item.addEventListener('dragend', () => {
+				this.draggedIndex = null;
+				item.removeClass('is-dragging');
+			});
+			item.addEventListener('dragover', (event) => {
+				if (this.draggedIndex === null) return;
+				event.preventDefault();
+				item.addClass('is-drop-target');
+			});
+			item.addEventListener('dragleave', () => item.removeClass('is-drop-target'));
+			item.addEventListener('drop', (event) => {
+				event.preventDefault();
+				if (this.draggedIndex === null || this.draggedIndex === index) return;
+				this.moveCard(this.draggedIndex, index);
+			});
+		});
+	}
+
+	/**
+	 * Moves a card to another position, keeping the card being edited selected.
+	 */
+	private moveCard(from: number, to: number) {
+		const editing = this.cards[this.editingIndex];
+		const [card] = this.cards.splice(from, 1);
+		this.cards.splice(to, 0, card);
+		this.editingIndex = this.cards.indexOf(editing);
+		this.onStructureChanged();
+	}
+
+	/**
+	 * Re-renders the whole modal after cards were added, removed or moved.
+	 */
+	private onStructureChanged() {
+		this.changed = true;
+		this.renderContent();
+	}
+
+	/** Returns what the deck is checked against besides its syntax: CSS colours and the themes in the settings. */
+	private getDeckContext(): ModalDeckContext {
+		return { isValidColor, themeNames: this.plugin.settings.themes.map(theme => theme.name) };
+	}
+
+	/**
+	 * Brings the card list, the preview and the problems up to date with the form, and saves the draft.
+	 */
+	private refresh() {
+		// A refresh requested while typing can still fire after the modal closed.
+		if (!this.previewComponent) return;
+		this.problems = validateModalDeck({ properties: this.deckProperties, cards: this.cards }, this.getDeckContext());
+		this.renderCardList();
+		this.renderPreview();
+		this.renderProblems();
+		this.saveDraft();
+	}
+
+	/**
+	 * Renders the card being edited with the same renderer as the blocks in notes, in a sandbox
+	 * that neither records reviews nor keeps sessions.
+	 */
+	private renderPreview() {
+		if (!this.previewComponent) return;
+		if (this.previewChild) this.previewComponent.removeChild(this.previewChild);
+		this.previewChild = null;
+		this.previewEl.empty();
+
+		const cardData = this.cards[this.editingIndex];
+		const deck = parseDeck(buildDeckSource({ properties: this.deckProperties, cards: [cardData] }), this.app.workspace.getActiveFile()?.path ?? '');
+		if (deck.cards.length === 0) {
+			this.previewEl.createEl('p', { text: hasContent(cardData) ? 'Fix the problems below to see this card.' : 'Fill in the card to see it here.', cls: 'flashy-creator-preview-empty' });
+			return;
+		}
+		const host: DeckHost = {
+			app: this.app,
+			settings: { ...this.settings, enableKeyboardNav: false },
+			reviews: {},
+			sessions: [],
+			sessionStates: new SessionStateStore({}, () => { }),
+			recordReview: async () => { },
+			recordReviews: async () => { },
+			recordSession: async () => { },
+		};
+		// Show the card as a block would, but without what only matters over a whole session.
+		const options = { ...deck.options, shuffleCards: false, autoAdvance: false, limit: undefined };
+		this.previewChild = this.previewComponent.addChild(renderDeck(host, this.previewEl, deck.cards, { id: 'creator-preview', name: 'Preview' }, options));
+	}
+
+	/**
+	 * Lists the deck's problems, with the errors that keep it from being inserted first.
+	 */
+	private renderProblems() {
+		this.problemsEl.empty();
+		const problems = this.problems.filter(problem => problem.severity === 'error')
+			.concat(this.problems.filter(problem => problem.severity === 'warning'));
+		if (problems.length === 0) return;
+		const list = this.problemsEl.createEl('ul', { cls: 'flashy-diagnostics' });
+		problems.forEach(problem => {
+			const item = list.createEl('li', { cls: `flashy-diagnostic ${problem.severity}` });
+			item.createSpan({ text: problem.cardIndex === null ? 'Deck properties:' : `Card ${problem.cardIndex + 1}:`, cls: 'flashy-diagnostic-position' });
+			item.appendText(` ${problem.message}`);
+		});
+	}
+
+	/**
+	 * Inserts or saves the deck, unless one of its cards has errors.
+	 */
+	private submit() {
+		this.problems = validateModalDeck({ properties: this.deckProperties, cards: this.cards }, this.getDeckContext());
+		const error = this.problems.find(problem => problem.severity === 'error');
+		if (error) {
+			new Notice("Fix the errors in the deck first.");
+			if (error.cardIndex !== null && error.cardIndex !== this.editingIndex) {
+				this.editingIndex = error.cardIndex;
+				this.renderContent();
+			} else {
+				this.refresh();
+			}
+			return;
+		}
+		const deckString = this.buildDeckString();
+		if (deckString) {
+			this.onSubmit(deckString);
+		}
+		this.submitted = true;
+		this.plugin.drafts.delete(this.draftKey);
+		this.close();
+	}
+
+	/**
+	 * Keeps the current deck as a draft once the user changed something, or drops it if every card is blank.
+	 */
+	private saveDraft() {
+		if (!this.changed || this.submitted) return;
+		if (!this.cards.some(hasContent) && !this.deckProperties.trim()) {
+			this.plugin.drafts.delete(this.draftKey);
+			return;
+		}
+		this.plugin.drafts.set(this.draftKey, {
+			deck: { properties: this.deckProperties, cards: this.cards.map(card => ({ ...card })) },
+			source: this.source,
+			savedAt: Date.now(),
+		});
 	}
 
 	/**
@@ -688,6 +1007,9 @@ class FlashcardCreatorModal extends Modal {
 				.addOption('multiple-choice', 'Multiple choice')
 				.addOption('fill-in-the-blank', 'Fill-in-the-blank')
 				.addOption('qa', 'Question/answer')
+				.addOption('true-false', 'True/false')
+				.addOption('ordering', 'Ordering')
+				.addOption('matching', 'Matching')
 				.setValue(cardData.cardType)
 				.onChange(value => {
 					cardData.cardType = value as FlashyCardType;
@@ -714,11 +1036,48 @@ class FlashcardCreatorModal extends Modal {
 				});
 		} else if (cardData.cardType === 'fill-in-the-blank') {
 			new Setting(container)
-				.setName('Full text').setDesc("Wrap the answer in {{double curly braces}}.")
+				.setName('Full text').setDesc("Wrap each answer in {{double curly braces}}. Use {{c1::answer}}, {{c2::answer}}... to get one card per group.")
 				.addTextArea(text => {
 					text.setPlaceholder("e.g., The OSI model has {{seven}} layers.").setValue(cardData.fitbText).onChange(value => cardData.fitbText = value);
 					text.inputEl.rows = 4;
 				});
+		} else if (cardData.cardType === 'true-false') {
+			new Setting(container)
+				.setName('Statement')
+				.addText(text => text.setPlaceholder('e.g., HTTPS hides the domain you visit.').setValue(cardData.question).onChange(value => cardData.question = value));
+			new Setting(container)
+				.setName('The statement is')
+				.addDropdown(dropdown => dropdown
+					.addOption('true', 'True')
+					.addOption('false', 'False')
+					.setValue(String(cardData.tfAnswer))
+					.onChange(value => cardData.tfAnswer = value === 'true'));
+			new Setting(container)
+				.setName('Explanation').setDesc('(optional) Shown after answering.')
+				.addTextArea(text => {
+					text.setPlaceholder('e.g., The domain is still visible through DNS and SNI.').setValue(cardData.tfExplanation).onChange(value => cardData.tfExplanation = value);
+					text.inputEl.rows = 3;
+				});
+		} else if (cardData.cardType === 'ordering') {
+			new Setting(container)
+				.setName('Question')
+				.addText(text => text.setPlaceholder('e.g., Put the incident response steps in order.').setValue(cardData.question).onChange(value => cardData.question = value));
+			new Setting(container)
+				.setName('Steps').setDesc('One step per line, in the correct order. They are shuffled during review.')
+				.addTextArea(text => {
+					text.setPlaceholder('e.g., Identify\nContain\nEradicate\nRecover').setValue(cardData.orderItems).onChange(value => cardData.orderItems = value);
+					text.inputEl.rows = 6;
+				});
+		} else if (cardData.cardType === 'matching') {
+			new Setting(container)
+				.setName('Question')
+				.addText(text => text.setPlaceholder('e.g., Match each port to its protocol.').setValue(cardData.question).onChange(value => cardData.question = value));
+			new Setting(container)
+				.setName('Pairs').setDesc('One pair per line, written as "left -> right".')
+				.addTextArea(text => {
+					text.setPlaceholder('e.g., 22 -> SSH\n53 -> DNS\n443 -> HTTPS').setValue(cardData.matchPairs).onChange(value => cardData.matchPairs = value);
+					text.inputEl.rows = 6;
+				});
 		} else {
 			new Setting(container)
 				.setName("Question")
@@ -730,58 +1089,218 @@ class FlashcardCreatorModal extends Modal {
 				});
 			new Setting(container)
 				.setName("Answer")
+				.setDesc("Can span several lines, with lists, code blocks and blank lines.")
 				.addTextArea(text => {
 					text.setPlaceholder("e.g., Availability")
 						.setValue(cardData.qaAnswer)
 						.onChange(value => cardData.qaAnswer = value)
-					text.inputEl.rows = 4;
+					text.inputEl.rows = 8;
 				});
 		}
 
+		addColorSetting(container, 'Custom background color', "(optional) Any CSS colour.", cardData.bgColor, value => cardData.bgColor = value);
+		addColorSetting(container, 'Custom text color', "(optional) Any CSS colour.", cardData.textColor, value => cardData.textColor = value);
 		new Setting(container)
-			.setName('Custom background color').setDesc("(optional)")
-			.addText(text => text.setValue(cardData.bgColor).onChange(value => cardData.bgColor = value));
-		new Setting(container)
-			.setName('Custom text color').setDesc("(optional)")
-			.addText(text => text.setValue(cardData.textColor).onChange(value => cardData.textColor = value));
+			.setName('Other properties').setDesc("(optional) e.g. id=osi-layers reverse timer=30.")
+			.addText(text => text.setValue(cardData.properties).onChange(value => cardData.properties = value));
 	}
 
 	/**
 	 * Builds the final markdown string for the flashcard deck based on the collected card data.
 	 */
 	buildDeckString(): string {
-		return this.cards
-			.filter(cardData => (cardData.question && cardData.question.trim() !== "") || (cardData.fitbText && cardData.fitbText.trim() !== ""))
-			.map(cardData => {
-				let cardString = '';
-				const props = [];
-				if (cardData.bgColor) props.push(`bg=${cardData.bgColor}`);
-				if (cardData.textColor) props.push(`color=${cardData.textColor}`);
-				if (props.length > 0) {
-					cardString += `[${props.join(' ')}]\n`;
-				}
+		return buildDeckSource({ properties: this.deckProperties, cards: this.cards });
+	}
 
-				switch (cardData.cardType) {
-					case 'multiple-choice': {
-						cardString += `${cardData.question}\n`;
-						const correct = cardData.correctAnswers.trim().split('\n').map((ans: string) => `=${ans.trim()}`);
-						const incorrect = cardData.incorrectAnswers.trim().split('\n').map((ans: string) => ans.trim());
-						cardString += [...correct, ...incorrect].filter(Boolean).join('\n');
-						break;
-					}
-					case 'fill-in-the-blank':
-						cardString += cardData.fitbText;
-						break;
-					case 'qa':
-						cardString += `${cardData.question}\n===${cardData.qaAnswer}`;
-						break;
-				}
-				return cardString;
-			}).join('\n---\n');
+	/** Called when the modal is opened. */
+	onOpen() {
+		this.modalEl.addClass('flashy-creator-modal');
+		this.previewComponent = new Component();
+		this.previewComponent.load();
+		// Every field of the form writes to the deck as it changes; refresh whatever depends on it.
+		const onInput = () => {
+			this.changed = true;
+			this.requestRefresh();
+		};
+		this.contentEl.addEventListener('input', onInput);
+		this.contentEl.addEventListener('change', onInput);
+		this.renderContent();
+	}
+
+	/** Called when the modal is closed. */
+	onClose() {
+		// Keep the latest changes even if the modal closed before the pending refresh.
+		this.saveDraft();
+		this.previewComponent?.unload();
+		this.previewComponent = null;
+		this.previewChild = null;
+		this.contentEl.empty();
+	}
+}
+
+/**
+ * Lets the user pick one of the folders containing cards.
+ */
+class FolderSuggestModal extends FuzzySuggestModal<string> {
+	private readonly folders: string[];
+	private readonly onChoose: (folder: string) => void;
+
+	/**
+	 * Creates an instance of FolderSuggestModal.
+	 * @param app The Obsidian App instance.
+	 * @param folders The folders to choose from, in the order they are offered.
+	 * @param onChoose Called with the chosen folder.
+	 */
+	constructor(app: App, folders: string[], onChoose: (folder: string) => void) {
+		super(app);
+		this.folders = folders;
+		this.onChoose = onChoose;
+		this.setPlaceholder('Pick a folder to review');
+	}
+
+	getItems(): string[] {
+		return this.folders;
+	}
+
+	getItemText(folder: string): string {
+		return folder;
+	}
+
+	onChooseItem(folder: string) {
+		this.onChoose(folder);
+	}
+}
+
+/**
+ * Modal reviewing the cards generated from a note's structure before they are inserted.
+ * Lets the user choose which structures to use and which of the resulting cards to keep.
+ */
+class GenerateCardsModal extends Modal {
+	private readonly plugin: FlashyPlugin;
+	private readonly markdown: string;
+	private readonly sourcePath: string;
+	private readonly onSubmit: (result: string) => void;
+	private options: GenerateOptions = { ...DEFAULT_GENERATE_OPTIONS };
+	private generated: GeneratedCard[] = [];
+	/** Generated cards the user unticked, by kind and line, so they stay unticked when the options change. */
+	private readonly excluded = new Set<string>();
+	/** Generated cards with syntax errors, which can't be inserted. */
+	private invalid = new Set<GeneratedCard>();
+
+	/**
+	 * Creates an instance of GenerateCardsModal.
+	 * @param app The Obsidian App instance.
+	 * @param plugin The plugin, handed to the card creator when the cards are edited further.
+	 * @param markdown The note or selection to generate cards from.
+	 * @param sourcePath The note the cards are generated from, which keeps their draft apart from other drafts.
+	 * @param onSubmit Called with the source of the deck to insert.
+	 */
+	constructor(app: App, plugin: FlashyPlugin, markdown: string, sourcePath: string, onSubmit: (result: string) => void) {
+		super(app);
+		this.plugin = plugin;
+		this.markdown = markdown;
+		this.sourcePath = sourcePath;
+		this.onSubmit = onSubmit;
+	}
+
+	/**
+	 * Generates the cards again with the current options.
+	 */
+	private generate() {
+		this.generated = generateCards(this.markdown, this.options);
+		this.invalid = new Set(this.generated.filter(generated =>
+			validateModalDeck({ properties: '', cards: [generated.card] }).some(problem => problem.severity === 'error')));
+	}
+
+	/** Returns the generated cards the user kept. */
+	private getSelectedCards(): ModalCardData[] {
+		return this.generated
+			.filter(generated => !this.invalid.has(generated) && !this.excluded.has(`${generated.kind}:${generated.line}`))
+			.map(generated => generated.card);
+	}
+
+	/**
+	 * Renders the options, the generated cards and the buttons to insert them.
+	 */
+	renderContent() {
+		const { contentEl } = this;
+		contentEl.empty();
+		contentEl.createEl('h2', { text: 'Generate flashcards' });
+
+		const toggle = (name: string, desc: string, key: keyof GenerateOptions) => new Setting(contentEl)
+			.setName(name).setDesc(desc)
+			.addToggle(component => component.setValue(this.options[key]).onChange(value => {
+				this.options[key] = value;
+				this.generate();
+				this.renderContent();
+			}));
+		toggle('Headings', 'A heading becomes a question, the text below it the answer.', 'headings');
+		toggle('Definitions', 'Lines like "term: definition" and definition lists.', 'definitions');
+		toggle('Tables', 'Every row of a two-column table becomes a card.', 'tables');
+		if (this.options.tables) toggle('Ask table rows both ways', 'Add the reverse card of every row.', 'reverseTables');
+		toggle('Bold terms', 'Lines with **bold** text become fill-in-the-blank cards.', 'bold');
+
+		if (this.generated.length === 0) {
+			contentEl.createEl('p', { text: 'No headings, definitions, tables or bold terms found.', cls: 'flashcard-error' });
+			return;
+		}
+
+		const summary = contentEl.createEl('p', { cls: 'flashy-generate-summary' });
+		const list = contentEl.createDiv({ cls: 'flashy-generate-list' });
+		let insertButton: ButtonComponent | null = null;
+		const updateSummary = () => {
+			const count = this.getSelectedCards().length;
+			summary.setText(`${count} of ${this.generated.length} cards selected.`);
+			insertButton?.setButtonText(`Insert ${count} ${count === 1 ? 'card' : 'cards'}`).setDisabled(count === 0);
+		};
+
+		this.generated.forEach(generated => {
+			const key = `${generated.kind}:${generated.line}`;
+			const invalid = this.invalid.has(generated);
+			const item = list.createEl('label', { cls: 'flashy-generate-card' });
+			item.toggleClass('is-invalid', invalid);
+			const checkbox = item.createEl('input', { type: 'checkbox' });
+			checkbox.checked = !invalid && !this.excluded.has(key);
+			checkbox.disabled = invalid;
+			checkbox.addEventListener('change', () => {
+				if (checkbox.checked) this.excluded.delete(key);
+				else this.excluded.add(key);
+				updateSummary();
+			});
+
+			const body = item.createDiv({ cls: 'flashy-generate-card-body' });
+			const { card } = generated;
+			const reversed = card.properties === 'reverse' ? ', both ways' : '';
+			body.createDiv({ text: `${GENERATED_CARD_KIND_NAMES[generated.kind]}${reversed}${invalid ? ' (has errors)' : ''}`, cls: 'flashy-generate-card-kind' });
+			body.createDiv({ text: summarizeModalCard(card), cls: 'flashy-generate-card-question' });
+			if (card.cardType === 'qa') {
+				const answer = card.qaAnswer.split('\n')[0];
+				body.createDiv({ text: answer.length > 80 ? `${answer.slice(0, 79)}…` : answer, cls: 'flashy-generate-card-answer' });
+			}
+		});
+
+		new Setting(contentEl)
+			.addButton(button => button
+				.setButtonText('Edit in card creator')
+				.onClick(() => {
+					const cards = this.getSelectedCards();
+					this.close();
+					new FlashcardCreatorModal(this.app, this.plugin, `generate:${this.sourcePath}`, this.onSubmit, { properties: '', cards: cards.map(card => ({ ...card })) }).open();
+				}))
+			.addButton(button => {
+				insertButton = button.setCta().onClick(() => {
+					const cards = this.getSelectedCards();
+					if (cards.length === 0) return;
+					this.onSubmit(buildDeckSource({ properties: '', cards }));
+					this.close();
+				});
+			});
+		updateSummary();
 	}
 
 	/** Called when the modal is opened. */
 	onOpen() {
+		this.generate();
 		this.renderContent();
 	}
 
@@ -791,12 +1310,108 @@ class FlashcardCreatorModal extends Modal {
 	}
 }
 
+/**
+ * Edits a theme with a live preview. The theme is only handed back once it is valid.
+ */
+class ThemeEditModal extends Modal {
+	private readonly theme: FlashyTheme;
+	private readonly others: FlashyTheme[];
+	private readonly onSubmit: (theme: FlashyTheme) => void;
+	private previewEl: HTMLElement;
+	private problemsEl: HTMLElement;
+
+	/**
+	 * Creates an instance of ThemeEditModal.
+	 * @param app The Obsidian App instance.
+	 * @param theme The theme to edit. It is not modified.
+	 * @param others The other themes, whose names can't be taken.
+	 * @param onSubmit Called with the edited theme.
+	 */
+	constructor(app: App, theme: FlashyTheme, others: FlashyTheme[], onSubmit: (theme: FlashyTheme) => void) {
+		super(app);
+		this.theme = { ...theme };
+		this.others = others;
+		this.onSubmit = onSubmit;
+	}
+
+	/** Called when the modal is opened. */
+	onOpen() {
+		const { contentEl } = this;
+		this.modalEl.addClass('flashy-theme-modal');
+		contentEl.createEl('h2', { text: this.theme.name ? `Edit theme "${this.theme.name}"` : 'New theme' });
+
+		new Setting(contentEl)
+			.setName('Name')
+			.setDesc('Choose the theme in a block with [[theme=name]].')
+			.addText(text => text.setValue(this.theme.name).onChange(value => {
+				this.theme.name = value.trim();
+				this.update();
+			}));
+		THEME_COLORS.forEach(({ key, name }) => addColorSetting(contentEl, name, 'Any CSS colour. Leave empty to keep the default.', this.theme[key], value => {
+			this.theme[key] = value.trim();
+			this.update();
+		}));
+		new Setting(contentEl)
+			.setName('Font')
+			.setDesc('A CSS font family, e.g. Georgia, serif. Leave empty to use the note\'s font.')
+			.addText(text => text.setValue(this.theme.font).onChange(value => {
+				this.theme.font = value.trim();
+				this.update();
+			}));
+		const addSize = (name: string, desc: string, key: 'borderRadius' | 'cardWidth' | 'cardHeight') => new Setting(contentEl)
+			.setName(name)
+			.setDesc(desc)
+			.addText(text => text.setPlaceholder('0').setValue(this.theme[key] ? String(this.theme[key]) : '').onChange(value => {
+				const size = parseInt(value || '0');
+				if (isNaN(size) || size < 0) return;
+				this.theme[key] = size;
+				this.update();
+			}));
+		addSize('Corner radius', 'In pixels. 0 keeps the default.', 'borderRadius');
+		addSize('Card width', 'Largest width in pixels. 0 fills the note.', 'cardWidth');
+		addSize('Card height', 'Smallest height in pixels. 0 fits the content.', 'cardHeight');
+
+		this.previewEl = contentEl.createDiv({ cls: 'flashy-theme-preview' });
+		this.problemsEl = contentEl.createEl('ul', { cls: 'flashy-diagnostics' });
+
+		new Setting(contentEl)
+			.addButton(button => button.setButtonText('Save').setCta().onClick(() => {
+				if (validateTheme(this.theme, this.others).length > 0) {
+					new Notice('Fix the problems of the theme first.');
+					return;
+				}
+				this.onSubmit(this.theme);
+				this.close();
+			}))
+			.addButton(button => button.setButtonText('Cancel').onClick(() => this.close()));
+		this.update();
+	}
+
+	/**
+	 * Brings the preview and the list of problems up to date with the form.
+	 */
+	private update() {
+		renderThemePreview(this.previewEl, this.theme);
+		this.problemsEl.empty();
+		validateTheme(this.theme, this.others).forEach(problem => {
+			this.problemsEl.createEl('li', { text: problem, cls: 'flashy-diagnostic error' });
+		});
+	}
+
+	/** Called when the modal is closed. */
+	onClose() {
+		this.contentEl.empty();
+	}
+}
+
 /**
  * Plugin setting tab for Flashy.
  * Allows users to configure various plugin behaviors and default card creation options.
  */
 class FlashySettingTab extends PluginSettingTab {
 	plugin: FlashyPlugin;
+	/** Stops waiting for the key of a binding, if one is being captured. */
+	private stopKeyCapture: (() => void) | null = null;
 
 	/**
 	 * Creates an instance of FlashySettingTab.
@@ -809,6 +1424,7 @@ class FlashySettingTab extends PluginSettingTab {
 	}
 	display(): void {
 		const { containerEl } = this;
+		this.stopKeyCapture?.();
 		containerEl.empty();
 
 		// Behavior heading
@@ -830,6 +1446,24 @@ class FlashySettingTab extends PluginSettingTab {
 				this.plugin.settings.shuffleAnswers = value; await this.plugin.saveSettings(); this.app.workspace.updateOptions();
 			}));
 
+		// Re-queue missed cards
+		new Setting(containerEl)
+			.setName('Re-queue missed cards')
+			.setDesc('Bring a missed card back a few cards later, until it is answered correctly. The summary shows first-try accuracy and how many cards were mastered in the end.')
+			.addToggle(toggle => toggle.setValue(this.plugin.settings.requeueMissedCards).onChange(async (value) => {
+				this.plugin.settings.requeueMissedCards = value;
+				await this.plugin.saveSettings();
+			}));
+
+		// Remember sessions across restarts
+		new Setting(containerEl)
+			.setName('Remember sessions across restarts')
+			.setDesc('Offer to resume an unfinished deck after Obsidian restarts. Progress always survives editing the note or switching tabs.')
+			.addToggle(toggle => toggle.setValue(this.plugin.settings.rememberSessions).onChange(async (value) => {
+				this.plugin.settings.rememberSessions = value;
+				await this.plugin.saveSettings();
+			}));
+
 		// Auto-advance on correct
 		new Setting(containerEl)
 			.setName('Auto-advance on correct')
@@ -859,6 +1493,134 @@ class FlashySettingTab extends PluginSettingTab {
 				}
 			}));
 
+		// Answer matching heading
+		new Setting(containerEl).setName('Answer matching').setHeading();
+
+		// Typo tolerance
+		new Setting(containerEl)
+			.setName('Typo tolerance')
+			.setDesc('How many typos a fill-in-the-blank answer may contain and still count as "almost". Answers shorter than four characters must always be exact. Override per card with [typos=N].')
+			.addText(text => text.setValue(String(this.plugin.settings.typoTolerance)).onChange(async (value) => {
+				const tolerance = parseInt(value);
+				if (!isNaN(tolerance) && tolerance >= 0) {
+					this.plugin.settings.typoTolerance = tolerance;
+					await this.plugin.saveSettings();
+				}
+			}));
+
+		// Ignore accents
+		new Setting(containerEl)
+			.setName('Ignore accents')
+			.setDesc('Treat "café" and "cafe" as the same answer. Override per card with [accents=strict] or [accents=ignore].')
+			.addToggle(toggle => toggle.setValue(this.plugin.settings.ignoreAccents).onChange(async (value) => {
+				this.plugin.settings.ignoreAccents = value;
+				await this.plugin.saveSettings();
+			}));
+
+		// Ignore punctuation
+		new Setting(containerEl)
+			.setName('Ignore punctuation')
+			.setDesc('Treat "TCP/IP" and "tcp ip" as the same answer. Override per card with [punctuation=strict] or [punctuation=ignore].')
+			.addToggle(toggle => toggle.setValue(this.plugin.settings.ignorePunctuation).onChange(async (value) => {
+				this.plugin.settings.ignorePunctuation = value;
+				await this.plugin.saveSettings();
+			}));
+
+		// Numeric tolerance
+		new Setting(containerEl)
+			.setName('Numeric tolerance')
+			.setDesc('How far off a numeric answer may be and still count as correct. Override per card with [tolerance=N].')
+			.addText(text => text.setValue(String(this.plugin.settings.numericTolerance)).onChange(async (value) => {
+				const tolerance = parseFloat(value);
+				if (!isNaN(tolerance) && tolerance >= 0) {
+					this.plugin.settings.numericTolerance = tolerance;
+					await this.plugin.saveSettings();
+				}
+			}));
+
+		// Regex answers
+		new Setting(containerEl)
+			.setName('Allow regex answers')
+			.setDesc('Match answers written as {{/pattern/flags}} as regular expressions. Override per card with [regex=on] or [regex=off].')
+			.addToggle(toggle => toggle.setValue(this.plugin.settings.allowRegexAnswers).onChange(async (value) => {
+				this.plugin.settings.allowRegexAnswers = value;
+				await this.plugin.saveSettings();
+			}));
+
+		// Study plan heading
+		new Setting(containerEl).setName('Study plan').setHeading();
+
+		// Status bar
+		new Setting(containerEl)
+			.setName('Show due cards in the status bar')
+			.setDesc('Show how many cards are due and new, and your progress towards the daily goal. Click it to start reviewing.')
+			.addToggle(toggle => toggle.setValue(this.plugin.settings.showStatusBar).onChange(async (value) => {
+				this.plugin.settings.showStatusBar = value;
+				await this.plugin.saveSettings();
+				this.plugin.updateStatusBar();
+			}));
+
+		// Daily goal
+		new Setting(containerEl)
+			.setName('Daily goal')
+			.setDesc('How many reviews to do each day. Days on which you reach it build up a streak. Set to 0 to turn the goal off.')
+			.addText(text => text.setPlaceholder('0').setValue(String(this.plugin.settings.dailyGoal)).onChange(async (value) => {
+				const goal = parseInt(value || '0');
+				if (!isNaN(goal) && goal >= 0) {
+					this.plugin.settings.dailyGoal = goal;
+					await this.plugin.saveSettings();
+					this.plugin.updateStatusBar();
+				}
+			}));
+
+		// Accessibility heading
+		new Setting(containerEl).setName('Accessibility').setHeading();
+
+		new Setting(containerEl)
+			.setName('High contrast')
+			.setDesc('Use stronger colours and borders, and mark right and wrong answers with ✓ and ✗ as well as colour.')
+			.addToggle(toggle => toggle.setValue(this.plugin.settings.highContrast).onChange(async (value) => {
+				this.plugin.settings.highContrast = value;
+				await this.plugin.saveSettings();
+				this.plugin.updateDisplayClasses();
+			}));
+
+		new Setting(containerEl)
+			.setName('Reduce motion')
+			.setDesc('Turn off animations and transitions, like the shake of a wrong answer. They are also off when your system asks for reduced motion.')
+			.addToggle(toggle => toggle.setValue(this.plugin.settings.reduceMotion).onChange(async (value) => {
+				this.plugin.settings.reduceMotion = value;
+				await this.plugin.saveSettings();
+				this.plugin.updateDisplayClasses();
+			}));
+
+		// Themes heading
+		new Setting(containerEl).setName('Themes').setHeading();
+		this.renderThemes(containerEl);
+
+		// Inline cards heading
+		new Setting(containerEl).setName('Inline cards').setHeading();
+
+		// Enable inline cards
+		new Setting(containerEl)
+			.setName('Enable inline cards')
+			.setDesc('Pick up "Question :: Answer" lines, ==highlighted== clozes and tagged headings in notes carrying the inline card tag.')
+			.addToggle(toggle => toggle.setValue(this.plugin.settings.enableInlineCards).onChange(async (value) => {
+				this.plugin.settings.enableInlineCards = value;
+				await this.plugin.saveSettings();
+				this.plugin.requestIndexRebuild();
+			}));
+
+		// Inline card tag
+		new Setting(containerEl)
+			.setName('Inline card tag')
+			.setDesc('Only notes with this tag are scanned for inline cards. A heading carrying the tag becomes a card whose answer is the section below it.')
+			.addText(text => text.setPlaceholder('flashcards').setValue(this.plugin.settings.inlineCardTag).onChange(async (value) => {
+				this.plugin.settings.inlineCardTag = value.trim().replace(/^#/, '');
+				await this.plugin.saveSettings();
+				this.plugin.requestIndexRebuild();
+			}));
+
 		// Card creation heading
 		new Setting(containerEl).setName('Card creation').setHeading();
 
@@ -870,6 +1632,9 @@ class FlashySettingTab extends PluginSettingTab {
 				.addOption('multiple-choice', 'Multiple choice')
 				.addOption('fill-in-the-blank', 'Fill-in-the-blank')
 				.addOption('qa', 'Question/answer')
+				.addOption('true-false', 'True/false')
+				.addOption('ordering', 'Ordering')
+				.addOption('matching', 'Matching')
 				.setValue(this.plugin.settings.defaultModalCardType)
 				.onChange(async (value) => {
 					this.plugin.settings.defaultModalCardType = value as FlashyCardType;
@@ -881,7 +1646,7 @@ class FlashySettingTab extends PluginSettingTab {
 
 		new Setting(containerEl)
 			.setName('Enable keyboard navigation')
-			.setDesc('Allow using keys (like arrows, R, 1-9) to navigate and interact with flashcards while focused.')
+			.setDesc('Use keys to move through cards, pick answers (1-9, or two digits for longer lists) and grade Q&A cards while a deck has focus. Tab moves from a focused deck to the next one.')
 			.addToggle(toggle => toggle
 				.setValue(this.plugin.settings.enableKeyboardNav)
 				.onChange(async (value) => {
@@ -893,41 +1658,7 @@ class FlashySettingTab extends PluginSettingTab {
 
 		// Conditionally show/hide specific key settings
 		if (this.plugin.settings.enableKeyboardNav) {
-			// Previous card key
-			new Setting(containerEl)
-				.setName('Previous card key')
-				.setDesc('Key to navigate to the previous card. Use values like "ArrowLeft", "a", "PageUp", etc.')
-				.addText(text => text
-					.setPlaceholder('ArrowLeft')
-					.setValue(this.plugin.settings.keyPreviousCard)
-					.onChange(async (value) => {
-						this.plugin.settings.keyPreviousCard = value.trim();
-						await this.plugin.saveSettings();
-					}));
-
-			// Next card key
-			new Setting(containerEl)
-				.setName('Next card key')
-				.setDesc('Key to navigate to the next card. Use values like "ArrowRight", "d", "PageDown", etc.')
-				.addText(text => text
-					.setPlaceholder('ArrowRight')
-					.setValue(this.plugin.settings.keyNextCard)
-					.onChange(async (value) => {
-						this.plugin.settings.keyNextCard = value.trim();
-						await this.plugin.saveSettings();
-					}));
-
-			// Reset session key
-			new Setting(containerEl)
-				.setName('Reset session key')
-				.setDesc('Key to reset the current session. Use values like "r", "R", "F5" etc.')
-				.addText(text => text
-					.setPlaceholder('r')
-					.setValue(this.plugin.settings.keyResetSession)
-					.onChange(async (value) => {
-						this.plugin.settings.keyResetSession = value.trim();
-						await this.plugin.saveSettings();
-					}));
+			(Object.keys(KEY_ACTIONS) as KeyAction[]).forEach(action => this.addKeySetting(containerEl, action));
 		}
 
 		// Support heading
@@ -953,4 +1684,131 @@ class FlashySettingTab extends PluginSettingTab {
 				cls: "flashy-sponsor-iframe"
 			});
 	}
+
+	hide(): void {
+		this.stopKeyCapture?.();
+	}
+
+	/**
+	 * Renders the default theme setting and a gallery of the themes, each with a preview and buttons to edit or delete it.
+	 * @param containerEl The element to render into.
+	 */
+	private renderThemes(containerEl: HTMLElement) {
+		const settings = this.plugin.settings;
+		new Setting(containerEl)
+			.setName('Default theme')
+			.setDesc('The theme of decks that don\'t choose one with [[theme=name]]. Open notes pick it up when they are rendered again.')
+			.addDropdown(dropdown => {
+				dropdown.addOption('', 'None');
+				settings.themes.forEach(theme => dropdown.addOption(theme.name, theme.name));
+				dropdown.setValue(findTheme(settings.themes, settings.defaultTheme)?.name ?? '').onChange(async (value) => {
+					settings.defaultTheme = value;
+					await this.plugin.saveSettings();
+				});
+			});
+
+		const saveTheme = async (previous: FlashyTheme | null, theme: FlashyTheme) => {
+			if (previous) {
+				settings.themes.splice(settings.themes.indexOf(previous), 1, theme);
+				if (settings.defaultTheme === previous.name) settings.defaultTheme = theme.name;
+			} else {
+				settings.themes.push(theme);
+			}
+			await this.plugin.saveSettings();
+			this.display();
+		};
+
+		const gallery = containerEl.createDiv({ cls: 'flashy-theme-gallery' });
+		settings.themes.forEach(theme => {
+			const item = gallery.createDiv({ cls: 'flashy-theme-item' });
+			renderThemePreview(item.createDiv({ cls: 'flashy-theme-preview' }), theme);
+			const footer = item.createDiv({ cls: 'flashy-theme-footer' });
+			footer.createEl('code', { text: `theme=${theme.name}` });
+			const editButton = footer.createEl('button', { cls: 'flashy-icon-button', attr: { 'aria-label': `Edit theme "${theme.name}"` } });
+			setIcon(editButton, 'pencil');
+			editButton.addEventListener('click', () => {
+				new ThemeEditModal(this.app, theme, settings.themes.filter(other => other !== theme), edited => saveTheme(theme, edited)).open();
+			});
+			const deleteButton = footer.createEl('button', { cls: 'flashy-icon-button', attr: { 'aria-label': `Delete theme "${theme.name}"` } });
+			setIcon(deleteButton, 'trash');
+			deleteButton.addEventListener('click', async () => {
+				settings.themes.remove(theme);
+				if (settings.defaultTheme === theme.name) settings.defaultTheme = '';
+				await this.plugin.saveSettings();
+				this.display();
+			});
+		});
+
+		new Setting(containerEl)
+			.addButton(button => button.setButtonText('Add theme').onClick(() => {
+				new ThemeEditModal(this.app, createTheme(''), settings.themes, theme => saveTheme(null, theme)).open();
+			}));
+	}
+
+	/**
+	 * Adds the setting of one key binding: click the button, then press the key or chord to bind.
+	 * Escape cancels, Backspace or Delete removes the binding, and keys used for something else are refused.
+	 * @param containerEl The element to add the setting to.
+	 * @param action The action whose key is set.
+	 */
+	private addKeySetting(containerEl: HTMLElement, action: KeyAction) {
+		const info = KEY_ACTIONS[action];
+		const settings = this.plugin.settings;
+		let captureButton: ButtonComponent;
+
+		const bind = async (binding: string): Promise<boolean> => {
+			const conflict = findKeyConflict(settings, action, binding);
+			if (conflict) {
+				new Notice(`${formatBinding(binding)} is already used for ${conflict}.`);
+				return false;
+			}
+			settings[info.setting] = binding;
+			captureButton.setButtonText(formatBinding(binding));
+			await this.plugin.saveSettings();
+			return true;
+		};
+
+		new Setting(containerEl)
+			.setName(info.name)
+			.setDesc(info.description)
+			.addButton(button => {
+				captureButton = button;
+				button.buttonEl.addClass('flashy-key-capture');
+				button
+					.setButtonText(formatBinding(settings[info.setting]))
+					.onClick(() => {
+						const wasCapturing = button.buttonEl.hasClass('is-capturing');
+						this.stopKeyCapture?.();
+						if (wasCapturing) return;
+
+						const win = button.buttonEl.win;
+						// Listen before anything else does, so Escape doesn't close the settings.
+						const onKeyDown = async (event: KeyboardEvent) => {
+							const binding = eventToBinding(event);
+							if (!binding) return;
+							event.preventDefault();
+							event.stopPropagation();
+							if (binding === 'Escape') stop();
+							else if (await bind(binding === 'Backspace' || binding === 'Delete' ? '' : binding)) stop();
+						};
+						const stop = () => {
+							win.removeEventListener('keydown', onKeyDown, true);
+							button.buttonEl.removeClass('is-capturing');
+							button.setButtonText(formatBinding(settings[info.setting]));
+							this.stopKeyCapture = null;
+						};
+						win.addEventListener('keydown', onKeyDown, true);
+						button.buttonEl.addClass('is-capturing');
+						button.setButtonText('Press a key…');
+						this.stopKeyCapture = stop;
+					});
+			})
+			.addExtraButton(button => button
+				.setIcon('rotate-ccw')
+				.setTooltip(`Reset to ${formatBinding(DEFAULT_SETTINGS[info.setting])}`)
+				.onClick(async () => {
+					this.stopKeyCapture?.();
+					await bind(DEFAULT_SETTINGS[info.setting]);
+				}));
+	}
 }
\ No newline at end of file
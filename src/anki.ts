@@ -0,0 +1,410 @@
+import { Flashcard } from './cards';
+import { displayAnswer } from './matching';
+import { SqliteDatabase } from './sqlite';
+import { ZipEntry, readZip } from './zip';
+
+/**
+ * A note read from an Anki deck, reduced to what Flashy cards can hold.
+ */
+export interface AnkiNote {
+	/** Basic-like notes become Q&A cards, Cloze notes fill-in-the-blank cards. */
+	kind: 'basic' | 'cloze';
+	/** Question and answer for basic notes; the cloze text for cloze notes. Already converted to markdown. */
+	fields: string[];
+	/** Tags in Obsidian form, with `/` for nesting. */
+	tags: string[];
+	bg?: string;
+	color?: string;
+}
+
+/**
+ * The result of reading an Anki deck.
+ */
+export interface AnkiImport {
+	notes: AnkiNote[];
+	/** Media files shipped with the deck, keyed by the file name notes refer to. */
+	media: Map<string, ZipEntry>;
+	/** Things that could not be imported, for reporting to the user. */
+	warnings: string[];
+}
+
+/** Anki separates a note's fields with the unit separator character. */
+const FIELD_SEPARATOR = '\x1f';
+
+const HTML_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: '\'', nbsp: ' ' };
+
+/**
+ * Converts Anki's field HTML to markdown: line breaks, bold, italics and media are kept, other markup is dropped.
+ */
+export function htmlToMarkdown(html: string): string {
+	return html
+		.replace(/\r\n?/g, '\n')
+		.replace(/<br\s*\/?>/gi, '\n')
+		.replace(/<\/(div|p|li)>/gi, '\n')
+		.replace(/<\/?(b|strong)>/gi, '**')
+		.replace(/<\/?(i|em)>/gi, '*')
+		.replace(/<img[^>]*\ssrc="([^"]+)"[^>]*>/gi, '![[$1]]')
+		.replace(/\[sound:([^\]]+)]/g, '![[$1]]')
+		.replace(/<[^>]+>/g, '')
+		.replace(/&(#x?[\da-f]+|\w+);/gi, (entity, name: string) => {
+			if (name[0] !== '#') return HTML_ENTITIES[name.toLowerCase()] ?? entity;
+			const code = name[1].toLowerCase() === 'x' ? parseInt(name.substring(2), 16) : parseInt(name.substring(1));
+			return String.fromCharCode(code);
+		})
+		// `---` on its own line would end the card.
+		.replace(/^\s*-{3,}\s*$/gm, '***')
+		.replace(/\n{3,}/g, '\n\n')
+		.trim();
+}
+
+/**
+ * Converts card markdown to the plain HTML Anki stores in its fields.
+ */
+export function markdownToHtml(markdown: string): string {
+	return markdown.trim()
+		.replace(/&/g, '&amp;')
+		.replace(/</g, '&lt;')
+		.replace(/>/g, '&gt;')
+		.replace(/\t/g, ' ')
+		.replace(/\n/g, '<br>');
+}
+
+/**
+ * Converts an Anki tag to an Obsidian tag: `::` hierarchies become `/` nesting.
+ */
+function toObsidianTag(tag: string): string {
+	return tag.replace(/^#/, '').replace(/::/g, '/');
+}
+
+/**
+ * Turns Anki cloze deletions into Flashy blanks, dropping hints: `{{c1::Paris::capital}}` becomes `{{c1::Paris}}`.
+ */
+function convertCloze(text: string): string {
+	return text.replace(/\{\{c(\d+)::([\s\S]*?)(?:::[^}]*)?}}/g, '{{c$1::$2}}');
+}
+
+/**
+ * Builds an Anki note from its fields, mapping `bg` and `color` fields to card properties.
+ * @param kind The kind of note.
+ * @param names The field names, lowercased, if known.
+ * @param values The field values, already converted to markdown.
+ * @param tags The note's tags.
+ */
+function createNote(kind: AnkiNote['kind'], names: string[], values: string[], tags: string[]): AnkiNote {
+	const note: AnkiNote = { kind, fields: [], tags: tags.map(toObsidianTag).filter(Boolean) };
+	values.forEach((value, index) => {
+		const name = names[index];
+		if (name === 'bg' || name === 'color') {
+			if (value) note[name] = value;
+		} else {
+			note.fields.push(value);
+		}
+	});
+	if (kind === 'cloze') note.fields = [convertCloze(note.fields[0] ?? '')];
+	return note;
+}
+
+/**
+ * What the import needs to know about an Anki note type.
+ */
+interface NoteType {
+	isCloze: boolean;
+	/** The names of its fields, lowercased, in field order. */
+	fieldNames: string[];
+}
+
+/**
+ * Reads the `kind` of a note type from its protobuf-encoded config: 1 for cloze, 0 (left out) for normal.
+ */
+function readNoteTypeKind(config: Uint8Array): number {
+	let offset = 0;
+	const readVarint = () => {
+		let value = 0;
+		for (let shift = 1; offset < config.length; shift *= 128) {
+			const byte = config[offset++];
+			value += (byte & 0x7f) * shift;
+			if (!(byte & 0x80)) break;
+		}
+		return value;
+	};
+	while (offset < config.length) {
+		const key = readVarint();
+		const wireType = key % 8;
+		if (key === 8) return readVarint();
+		// Skip other fields; the length of a length-delimited field is read before moving past it.
+		let skip = 0;
+		if (wireType === 0) readVarint();
+		else if (wireType === 1) skip = 8;
+		else if (wireType === 2) skip = readVarint();
+		else if (wireType === 5) skip = 4;
+		else break;
+		offset += skip;
+	}
+	return 0;
+}
+
+/**
+ * Reads the note types of a collection, keyed by ID. Collections up to schema 17 keep them as JSON
+ * in `col.models`; newer ones leave that empty and use the `notetypes` and `fields` tables.
+ */
+function readNoteTypes(database: SqliteDatabase): Map<string, NoteType> {
+	const noteTypes = new Map<string, NoteType>();
+	const models = String(database.readTable('col')[0]?.models ?? '').trim();
+	if (models) {
+		const parsed: Record<string, { type: number; flds: { name: string }[] }> = JSON.parse(models);
+		Object.keys(parsed).forEach(id => {
+			noteTypes.set(id, { isCloze: parsed[id].type === 1, fieldNames: parsed[id].flds.map(field => field.name.toLowerCase()) });
+		});
+		return noteTypes;
+	}
+
+	database.readTable('notetypes').forEach(row => {
+		const config = row.config instanceof Uint8Array ? row.config : new Uint8Array(0);
+		noteTypes.set(String(row.id), { isCloze: readNoteTypeKind(config) === 1, fieldNames: [] });
+	});
+	database.readTable('fields').forEach(row => {
+		const noteType = noteTypes.get(String(row.ntid));
+		if (noteType && typeof row.ord === 'number') noteType.fieldNames[row.ord] = String(row.name ?? '').toLowerCase();
+	});
+	return noteTypes;
+}
+
+/**
+ * Reads an Anki `.apkg` package: its notes and media.
+ * Only the uncompressed collection formats (`collection.anki2` and `collection.anki21`, of any schema) can be read.
+ * @param data The bytes of the package.
+ * @throws If the package can't be read.
+ */
+export async function readApkg(data: Uint8Array): Promise<AnkiImport> {
+	const entries = readZip(data);
+	const collection = entries.get('collection.anki21') ?? (entries.has('collection.anki21b') ? undefined : entries.get('collection.anki2'));
+	if (!collection) {
+		throw new Error('This deck uses the newest Anki package format. Export it again from Anki with "Support older Anki versions" ticked.');
+	}
+
+	const database = new SqliteDatabase(await collection.read());
+	const result: AnkiImport = { notes: [], media: new Map(), warnings: [] };
+
+	const noteTypes = readNoteTypes(database);
+
+	let skipped = 0;
+	database.readTable('notes').forEach(row => {
+		const noteType = noteTypes.get(String(row.mid));
+		const values = String(row.flds ?? '').split(FIELD_SEPARATOR).map(htmlToMarkdown);
+		const tags = String(row.tags ?? '').trim().split(/\s+/).filter(Boolean);
+		const note = createNote(noteType?.isCloze ? 'cloze' : 'basic', noteType?.fieldNames ?? [], values, tags);
+
+		if (note.kind === 'basic' ? !note.fields[0] || !note.fields[1] : !/\{\{c\d+::/.test(note.fields[0])) {
+			skipped++;
+			return;
+		}
+		result.notes.push(note);
+	});
+	if (skipped > 0) result.warnings.push(`${skipped} note(s) had no question and answer and were skipped.`);
+
+	const mediaEntry = entries.get('media');
+	if (mediaEntry) {
+		try {
+			const mediaMap: Record<string, string> = JSON.parse(new TextDecoder().decode(await mediaEntry.read()));
+			Object.keys(mediaMap).forEach(key => {
+				const entry = entries.get(key);
+				if (entry) result.media.set(mediaMap[key], entry);
+			});
+		} catch {
+			result.warnings.push('The media of this deck could not be read; images and sounds were not imported.');
+		}
+	}
+
+	return result;
+}
+
+/**
+ * Splits delimited text into records of fields, honouring double-quoted fields that contain separators or line breaks.
+ */
+function splitRecords(text: string, separator: string): string[][] {
+	const records: string[][] = [];
+	let record: string[] = [];
+	let field = '';
+	let quoted = false;
+	let atFieldStart = true;
+
+	for (let i = 0; i < text.length; i++) {
+		const char = text[i];
+		if (quoted) {
+			if (char === '"' && text[i + 1] === '"') {
+				field += '"';
+				i++;
+			} else if (char === '"') {
+				quoted = false;
+			} else {
+				field += char;
+			}
+		} else if (char === '"' && atFieldStart) {
+			quoted = true;
+			atFieldStart = false;
+		} else if (char === separator) {
+			record.push(field);
+			field = '';
+			atFieldStart = true;
+		} else if (char === '\n') {
+			record.push(field);
+			records.push(record);
+			record = [];
+			field = '';
+			atFieldStart = true;
+		} else if (char !== '\r') {
+			field += char;
+			atFieldStart = false;
+		}
+	}
+	if (field || record.length > 0) {
+		record.push(field);
+		records.push(record);
+	}
+	return records.filter(r => r.some(f => f.trim()));
+}
+
+/**
+ * Reads an Anki text export ("Notes in Plain Text") or any CSV/TSV file of question/answer pairs.
+ * Honours Anki's `#separator`, `#html`, `#columns`, `#notetype column`, `#tags column` and `#deck column` headers.
+ * @param text The contents of the file.
+ */
+export function parseAnkiText(text: string): AnkiImport {
+	const result: AnkiImport = { notes: [], media: new Map(), warnings: [] };
+	const lines = text.replace(/^\uFEFF/, '').split(/\r?\n/);
+	const headers: Record<string, string> = {};
+	while (lines.length > 0 && /^#[\w ]+:/.test(lines[0])) {
+		const line = lines.shift() as string;
+		const colon = line.indexOf(':');
+		headers[line.substring(1, colon).trim().toLowerCase()] = line.substring(colon + 1).trim();
+	}
+	const body = lines.join('\n');
+
+	const separators: Record<string, string> = { tab: '\t', comma: ',', semicolon: ';', pipe: '|', space: ' ', colon: ':' };
+	const declared = headers['separator'];
+	const separator = declared
+		? separators[declared.toLowerCase()] ?? declared
+		: ['\t', ';', ','].find(candidate => body.includes(candidate)) ?? '\t';
+	const isHtml = (headers['html'] ?? 'true').toLowerCase() !== 'false';
+
+	// Columns with a special meaning are 1-based in the headers.
+	const columnOf = (key: string) => (headers[key] ? parseInt(headers[key]) - 1 : -1);
+	const tagsColumn = columnOf('tags column');
+	const notetypeColumn = columnOf('notetype column');
+	const special = [tagsColumn, notetypeColumn, columnOf('deck column'), columnOf('guid column')];
+	const columnNames = (headers['columns'] ?? '').split(separator).map(name => name.trim().toLowerCase());
+
+	let skipped = 0;
+	splitRecords(body, separator).forEach(record => {
+		const names: string[] = [];
+		const values: string[] = [];
+		record.forEach((value, index) => {
+			if (special.includes(index)) return;
+			names.push(columnNames[index] ?? '');
+			values.push(isHtml ? htmlToMarkdown(value) : value.trim());
+		});
+
+		const notetype = notetypeColumn >= 0 ? record[notetypeColumn] ?? '' : '';
+		const isCloze = /cloze/i.test(notetype) || (!notetype && /\{\{c\d+::/.test(values[0] ?? ''));
+		const tags = tagsColumn >= 0 ? (record[tagsColumn] ?? '').trim().split(/\s+/).filter(Boolean) : [];
+		const note = createNote(isCloze ? 'cloze' : 'basic', names, values, tags);
+
+		if (note.kind === 'basic' ? !note.fields[0] || !note.fields[1] : !/\{\{c\d+::/.test(note.fields[0])) {
+			skipped++;
+			return;
+		}
+		result.notes.push(note);
+	});
+	if (skipped > 0) result.warnings.push(`${skipped} row(s) had no question and answer and were skipped.`);
+
+	return result;
+}
+
+/**
+ * Writes one Anki note as the source of a Flashy card.
+ */
+function noteToCardSource(note: AnkiNote): string {
+	const props: string[] = [];
+	if (note.bg) props.push(`bg=${note.bg.replace(/\s+/g, '')}`);
+	if (note.color) props.push(`color=${note.color.replace(/\s+/g, '')}`);
+	const propLine = props.length > 0 ? `[${props.join(' ')}]\n` : '';
+
+	if (note.kind === 'cloze') return `${propLine}${note.fields[0]}`;
+	const [question, answer] = note.fields;
+	// Multi-line answers start on the line after `===` so blank lines and code blocks survive.
+	return answer.includes('\n')
+		? `${propLine}${question}\n===\n${answer}`
+		: `${propLine}${question}\n===${answer}`;
+}
+
+/**
+ * Converts imported Anki notes into note markdown: one `flashy` block per set of tags,
+ * with the tags in the block's `[[tags=...]]` line so only its cards get them.
+ * @param notes The imported notes.
+ */
+export function ankiNotesToMarkdown(notes: AnkiNote[]): string {
+	const groups = new Map<string, AnkiNote[]>();
+	notes.forEach(note => {
+		const key = note.tags.slice().sort().join(',');
+		groups.set(key, (groups.get(key) ?? []).concat(note));
+	});
+
+	return Array.from(groups.entries())
+		.map(([tags, group]) => {
+			const propLine = tags ? `[[tags=${tags}]]\n` : '';
+			return `\`\`\`flashy\n${propLine}${group.map(noteToCardSource).join('\n---\n')}\n\`\`\``;
+		})
+		.join('\n\n') + '\n';
+}
+
+/**
+ * Converts cards to an Anki "Notes in Plain Text" file that Anki can import directly.
+ * Fill-in-the-blank cards become Cloze notes and every other type a Basic note;
+ * `bg` and `color` are exported as extra fields, and a card's tags are its block's `tags` plus `getTags`.
+ * @param cards The cards to export.
+ * @param getTags Returns the tags a card gets from elsewhere, e.g. its note, without `#`.
+ */
+export function cardsToAnkiText(cards: Flashcard[], getTags: (card: Flashcard) => string[]): string {
+	const header = [
+		'#separator:tab',
+		'#html:true',
+		'#columns:Notetype\tFront\tBack\tbg\tcolor\tTags',
+		'#notetype column:1',
+		'#tags column:6',
+	];
+
+	const rows = cards.map(card => {
+		let notetype = 'Basic';
+		let front: string;
+		let back = '';
+		if (card.type === 'qa') {
+			front = markdownToHtml(card.question);
+			back = markdownToHtml(card.answer);
+		} else if (card.type === 'multiple-choice') {
+			front = [markdownToHtml(card.question), ...card.answers.map(answer => `• ${markdownToHtml(answer.text)}`)].join('<br>');
+			back = card.answers.filter(answer => answer.isCorrect).map(answer => markdownToHtml(answer.text)).join('<br>');
+		} else if (card.type === 'true-false') {
+			front = `True or false? ${markdownToHtml(card.question)}`;
+			back = [card.answer ? 'True' : 'False', card.explanation ? markdownToHtml(card.explanation) : ''].filter(Boolean).join('<br>');
+		} else if (card.type === 'ordering') {
+			front = markdownToHtml(card.question);
+			back = card.items.map((item, index) => `${index + 1}. ${markdownToHtml(item)}`).join('<br>');
+		} else if (card.type === 'matching') {
+			front = [markdownToHtml(card.question), ...card.pairs.map(pair => `• ${markdownToHtml(pair.left)}`)].join('<br>');
+			back = card.pairs.map(pair => `${markdownToHtml(pair.left)} → ${markdownToHtml(pair.right)}`).join('<br>');
+		} else {
+			notetype = 'Cloze';
+			front = markdownToHtml(card.segments
+				.map(segment => segment.kind === 'text' ? segment.text : `{{c1::${displayAnswer(card.answers[segment.index])}}}`)
+				.join(''));
+		}
+
+		const tags = getTags(card).concat(card.tags ?? [])
+			.filter((tag, index, all) => all.indexOf(tag) === index)
+			.map(tag => tag.replace(/\//g, '::').replace(/\s+/g, '_'))
+			.join(' ');
+		return [notetype, front, back, card.customBackgroundColor ?? '', card.customTextColor ?? '', tags].join('\t');
+	});
+
+	return header.concat(rows).join('\n') + '\n';
+}
@@ -0,0 +1,99 @@
+import { App, TFile, TFolder, normalizePath } from 'obsidian';
+import { AnkiImport, ankiNotesToMarkdown, cardsToAnkiText, parseAnkiText, readApkg } from './anki';
+import { CardIndex } from './cardIndex';
+
+/**
+ * The outcome of importing an Anki deck.
+ */
+export interface ImportResult {
+	note: TFile;
+	cardCount: number;
+	warnings: string[];
+}
+
+/**
+ * The outcome of exporting cards for Anki.
+ */
+export interface ExportResult {
+	file: TFile;
+	cardCount: number;
+}
+
+/**
+ * Asks the user to pick a file from their device.
+ * @param accept The accepted file extensions, e.g. `.apkg,.txt`.
+ * @returns The picked file, or null if the picker was dismissed.
+ */
+export function pickFile(accept: string): Promise<File | null> {
+	return new Promise(resolve => {
+		const input = createEl('input', { type: 'file', attr: { accept } });
+		input.addEventListener('change', () => resolve(input.files?.[0] ?? null));
+		input.click();
+	});
+}
+
+/**
+ * Returns a path in a folder that no file uses yet, numbering the name if needed.
+ */
+export function getAvailablePath(app: App, folder: string, name: string, extension: string): string {
+	const base = normalizePath(folder ? `${folder}/${name}` : name);
+	let path = `${base}.${extension}`;
+	for (let n = 1; app.vault.getAbstractFileByPath(path); n++) path = `${base} ${n}.${extension}`;
+	return path;
+}
+
+/**
+ * Imports an Anki package (`.apkg`) or text export (`.txt`, `.csv`, `.tsv`) into a new note of `flashy` blocks.
+ * Media the cards refer to is saved as attachments of the new note.
+ * @param app The Obsidian App instance.
+ * @param file The file picked by the user.
+ * @param folder The vault folder to create the note in.
+ * @throws If the file can't be read.
+ */
+export async function importAnkiFile(app: App, file: File, folder: string): Promise<ImportResult> {
+	const extension = file.name.split('.').pop()?.toLowerCase() ?? '';
+	const deck: AnkiImport = extension === 'apkg'
+		? await readApkg(new Uint8Array(await file.arrayBuffer()))
+		: parseAnkiText(await file.text());
+	if (deck.notes.length === 0) throw new Error('No cards found in this file.');
+
+	const markdown = ankiNotesToMarkdown(deck.notes);
+	const note = await app.vault.create(getAvailablePath(app, folder, file.name.replace(/\.[^.]+$/, ''), 'md'), markdown);
+
+	for (const [name, entry] of Array.from(deck.media.entries())) {
+		// Only keep media the cards use, and don't overwrite what's already in the vault.
+		if (!markdown.includes(`![[${name}]]`) || app.metadataCache.getFirstLinkpathDest(name, note.path)) continue;
+		const data = await entry.read();
+		const path = await app.fileManager.getAvailablePathForAttachment(name, note.path);
+		await app.vault.createBinary(path, data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength));
+	}
+
+	return { note, cardCount: deck.notes.length, warnings: deck.warnings };
+}
+
+/**
+ * Exports the indexed cards of a note or folder to an Anki text file next to it.
+ * An existing export is overwritten.
+ * @param app The Obsidian App instance.
+ * @param index The card index to read the cards from.
+ * @param target The note or folder to export.
+ * @returns The written file, or null if there were no cards to export.
+ */
+export async function exportCardsToAnki(app: App, index: CardIndex, target: TFile | TFolder): Promise<ExportResult | null> {
+	const cards = target instanceof TFolder
+		? index.getCards(target.isRoot() ? {} : { folder: target.path })
+		: index.getCards({ notePath: target.path });
+	if (cards.length === 0) return null;
+
+	const text = cardsToAnkiText(cards, card => index.getNoteTags(card.sourcePath));
+	const folder = target instanceof TFolder ? target.path : target.parent?.path ?? '';
+	const name = target instanceof TFolder ? (target.isRoot() ? app.vault.getName() : target.name) : target.basename;
+	const path = normalizePath(`${folder === '/' ? '' : folder}/${name} (Anki).txt`);
+
+	const existing = app.vault.getAbstractFileByPath(path);
+	if (existing instanceof TFile) {
+		await app.vault.modify(existing, text);
+		return { file: existing, cardCount: cards.length };
+	}
+	return { file: await app.vault.create(path, text), cardCount: cards.length };
+}
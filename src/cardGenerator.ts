@@ -0,0 +1,202 @@
+import { ModalCardData, createModalCard } from './deckEditing';
+import { extractFlashyBlocks } from './parser';
+
+/**
+ * The note structures cards can be generated from.
+ */
+export type GeneratedCardKind = 'heading' | 'definition' | 'table' | 'bold';
+
+/** How each kind of generated card is labelled in the review step. */
+export const GENERATED_CARD_KIND_NAMES: Record<GeneratedCardKind, string> = {
+	heading: 'Heading',
+	definition: 'Definition',
+	table: 'Table row',
+	bold: 'Bold terms',
+};
+
+/**
+ * Which structures to turn into cards.
+ */
+export interface GenerateOptions {
+	/** A heading with the paragraphs below it becomes a Q&A card. */
+	headings: boolean;
+	/** `term: definition` lines and `Term` / `: definition` definition lists become Q&A cards. */
+	definitions: boolean;
+	/** Every row of a two-column table becomes a Q&A card. */
+	tables: boolean;
+	/** Table rows are asked in both directions. */
+	reverseTables: boolean;
+	/** Lines with **bold** terms become fill-in-the-blank cards, one blank per term. */
+	bold: boolean;
+}
+
+export const DEFAULT_GENERATE_OPTIONS: GenerateOptions = {
+	headings: true,
+	definitions: true,
+	tables: true,
+	reverseTables: false,
+	bold: true,
+};
+
+/**
+ * A card generated from a note, with where it came from.
+ */
+export interface GeneratedCard {
+	kind: GeneratedCardKind;
+	/** Zero-based line of the text the card was generated from. */
+	line: number;
+	card: ModalCardData;
+}
+
+const HEADING = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+const LIST_MARKER = /^\s*(?:[-*+]\s+|\d+[.)]\s+)/;
+/** `term: definition`, `**term**: definition` or `**term:** definition`. Dataview's `key:: value` is left alone. */
+const DEFINITION_LINE = /^(?:\*\*|__)?([^:*_`[\]]+?)(?::(?:\*\*|__)|(?:\*\*|__)?:)\s+(\S.*)$/;
+const DEFINITION_LIST_ITEM = /^:\s+(\S.*)$/;
+const BOLD = /(\*\*|__)(\S(?:.*?\S)?)\1/g;
+const TABLE_SEPARATOR = /^\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?$/;
+const HORIZONTAL_RULE = /^(?:-{3,}|\*{3,}|_{3,})$/;
+/** Terms longer than this many words are more likely sentences than terms. */
+const MAX_TERM_WORDS = 6;
+
+/**
+ * Splits a table row into its cells, keeping escaped pipes inside cells.
+ */
+function splitTableRow(row: string): string[] {
+	const cells: string[] = [];
+	row.trim().replace(/^\|/, '').replace(/([^\\])\|$/, '$1').split('|').forEach((part, index, parts) => {
+		// A piece ending with a backslash was cut at an escaped pipe; glue it back to the next one.
+		if (index > 0 && parts[index - 1].endsWith('\\')) cells[cells.length - 1] = `${cells[cells.length - 1].slice(0, -1)}|${part}`;
+		else cells.push(part);
+	});
+	return cells.map(cell => cell.trim());
+}
+
+/**
+ * Returns whether some text reads as a term rather than a sentence.
+ */
+function isTerm(text: string): boolean {
+	return text.length > 0 && text.split(/\s+/).length <= MAX_TERM_WORDS;
+}
+
+/**
+ * Turns the structure of a note into cards: headings with the paragraphs below them, `term: definition` lines,
+ * two-column tables and lines with bold terms. Frontmatter and fenced code blocks, `flashy` blocks included, are skipped.
+ * @param markdown The note, or the part of it to generate cards from.
+ * @param options Which structures to use.
+ * @returns The generated cards in the order of the note.
+ */
+export function generateCards(markdown: string, options: GenerateOptions): GeneratedCard[] {
+	const lines = markdown.split('\n');
+	const generated: GeneratedCard[] = [];
+	// Lines already turned into a card of their own, left out of the answers of heading cards.
+	const used = new Set<number>();
+	// Lines inside fenced code, which is never read as structure.
+	const inCode = new Set<number>();
+
+	let start = 0;
+	if (lines.length > 0 && lines[0].trim() === '---') {
+		const end = lines.findIndex((line, i) => i > 0 && line.trim() === '---');
+		if (end > 0) start = end + 1;
+	}
+	let fence: string | null = null;
+	lines.forEach((line, index) => {
+		const fenceMatch = line.trim().match(/^(`{3,}|~{3,})/);
+		if (fenceMatch) {
+			if (fence === null) fence = fenceMatch[1];
+			else if (fenceMatch[1].startsWith(fence)) fence = null;
+			inCode.add(index);
+		} else if (fence !== null || index < start) {
+			inCode.add(index);
+		}
+	});
+	// Existing decks are never copied into an answer.
+	extractFlashyBlocks(markdown).forEach(block => {
+		for (let line = block.startLine; line <= block.endLine; line++) used.add(line);
+	});
+	const isText = (index: number) => index >= start && index < lines.length && !inCode.has(index);
+
+	const qaCard = (question: string, answer: string, properties = ''): ModalCardData => {
+		const card = createModalCard('qa');
+		card.question = question;
+		card.qaAnswer = answer;
+		card.properties = properties;
+		return card;
+	};
+
+	for (let index = start; index < lines.length; index++) {
+		if (!isText(index)) continue;
+		const trimmed = lines[index].trim();
+
+		// Two-column tables: a header row, a separator row, then one card per row.
+		if (options.tables && trimmed.includes('|') && isText(index + 1) && TABLE_SEPARATOR.test(lines[index + 1].trim())) {
+			const columns = splitTableRow(trimmed).length;
+			let end = index + 2;
+			while (end < lines.length && isText(end) && lines[end].trim().includes('|')) end++;
+			if (columns === 2) {
+				for (let row = index + 2; row < end; row++) {
+					const [question, answer] = splitTableRow(lines[row]);
+					if (!question || !answer) continue;
+					generated.push({ kind: 'table', line: row, card: qaCard(question, answer, options.reverseTables ? 'reverse' : '') });
+				}
+			}
+			for (let row = index; row < end; row++) used.add(row);
+			index = end - 1;
+			continue;
+		}
+
+		if (HEADING.test(trimmed)) continue;
+
+		if (options.definitions) {
+			const text = trimmed.replace(LIST_MARKER, '');
+			const definition = text.includes('::') ? null : text.match(DEFINITION_LINE);
+			if (definition && isTerm(definition[1].trim())) {
+				generated.push({ kind: 'definition', line: index, card: qaCard(definition[1].trim(), definition[2].trim()) });
+				used.add(index);
+				continue;
+			}
+			// A definition list: the term on its own line, then one or more `: definition` lines.
+			const items: string[] = [];
+			let next = index + 1;
+			for (; isText(next); next++) {
+				const item = lines[next].trim().match(DEFINITION_LIST_ITEM);
+				if (!item) break;
+				items.push(item[1]);
+			}
+			if (items.length > 0 && isTerm(trimmed.replace(/\*\*|__/g, ''))) {
+				const answer = items.length === 1 ? items[0] : items.map(item => `- ${item}`).join('\n');
+				generated.push({ kind: 'definition', line: index, card: qaCard(trimmed.replace(/\*\*|__/g, ''), answer) });
+				for (let item = index; item < next; item++) used.add(item);
+				index = next - 1;
+				continue;
+			}
+		}
+
+		if (options.bold && BOLD.test(trimmed)) {
+			BOLD.lastIndex = 0;
+			const card = createModalCard('fill-in-the-blank');
+			card.fitbText = trimmed.replace(LIST_MARKER, '').replace(BOLD, '{{$2}}');
+			generated.push({ kind: 'bold', line: index, card });
+		}
+	}
+
+	if (options.headings) {
+		for (let index = start; index < lines.length; index++) {
+			const heading = isText(index) ? lines[index].trim().match(HEADING) : null;
+			if (!heading) continue;
+			// The answer is the text up to the next heading, leaving out what became cards of its own.
+			const answerLines: string[] = [];
+			let end = index + 1;
+			for (; end < lines.length; end++) {
+				if (isText(end) && HEADING.test(lines[end].trim())) break;
+				if (used.has(end) || (isText(end) && HORIZONTAL_RULE.test(lines[end].trim()))) continue;
+				answerLines.push(lines[end]);
+			}
+			const answer = answerLines.join('\n').trim();
+			const question = heading[2].trim();
+			if (question && answer) generated.push({ kind: 'heading', line: index, card: qaCard(question, answer) });
+		}
+	}
+
+	return generated.sort((a, b) => a.line - b.line);
+}
@@ -0,0 +1,226 @@
+import { App, Component, Events, TAbstractFile, TFile, getAllTags, parseFrontMatterTags } from 'obsidian';
+import { Flashcard } from './cards';
+import { DeckOptions, extractFlashyBlocks, parseDeck } from './parser';
+import { CardIdentityRegistry } from './identity';
+import { parseInlineCards } from './inlineParser';
+import { FlashyPluginSettings } from './settings';
+
+/**
+ * Restricts which cards of the index are returned.
+ * Every set field must match; unset fields match everything.
+ */
+export interface CardFilter {
+	/** Only cards from notes inside this folder (recursively). */
+	folder?: string;
+	/** Only cards from notes or blocks carrying this tag, including nested tags. */
+	tag?: string;
+	/** Only cards from this exact note. */
+	notePath?: string;
+	/** Only cards from decks with this title. */
+	deck?: string;
+}
+
+/**
+ * Vault-wide index of every card defined in a `flashy` block or inline in a tagged note.
+ * Built once when the layout is ready, then updated incrementally from vault events.
+ * Triggers a `changed` event whenever the indexed cards change.
+ */
+export class CardIndex extends Events {
+	private readonly app: App;
+	private readonly identities: CardIdentityRegistry;
+	private readonly settings: FlashyPluginSettings;
+	private cardsByPath = new Map<string, Flashcard[]>();
+
+	/**
+	 * Creates an instance of CardIndex.
+	 * @param app The Obsidian App instance.
+	 * @param identities The registry assigning stable IDs to the indexed cards.
+	 * @param settings The plugin settings, read whenever a note is indexed.
+	 */
+	constructor(app: App, identities: CardIdentityRegistry, settings: FlashyPluginSettings) {
+		super();
+		this.app = app;
+		this.identities = identities;
+		this.settings = settings;
+	}
+
+	/**
+	 * Indexes every markdown file in the vault from scratch.
+	 */
+	async build() {
+		this.cardsByPath.clear();
+		for (const file of this.app.vault.getMarkdownFiles()) {
+			await this.indexFile(file, false);
+		}
+		this.trigger('changed');
+	}
+
+	/**
+	 * Registers the vault listeners that keep the index up to date.
+	 * @param component The component owning the listeners, usually the plugin.
+	 */
+	registerEvents(component: Component) {
+		component.registerEvent(this.app.vault.on('create', file => this.onFileChanged(file)));
+		// Re-index once the metadata cache has caught up with an edit, so frontmatter and tags are current.
+		component.registerEvent(this.app.metadataCache.on('changed', file => this.onFileChanged(file)));
+		component.registerEvent(this.app.vault.on('delete', file => {
+			this.identities.remove(file.path);
+			if (this.cardsByPath.delete(file.path)) this.trigger('changed');
+		}));
+		component.registerEvent(this.app.vault.on('rename', (file, oldPath) => {
+			// Move the known cards first so the re-indexed note keeps its card IDs.
+			this.identities.rename(oldPath, file.path);
+			this.cardsByPath.delete(oldPath);
+			this.onFileChanged(file);
+		}));
+	}
+
+	/**
+	 * Returns the indexed cards matching a filter, grouped by note in path order.
+	 * @param filter The folder, tag, note and deck restrictions to apply.
+	 */
+	getCards(filter: CardFilter = {}): Flashcard[] {
+		return this.getNotePaths()
+			.filter(path => this.matchesFilter(path, filter))
+			.reduce((cards: Flashcard[], path) => cards.concat(this.cardsByPath.get(path) ?? []), [])
+			.filter(card => this.cardMatchesFilter(card, filter));
+	}
+
+	/** Returns the paths of all notes that contain at least one card, sorted. */
+	getNotePaths(): string[] {
+		return Array.from(this.cardsByPath.keys()).sort();
+	}
+
+	/** Returns every folder containing (directly or nested) a note with cards, sorted. */
+	getFolders(): string[] {
+		const folders = new Set<string>();
+		this.getNotePaths().forEach(path => {
+			const parts = path.split('/').slice(0, -1);
+			for (let i = 1; i <= parts.length; i++) folders.add(parts.slice(0, i).join('/'));
+		});
+		return Array.from(folders).sort();
+	}
+
+	/** Returns every tag used by a note or block with cards, without the leading `#`, sorted. */
+	getTags(): string[] {
+		const tags = new Set<string>();
+		this.getNotePaths().forEach(path => this.getNoteTags(path).forEach(tag => tags.add(tag)));
+		this.getCards().forEach(card => card.tags?.forEach(tag => tags.add(tag)));
+		return Array.from(tags).sort();
+	}
+
+	/** Returns the title of every deck with cards, sorted. */
+	getDecks(): string[] {
+		const decks = new Set<string>();
+		this.getCards().forEach(card => { if (card.deck) decks.add(card.deck); });
+		return Array.from(decks).sort();
+	}
+
+	private matchesFilter(path: string, filter: CardFilter): boolean {
+		if (filter.notePath && path !== filter.notePath) return false;
+		if (filter.folder && !path.startsWith(`${filter.folder}/`)) return false;
+		return true;
+	}
+
+	private cardMatchesFilter(card: Flashcard, filter: CardFilter): boolean {
+		if (filter.deck && card.deck !== filter.deck) return false;
+		if (filter.tag) {
+			const wanted = filter.tag.replace(/^#/, '').toLowerCase();
+			const matches = this.getNoteTags(card.sourcePath).concat(card.tags ?? []).some(tag => {
+				const lower = tag.toLowerCase();
+				return lower === wanted || lower.startsWith(`${wanted}/`);
+			});
+			if (!matches) return false;
+		}
+		return true;
+	}
+
+	/** Returns the tags of a note, without the leading `#`. */
+	getNoteTags(path: string): string[] {
+		const file = this.app.vault.getAbstractFileByPath(path);
+		if (!(file instanceof TFile)) return [];
+		const cache = this.app.metadataCache.getFileCache(file);
+		return cache ? (getAllTags(cache) ?? []).map(tag => tag.replace(/^#/, '')) : [];
+	}
+
+	/**
+	 * Returns the deck metadata a note sets in its frontmatter: `flashy-deck` (the title),
+	 * `flashy-description` and `tags`.
+	 * @param path The note.
+	 */
+	getNoteDeckOptions(path: string): DeckOptions {
+		const file = this.app.vault.getAbstractFileByPath(path);
+		const frontmatter = file instanceof TFile ? this.app.metadataCache.getFileCache(file)?.frontmatter : undefined;
+		if (!frontmatter) return {};
+		const options: DeckOptions = {};
+		const title = frontmatter['flashy-deck'];
+		if (typeof title === 'string' && title.trim()) options.title = title.trim();
+		const description = frontmatter['flashy-description'];
+		if (typeof description === 'string' && description.trim()) options.description = description.trim();
+		const tags = (parseFrontMatterTags(frontmatter) ?? []).map(tag => tag.replace(/^#/, ''));
+		if (tags.length > 0) options.tags = tags;
+		return options;
+	}
+
+	/**
+	 * Combines a block's options with its note's frontmatter. The block's title and description win;
+	 * the tags of both are kept.
+	 * @param path The note containing the block.
+	 * @param blockOptions The options from the block's `[[...]]` line.
+	 */
+	getDeckOptions(path: string, blockOptions: DeckOptions): DeckOptions {
+		const noteOptions = this.getNoteDeckOptions(path);
+		const tags = (noteOptions.tags ?? []).concat((blockOptions.tags ?? []).filter(tag => !noteOptions.tags?.includes(tag)));
+		const options: DeckOptions = { ...noteOptions, ...blockOptions };
+		if (tags.length > 0) options.tags = tags;
+		return options;
+	}
+
+	/**
+	 * Returns the inline cards of a note, or none if inline cards are disabled or the note isn't tagged for them.
+	 * @param file The note.
+	 * @param content The note's current markdown.
+	 */
+	getInlineCards(file: TFile, content: string): Flashcard[] {
+		if (!this.settings.enableInlineCards) return [];
+		const tag = this.settings.inlineCardTag.replace(/^#/, '').trim();
+		if (!tag) return [];
+
+		// The metadata cache can lag behind a fresh edit, so also look for the tag in the text itself.
+		const lower = tag.toLowerCase();
+		const tagged = this.getNoteTags(file.path).some(t => t.toLowerCase() === lower || t.toLowerCase().startsWith(`${lower}/`));
+		const escaped = tag.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+		const inText = new RegExp(`(^|\\s)#${escaped}(?=[\\s/]|$)`, 'im').test(content)
+			|| new RegExp(`^tags:.*\\b${escaped}\\b`, 'im').test(content);
+		if (!tagged && !inText) return [];
+
+		return parseInlineCards(content, file.path, tag).cards;
+	}
+
+	private async onFileChanged(file: TAbstractFile) {
+		if (file instanceof TFile && file.extension === 'md') {
+			await this.indexFile(file, true);
+		}
+	}
+
+	/**
+	 * Parses every `flashy` block and inline card of a note, resolves their stable IDs and stores the resulting cards.
+	 * @param file The note to index.
+	 * @param notify Whether to trigger `changed` afterwards.
+	 */
+	private async indexFile(file: TFile, notify: boolean) {
+		const content = await this.app.vault.cachedRead(file);
+		const cards = extractFlashyBlocks(content)
+			.reduce((all: Flashcard[], block) => all.concat(parseDeck(block.source, file.path, block.startLine + 1).cards), [])
+			.concat(this.getInlineCards(file, content));
+		const noteTitle = this.getNoteDeckOptions(file.path).title;
+		if (noteTitle) cards.forEach(card => card.deck = card.deck ?? noteTitle);
+		this.identities.resolveNote(file.path, cards);
+		const hadCards = this.cardsByPath.has(file.path);
+
+		if (cards.length > 0) this.cardsByPath.set(file.path, cards);
+		else this.cardsByPath.delete(file.path);
+
+		if (notify && (hadCards || cards.length > 0)) this.trigger('changed');
+	}
+}
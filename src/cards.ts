@@ -0,0 +1,123 @@
+import type { AnswerMatchOptions } from './matching';
+
+/**
+ * A zero-based position in a note or block.
+ */
+export interface SourcePosition {
+	line: number;
+	column: number;
+}
+
+/**
+ * The span of source text a card was parsed from.
+ */
+export interface SourceRange {
+	start: SourcePosition;
+	end: SourcePosition;
+}
+
+/**
+ * Base interface for all flashcard types.
+ * Defines common properties like type, question, and custom styling.
+ */
+export interface BaseFlashcard {
+	type: FlashyCardType;
+	/** Stable identifier used to key the card's review history. */
+	id: string;
+	/** ID pinned by the author with an `id=` card property, if any. */
+	explicitId?: string;
+	/** Path of the note the card was defined in. */
+	sourcePath: string;
+	/** Where the card was defined, relative to the block unless a line offset was given. */
+	position: SourceRange;
+	question: string;
+	/** Title of the deck the card belongs to, from its block or its note's frontmatter. */
+	deck?: string;
+	/** Tags of the card's block, without the leading `#`. The note's own tags are not included. */
+	tags?: string[];
+	customBackgroundColor?: string;
+	customTextColor?: string;
+	/** Seconds the card has to be answered in, from a `timer=N` property. */
+	timer?: number;
+	/** Shared by the cards generated from one definition (cloze groups, both directions of a Q&A card). */
+	siblingKey?: string;
+}
+
+/**
+ * Represents a multiple-choice flashcard.
+ * Extends BaseFlashcard with an array of possible answers, each with text and a correctness flag.
+ */
+export interface MultipleChoiceCard extends BaseFlashcard {
+	type: 'multiple-choice';
+	answers: { text: string; isCorrect: boolean; }[];
+	/** Overrides the "shuffle answers" setting, from a `shuffle-answers` property. */
+	shuffleAnswers?: boolean;
+}
+
+/**
+ * A piece of fill-in-the-blank text: either literal text or one of the card's blanks.
+ * Blanks refer to the card's `answers` by index.
+ */
+export type ClozeSegment = { kind: 'text'; text: string } | { kind: 'blank'; index: number };
+
+/**
+ * Represents a fill-in-the-blank (cloze) flashcard.
+ * Extends BaseFlashcard with the card text split into segments and one answer per blank.
+ * The `question` holds the text with every blank replaced by `___`.
+ */
+export interface FillInTheBlankCard extends BaseFlashcard {
+	type: 'fill-in-the-blank';
+	segments: ClozeSegment[];
+	answers: string[];
+	/** The `{{cN::...}}` group this card was generated for, if the text uses numbered groups. */
+	group?: number;
+	/** Answer matching overrides from the card or block property line. */
+	matching?: Partial<AnswerMatchOptions>;
+}
+
+/**
+ * Represents a Question/Answer flashcard.
+ * Extends BaseFlashcard with a direct answer to the question.
+ */
+export interface QACard extends BaseFlashcard {
+	type: 'qa';
+	answer: string;
+	/** Set on the answer→question direction generated by a `reverse` property. */
+	reversed?: boolean;
+}
+
+/**
+ * Represents a true/false flashcard: a statement the user judges.
+ * Extends BaseFlashcard with whether the statement (the `question`) is true.
+ */
+export interface TrueFalseCard extends BaseFlashcard {
+	type: 'true-false';
+	answer: boolean;
+	/** Shown once the card has been answered, e.g. why the statement is false. */
+	explanation?: string;
+}
+
+/**
+ * Represents a "put these in order" flashcard.
+ * Extends BaseFlashcard with the items in their correct order; they are shuffled for review.
+ */
+export interface OrderingCard extends BaseFlashcard {
+	type: 'ordering';
+	items: string[];
+}
+
+/**
+ * Represents a "match left to right" flashcard.
+ * Extends BaseFlashcard with the correct pairs; the right-hand sides are shuffled for review.
+ */
+export interface MatchingCard extends BaseFlashcard {
+	type: 'matching';
+	pairs: { left: string; right: string; }[];
+}
+
+/**
+ * Union type for all possible flashcard types.
+ */
+export type Flashcard = MultipleChoiceCard | FillInTheBlankCard | QACard | TrueFalseCard | OrderingCard | MatchingCard;
+
+export type FlashyCardType = 'multiple-choice' | 'fill-in-the-blank' | 'qa' | 'true-false' | 'ordering' | 'matching';
@@ -0,0 +1,1261 @@
+import { App, Component, DropdownComponent, MarkdownRenderChild, MarkdownRenderer, Notice, TextComponent, setIcon } from 'obsidian';
+import {
+	Flashcard,
+	FillInTheBlankCard,
+	MatchingCard,
+	MultipleChoiceCard,
+	OrderingCard,
+	QACard,
+	TrueFalseCard
+} from './cards';
+import { DeckOptions, Diagnostic } from './parser';
+import { FlashyPluginSettings, getMatchOptions } from './settings';
+import { AnswerMatch, diffAnswer, displayAnswer, getAlternatives, matchAnswer } from './matching';
+import {
+	ReviewGrade,
+	ReviewHistory,
+	computeSchedule,
+	describeSchedule,
+	previewIntervals
+} from './scheduler';
+import {
+	CardOutcome,
+	DeckInfo,
+	SessionRecord,
+	formatPercent,
+	getRecentSessions,
+	sessionAccuracy,
+	sessionMastery
+} from './stats';
+import { DeckSessionState, SessionStateStore } from './sessionState';
+import { KeyAction, KeySetting, eventToBinding, formatBinding, getKeyAction, isChord } from './keymap';
+import { applyTheme, findTheme } from './themes';
+
+/**
+ * The parts of the plugin a deck needs: the app, settings, the review history and past sessions.
+ */
+export interface DeckHost {
+	app: App;
+	settings: FlashyPluginSettings;
+	reviews: ReviewHistory;
+	sessions: SessionRecord[];
+	sessionStates: SessionStateStore;
+	recordReview(cardId: string, grade: ReviewGrade): Promise<void>;
+	/** Records several reviews at once, saving them together. */
+	recordReviews(reviews: { cardId: string; grade: ReviewGrade }[]): Promise<void>;
+	recordSession(session: SessionRecord): Promise<void>;
+}
+
+/** Number of previous attempts the summary compares the current session with. */
+const COMPARED_SESSIONS = 5;
+/** How many cards later a missed card comes back when missed cards are re-queued. */
+const REQUEUE_GAP = 3;
+/** How long (ms) to wait for a second digit when a card has ten or more answers. */
+const MULTI_DIGIT_DELAY = 700;
+
+/** The setting holding the key of each grade of a Q&A card. */
+const GRADE_KEYS: Record<ReviewGrade, KeySetting> = {
+	again: 'keyGradeAgain',
+	hard: 'keyGradeHard',
+	good: 'keyGradeGood',
+	easy: 'keyGradeEasy',
+};
+
+/**
+ * A deck rendered on screen, for the commands acting on the deck the user is working with.
+ */
+export interface LiveDeck {
+	el: HTMLElement;
+	/** Starts the deck's session over, like the reset key. */
+	reset(): void;
+}
+
+/** Decks currently rendered, the one the user interacted with last at the end. */
+const liveDecks: LiveDeck[] = [];
+
+/**
+ * Returns the rendered decks inside an element, the one the user interacted with last first.
+ * @param container The element to look in, e.g. the active view's container.
+ */
+export function getLiveDecks(container: HTMLElement): LiveDeck[] {
+	return liveDecks.filter(deck => container.contains(deck.el)).reverse();
+}
+
+/**
+ * Gives a group of answer buttons the semantics of a set of radio buttons, or of checkboxes when several
+ * answers can be picked, so screen readers read them as one question. Up and Down move between the answers.
+ * @param container The element holding the answer buttons.
+ * @param label What the group is announced as.
+ * @param multiple Whether several answers can be picked.
+ */
+export function setupChoiceGroup(container: HTMLElement, label: string, multiple: boolean) {
+	container.setAttr('role', multiple ? 'group' : 'radiogroup');
+	container.setAttr('aria-label', label);
+	container.addEventListener('keydown', (event: KeyboardEvent) => {
+		if (event.key !== 'ArrowUp' && event.key !== 'ArrowDown') return;
+		const buttons = Array.from(container.querySelectorAll<HTMLButtonElement>('button:not(:disabled)'));
+		const index = buttons.indexOf(event.target as HTMLButtonElement);
+		if (index === -1) return;
+		event.preventDefault();
+		const next = buttons[(index + (event.key === 'ArrowDown' ? 1 : buttons.length - 1)) % buttons.length];
+		next.focus();
+	});
+}
+
+/**
+ * Marks an answer button of a choice group as picked or not.
+ * @param multiple Whether several answers can be picked, which makes the button a checkbox instead of a radio button.
+ */
+export function setChoiceChecked(button: HTMLButtonElement, multiple: boolean, checked: boolean) {
+	button.setAttr('role', multiple ? 'checkbox' : 'radio');
+	button.setAttr('aria-checked', String(checked));
+}
+
+/**
+ * Colours an answer as right or wrong, with the same said in words for screen readers.
+ */
+function markAnswer(answerEl: HTMLElement, result: 'correct' | 'incorrect') {
+	if (answerEl.hasClass(result)) return;
+	answerEl.addClass(result);
+	answerEl.createSpan({ text: result === 'correct' ? ', correct' : ', wrong', cls: 'flashy-sr-only' });
+}
+
+/**
+ * Fisher-Yates shuffle algorithm to randomize an array.
+ * @param array The array to shuffle. It is not modified.
+ */
+export function fisherYatesShuffle<T>(array: T[]): T[] {
+	const arr = [...array];
+	for (let i = arr.length - 1; i > 0; i--) {
+		const j = Math.floor(Math.random() * (i + 1));
+		[arr[i], arr[j]] = [arr[j], arr[i]];
+	}
+	return arr;
+}
+
+/**
+ * Moves cards generated from the same definition apart, so shuffling doesn't ask, say, both
+ * directions of a reversed card back to back. Siblings are only left adjacent when nothing else is left to put between them.
+ * @param cards The shuffled cards. They are not modified.
+ */
+export function separateSiblings(cards: Flashcard[]): Flashcard[] {
+	const arr = [...cards];
+	for (let i = 1; i < arr.length; i++) {
+		const key = arr[i - 1].siblingKey;
+		if (!key || arr[i].siblingKey !== key) continue;
+		const j = arr.findIndex((card, index) => index > i && card.siblingKey !== key);
+		if (j !== -1) [arr[i], arr[j]] = [arr[j], arr[i]];
+	}
+	return arr;
+}
+
+/**
+ * Escapes the underscores of a `___` blank so markdown doesn't read it as emphasis or a rule.
+ */
+const MARKDOWN_BLANK = '\\_\\_\\_';
+
+/**
+ * Returns the markdown shown as a card's question. The blanks of a fill-in-the-blank card
+ * are numbered when there are several, so they can be matched with their inputs.
+ */
+export function getQuestionMarkdown(card: Flashcard): string {
+	if (card.type !== 'fill-in-the-blank') return card.question;
+	const numbered = card.answers.length > 1;
+	return card.segments
+		.map(segment => segment.kind === 'text' ? segment.text : numbered ? `${MARKDOWN_BLANK}(${segment.index + 1})` : MARKDOWN_BLANK)
+		.join('');
+}
+
+/**
+ * Renders card content as Obsidian markdown, so formatting, LaTeX, embeds and links work.
+ * @param app The Obsidian App instance.
+ * @param markdown The markdown to render.
+ * @param el The element to render into.
+ * @param sourcePath The note the content comes from, used to resolve links and embeds.
+ * @param component Owns the rendered content's child components; unload it to clean them up.
+ * @param inline Unwrap a single rendered paragraph, for content inside buttons or sentences.
+ */
+export async function renderCardMarkdown(app: App, markdown: string, el: HTMLElement, sourcePath: string, component: Component, inline = false) {
+	await MarkdownRenderer.render(app, markdown, el, sourcePath, component);
+	if (inline && el.childElementCount === 1 && el.firstElementChild?.tagName === 'P') {
+		const paragraph = el.firstElementChild as HTMLElement;
+		while (paragraph.firstChild) el.insertBefore(paragraph.firstChild, paragraph);
+		paragraph.remove();
+	}
+}
+
+/**
+ * Renders a card's markdown without waiting for it. If rendering fails, the markdown is shown as
+ * plain text rather than leaving the card blank, and a notice says what went wrong.
+ * @param deckName The name of the deck the card belongs to, for the notice.
+ * @see renderCardMarkdown for the other parameters.
+ */
+export function renderCardMarkdownOrText(app: App, markdown: string, el: HTMLElement, sourcePath: string, component: Component, deckName: string, inline = false) {
+	renderCardMarkdown(app, markdown, el, sourcePath, component, inline).catch(error => {
+		el.setText(markdown);
+		new Notice(`Couldn't render a card of ${deckName}: ${error instanceof Error ? error.message : error}`);
+	});
+}
+
+/**
+ * Renders the parser's diagnostics as a list under a deck, so syntax problems are visible
+ * instead of cards silently disappearing.
+ * @param el The element to append the list to.
+ * @param diagnostics The problems reported by the parser.
+ */
+export function renderDiagnostics(el: HTMLElement, diagnostics: Diagnostic[]) {
+	if (diagnostics.length === 0) return;
+	const list = el.createEl('ul', { cls: 'flashy-diagnostics' });
+	diagnostics.forEach(diagnostic => {
+		const item = list.createEl('li', { cls: `flashy-diagnostic ${diagnostic.severity}` });
+		item.createSpan({ text: `Line ${diagnostic.line + 1}:${diagnostic.column + 1}`, cls: 'flashy-diagnostic-position' });
+		item.appendText(` ${diagnostic.message}`);
+	});
+}
+
+/**
+ * Renders a deck's title, description and tags above its cards.
+ * @param el The element to append the header to.
+ * @param options The deck's options, merged with its note's frontmatter.
+ */
+export function renderDeckHeader(el: HTMLElement, options: DeckOptions) {
+	const header = el.createDiv({ cls: 'flashy-deck-header' });
+	if (options.title) header.createDiv({ text: options.title, cls: 'flashy-deck-title' });
+	if (options.description) header.createDiv({ text: options.description, cls: 'flashy-deck-description' });
+	if (options.tags) {
+		const tagsEl = header.createDiv({ cls: 'flashy-deck-tags' });
+		options.tags.forEach(tag => tagsEl.createEl('a', { text: `#${tag}`, cls: 'tag', href: `#${tag}` }));
+	}
+}
+
+/**
+ * Renders an interactive deck of flashcards into an element and manages its review session.
+ * Used both by the `flashy` code block processor and the vault-wide review view.
+ * @param host The plugin, providing settings and review history.
+ * @param el The element to render the deck into.
+ * @param allCards The cards making up the deck. Must not be empty.
+ * @param deck Identifies the deck in the saved session statistics.
+ * @param options The block's session options, overriding the plugin settings.
+ * @returns The child component owning the deck's event listeners; add it to the caller's lifecycle.
+ */
+export function renderDeck(host: DeckHost, el: HTMLElement, allCards: Flashcard[], deck: DeckInfo, options: DeckOptions = {}): MarkdownRenderChild {
+	let currentCardIndex = 0;
+	let stats: { correct: number, incorrect: number, answered: number };
+	let answeredCardIndexes: Set<number>;
+	let cardsToRender: Flashcard[];
+	let outcomes: CardOutcome[];
+	let sessionStartedAt: number;
+	let cardShownAt: number;
+	// Positions in `cardsToRender` holding a second (or later) attempt at a missed card.
+	let retryIndexes: Set<number>;
+	let missedOnly: boolean;
+	// Counts down the current card's `timer`, if it has one.
+	let cardTimer: number | null = null;
+	const settings: FlashyPluginSettings = {
+		...host.settings,
+		shuffleCards: options.shuffleCards ?? host.settings.shuffleCards,
+		autoAdvance: options.autoAdvance ?? host.settings.autoAdvance,
+		autoAdvanceDelay: options.autoAdvanceDelay ?? host.settings.autoAdvanceDelay,
+	};
+	const getSchedule = (card: Flashcard) => computeSchedule(host.reviews[card.id]);
+
+	/**
+	 * Initializes or resets the session.
+	 * @param missedCards Only review these cards, to retry the ones missed in the previous session.
+	 */
+	function initializeDeck(missedCards?: Flashcard[]) {
+		const sessionCards = missedCards ?? allCards;
+		// Store the card that is *currently* at index 0 before resetting
+		const previousFirstCard = cardsToRender ? cardsToRender[0] : undefined;
+
+		// Reset stats
+		stats = { correct: 0, incorrect: 0, answered: 0 };
+		answeredCardIndexes = new Set<number>();
+		outcomes = [];
+		sessionStartedAt = Date.now();
+		retryIndexes = new Set<number>();
+		missedOnly = missedCards !== undefined;
+
+		// Shuffle logic with the added check
+		if (settings.shuffleCards && sessionCards.length > 1) {
+			do {
+				cardsToRender = separateSiblings(fisherYatesShuffle(sessionCards));
+			} while (previousFirstCard !== undefined && cardsToRender[0] === previousFirstCard);
+		} else {
+			cardsToRender = [...sessionCards];
+		}
+		if (options.limit && !missedCards) cardsToRender = cardsToRender.slice(0, options.limit);
+
+		// Always start at the beginning
+		currentCardIndex = 0;
+		clearPendingTimers();
+		host.sessionStates.delete(deck.id);
+	}
+
+	/**
+	 * Saves the session so it survives the block being re-rendered or the app restarting.
+	 * Untouched and finished sessions are not worth keeping.
+	 */
+	function saveSessionState() {
+		if ((stats.answered === 0 && currentCardIndex === 0) || stats.answered === cardsToRender.length) return;
+		host.sessionStates.set(deck.id, {
+			cardIds: cardsToRender.map(card => card.id),
+			currentIndex: currentCardIndex,
+			answered: Array.from(answeredCardIndexes),
+			retries: Array.from(retryIndexes),
+			stats: { ...stats },
+			outcomes: outcomes.map(outcome => ({ ...outcome })),
+			startedAt: sessionStartedAt,
+			missedOnly,
+			savedAt: Date.now(),
+		});
+	}
+
+	/**
+	 * Picks up a saved session. Fails if cards of the session have since been removed from the deck;
+	 * cards added since are appended to the end.
+	 * @returns Whether the session could be restored.
+	 */
+	function restoreSessionState(state: DeckSessionState): boolean {
+		const cardsById = new Map(allCards.map(card => [card.id, card]));
+		if (!state.cardIds.every(id => cardsById.has(id))) return false;
+
+		cardsToRender = state.cardIds.map(id => cardsById.get(id) as Flashcard);
+		if (!state.missedOnly && !options.limit) {
+			cardsToRender.push(...allCards.filter(card => !state.cardIds.includes(card.id)));
+		}
+		currentCardIndex = Math.min(state.currentIndex, cardsToRender.length - 1);
+		answeredCardIndexes = new Set(state.answered);
+		retryIndexes = new Set(state.retries);
+		stats = { ...state.stats };
+		outcomes = state.outcomes.map(outcome => ({ ...outcome }));
+		sessionStartedAt = state.startedAt;
+		missedOnly = state.missedOnly;
+		return true;
+	}
+
+	let dueBadge: HTMLElement | null = null;
+
+	applyTheme(el, findTheme(host.settings.themes, options.theme ?? host.settings.defaultTheme));
+	if (options.title || options.description || options.tags) renderDeckHeader(el, options);
+	const mainContainer = el.createDiv({ cls: 'flashcard-container', attr: { role: 'group', 'aria-label': `Flashcards: ${deck.name}` } });
+	if (settings.enableKeyboardNav) mainContainer.setAttr('tabindex', '0');
+	const child = new MarkdownRenderChild(mainContainer);
+	child.register(() => stopCardTimer());
+
+	// Auto-advancing and showing the summary wait a moment after grading; neither may fire
+	// once the session was reset or the block is gone.
+	let advanceTimer: number | null = null;
+	let summaryTimer: number | null = null;
+	function clearPendingTimers() {
+		if (advanceTimer !== null) window.clearTimeout(advanceTimer);
+		if (summaryTimer !== null) window.clearTimeout(summaryTimer);
+		advanceTimer = null;
+		summaryTimer = null;
+	}
+	child.register(() => clearPendingTimers());
+
+	// Reads out what changed for screen readers: grading results and moving to another card.
+	// It lives outside the card container, which is emptied on every render.
+	const liveRegion = el.createDiv({ cls: 'flashy-sr-only', attr: { role: 'status', 'aria-live': 'polite', 'aria-atomic': 'true' } });
+	let announceTimer: number | null = null;
+	child.register(() => {
+		if (announceTimer !== null) window.clearTimeout(announceTimer);
+		liveRegion.remove();
+	});
+
+	/**
+	 * Announces a message to screen readers. The region is cleared first so the same message
+	 * twice in a row, like two "Correct!" in a row, is still read.
+	 */
+	function announce(message: string) {
+		if (announceTimer !== null) window.clearTimeout(announceTimer);
+		liveRegion.empty();
+		announceTimer = window.setTimeout(() => {
+			announceTimer = null;
+			liveRegion.setText(message);
+		}, 100);
+	}
+
+	// The first card is not announced: nothing changed yet.
+	let hasRenderedCard = false;
+
+	// Owns whatever the current card's markdown rendered (embeds, code blocks, ...).
+	// Replaced on every render so nothing outlives the card it belongs to.
+	let cardComponent: Component | null = null;
+	function resetCardComponent(): Component {
+		if (cardComponent) child.removeChild(cardComponent);
+		cardComponent = child.addChild(new Component());
+		return cardComponent;
+	}
+
+	/**
+	 * Renders markdown belonging to a card, resolving links against the card's note.
+	 */
+	function renderMarkdown(markdown: string, targetEl: HTMLElement, card: Flashcard, inline = false) {
+		renderCardMarkdownOrText(host.app, markdown, targetEl, card.sourcePath, cardComponent ?? resetCardComponent(), deck.name, inline);
+	}
+
+	// Rendered internal links need to be opened by hand outside of reading view (e.g. in the review view).
+	child.registerDomEvent(mainContainer, 'click', (event: MouseEvent) => {
+		const link = (event.target as HTMLElement).closest('a.internal-link');
+		if (!link) return;
+		event.preventDefault();
+		event.stopPropagation();
+		const href = link.getAttribute('data-href') ?? link.getAttribute('href');
+		const card = cardsToRender[currentCardIndex];
+		if (href) host.app.workspace.openLinkText(href, card ? card.sourcePath : '', event.ctrlKey || event.metaKey);
+	});
+
+	/**
+	 * Appends a key binding to a button's label, e.g. `Next card (→)`, if keyboard navigation is on.
+	 */
+	const withKey = (label: string, setting: KeySetting) => {
+		const binding = settings[setting];
+		return settings.enableKeyboardNav && binding ? `${label} (${formatBinding(binding)})` : label;
+	};
+
+	// Whether this deck holds the keyboard focus, so its cards can take it back when they re-render.
+	let isActive = false;
+	child.registerDomEvent(el, 'focusin', () => isActive = true);
+	child.registerDomEvent(el.doc, 'focusin', (event: FocusEvent) => {
+		if (!el.contains(event.target as Node)) isActive = false;
+	});
+	child.registerDomEvent(el.doc, 'pointerdown', (event: PointerEvent) => {
+		if (!el.contains(event.target as Node)) isActive = false;
+	});
+
+	/**
+	 * Keeps the focus in the deck when the focused control was re-rendered or disabled,
+	 * so keys keep working without clicking the deck again and screen readers don't lose their place.
+	 * @param preferred The element to focus, e.g. the question of a new card or the first blank of a fill-in-the-blank card.
+	 */
+	function restoreFocus(preferred?: HTMLElement | null) {
+		if (!isActive) return;
+		const activeEl = el.doc.activeElement as HTMLElement | null;
+		const hasFocus = activeEl !== null && activeEl !== el.doc.body && el.contains(activeEl) && !(activeEl as HTMLButtonElement).disabled;
+		if (preferred) preferred.focus({ preventScroll: true });
+		else if (!hasFocus) (settings.enableKeyboardNav ? mainContainer : mainContainer.querySelector<HTMLElement>('.flashcard-question'))?.focus({ preventScroll: true });
+	}
+
+	/**
+	 * Clicks a button of the current card if it is shown and enabled.
+	 * @returns Whether the button was clicked.
+	 */
+	const clickButton = (selector: string): boolean => {
+		const button = mainContainer.querySelector<HTMLButtonElement>(selector);
+		if (!button || button.disabled || !button.isShown()) return false;
+		button.click();
+		return true;
+	};
+
+	/**
+	 * Runs what a key is bound to on the current card.
+	 */
+	function runKeyAction(action: KeyAction) {
+		const hasCard = mainContainer.querySelector('.flashcard-body') !== null;
+		switch (action) {
+			case 'previous':
+				if (currentCardIndex > 0) renderCard(currentCardIndex - 1);
+				break;
+			case 'next':
+				if (currentCardIndex < cardsToRender.length - 1) renderCard(currentCardIndex + 1);
+				break;
+			case 'skip':
+				for (let step = 1; hasCard && step < cardsToRender.length; step++) {
+					const index = (currentCardIndex + step) % cardsToRender.length;
+					if (!answeredCardIndexes.has(index)) {
+						renderCard(index);
+						break;
+					}
+				}
+				break;
+			case 'reset':
+				liveDeck.reset();
+				break;
+			case 'submit':
+				if (!hasCard || clickButton('.flashcard-fill-submit') || clickButton('.qa-show-answer')) break;
+				if (answeredCardIndexes.has(currentCardIndex) && currentCardIndex < cardsToRender.length - 1) renderCard(currentCardIndex + 1);
+				break;
+			case 'showAnswer':
+				clickButton('.qa-show-answer');
+				break;
+			default:
+				clickButton(`.qa-grading-button.${action}`);
+		}
+	}
+
+	// Digits typed so far to pick an answer, for cards with ten or more answers.
+	let typedNumber = '';
+	let typedNumberTimer: number | null = null;
+	child.register(() => {
+		if (typedNumberTimer !== null) window.clearTimeout(typedNumberTimer);
+	});
+
+	/**
+	 * Picks the answer with the number typed. With ten or more answers, a digit that can start a
+	 * longer number waits briefly for the next one, so `1` `2` picks the twelfth answer.
+	 */
+	function pickAnswer(digit: string) {
+		const buttons = Array.from(mainContainer.querySelectorAll<HTMLButtonElement>('.flashcard-answer'));
+		if (buttons.length === 0) return;
+		if (typedNumberTimer !== null) window.clearTimeout(typedNumberTimer);
+		typedNumber += digit;
+		const number = parseInt(typedNumber);
+		const pick = () => {
+			typedNumber = '';
+			typedNumberTimer = null;
+			const button = buttons[number - 1];
+			if (button && !button.disabled && mainContainer.contains(button)) button.click();
+		};
+		if (number * 10 <= buttons.length) typedNumberTimer = window.setTimeout(pick, MULTI_DIGIT_DELAY);
+		else pick();
+	}
+
+	/**
+	 * Handles the keys of the deck while it has focus. Tab on the deck itself moves to the next or
+	 * previous deck; while typing an answer only chords like Ctrl+Enter are taken, and Escape leaves the field.
+	 * @param event The KeyboardEvent object.
+	 */
+	const handleKeyDown = (event: KeyboardEvent) => {
+		if (!settings.enableKeyboardNav || event.defaultPrevented || event.isComposing) return;
+		const target = event.target as HTMLElement;
+
+		if (target === mainContainer && event.key === 'Tab' && !event.ctrlKey && !event.altKey && !event.metaKey) {
+			const decks = Array.from(el.doc.querySelectorAll<HTMLElement>('.flashcard-container[tabindex]')).filter(deckEl => deckEl.isShown());
+			const next = decks[decks.indexOf(mainContainer) + (event.shiftKey ? -1 : 1)];
+			if (next) {
+				event.preventDefault();
+				next.focus();
+			}
+			return;
+		}
+
+		const isTyping = target.matches('input, textarea, select');
+		if (isTyping && event.key === 'Escape') {
+			event.preventDefault();
+			mainContainer.focus();
+			return;
+		}
+		const binding = eventToBinding(event);
+		if (!binding || (isTyping && !isChord(binding))) return;
+		// A focused button already answers Enter and Space itself.
+		if (target.tagName === 'BUTTON' && (binding === 'Enter' || binding === 'Space')) return;
+
+		const hasCard = mainContainer.querySelector('.flashcard-body') !== null;
+		const action = getKeyAction(settings, binding, hasCard ? cardsToRender[currentCardIndex]?.type : undefined);
+		if (action) {
+			event.preventDefault();
+			runKeyAction(action);
+		} else if (hasCard && /^[0-9]$/.test(binding)) {
+			event.preventDefault();
+			pickAnswer(binding);
+		}
+	};
+	child.registerDomEvent(el, 'keydown', handleKeyDown);
+
+	const liveDeck: LiveDeck = {
+		el,
+		reset: () => {
+			initializeDeck();
+			renderCard(0);
+		},
+	};
+	liveDecks.push(liveDeck);
+	child.register(() => liveDecks.remove(liveDeck));
+	// Keep the deck the user last worked with at the end, for the commands.
+	const markActive = () => {
+		liveDecks.remove(liveDeck);
+		liveDecks.push(liveDeck);
+	};
+	child.registerDomEvent(el, 'pointerdown', markActive);
+	child.registerDomEvent(el, 'focusin', markActive);
+
+	/**
+	 * Callback function invoked when a card is graded (answered).
+	 * Updates statistics, records the review for scheduling and handles auto-advancement.
+	 */
+	const onGraded = (grade: ReviewGrade) => {
+		if (answeredCardIndexes.has(currentCardIndex)) {
+			return;
+		}
+		answeredCardIndexes.add(currentCardIndex);
+
+		const card = cardsToRender[currentCardIndex];
+		const isCorrect = grade !== 'again';
+		const durationMs = Date.now() - cardShownAt;
+		const previousOutcome = outcomes.find(outcome => outcome.cardId === card.id);
+		if (previousOutcome) {
+			// A retry of a missed card: it counts towards mastery, not first-try accuracy.
+			previousOutcome.retries = (previousOutcome.retries ?? 0) + 1;
+			previousOutcome.durationMs += durationMs;
+			previousOutcome.mastered = isCorrect;
+		} else {
+			outcomes.push({ cardId: card.id, grade, durationMs, mastered: isCorrect });
+			if (isCorrect) stats.correct++;
+			else stats.incorrect++;
+		}
+		stats.answered++;
+
+		if (!isCorrect && settings.requeueMissedCards) requeueCard(card);
+
+		host.recordReview(card.id, grade).then(() => {
+			if (dueBadge && cardsToRender[currentCardIndex] === card) {
+				dueBadge.setText(describeSchedule(getSchedule(card)));
+			}
+		}).catch(error => {
+			new Notice(`Couldn't save the review: ${error instanceof Error ? error.message : error}`);
+		});
+
+		// Check if we should auto advance
+		const shouldAdvance = (isCorrect && settings.autoAdvance) || (!isCorrect && settings.autoAdvanceIncorrect);
+
+		if (shouldAdvance && currentCardIndex < cardsToRender.length - 1) {
+			advanceTimer = window.setTimeout(() => {
+				advanceTimer = null;
+				renderCard(currentCardIndex + 1);
+			}, settings.autoAdvanceDelay);
+		}
+
+		saveSessionState();
+		// The answer buttons were just disabled, which takes the focus away from them.
+		window.setTimeout(() => restoreFocus());
+
+		if (stats.answered === cardsToRender.length) {
+			host.sessionStates.delete(deck.id);
+			// Look up the previous attempts before this one is added to them.
+			const previousSessions = getRecentSessions(host.sessions, deck.id, COMPARED_SESSIONS);
+			const session: SessionRecord = {
+				deckId: deck.id,
+				deckName: deck.name,
+				sourcePath: deck.sourcePath,
+				startedAt: sessionStartedAt,
+				finishedAt: Date.now(),
+				outcomes: outcomes.map(outcome => ({ ...outcome })),
+				missedOnly: missedOnly || undefined,
+			};
+			host.recordSession(session).catch(error => {
+				new Notice(`Couldn't save the session: ${error instanceof Error ? error.message : error}`);
+			});
+			summaryTimer = window.setTimeout(() => {
+				summaryTimer = null;
+				renderSummary(session, previousSessions);
+			}, 1000);
+		}
+	};
+
+	/**
+	 * Inserts another attempt at a missed card a few cards later, shifting the positions after it.
+	 */
+	function requeueCard(card: Flashcard) {
+		const insertAt = Math.min(currentCardIndex + 1 + REQUEUE_GAP, cardsToRender.length);
+		const shift = (indexes: Set<number>) => new Set(Array.from(indexes).map(index => index >= insertAt ? index + 1 : index));
+		cardsToRender.splice(insertAt, 0, card);
+		answeredCardIndexes = shift(answeredCardIndexes);
+		retryIndexes = shift(retryIndexes);
+		retryIndexes.add(insertAt);
+	}
+
+	/**
+	 * Renders a specific flashcard based on its index.
+	 * Clears the container and renders the appropriate card type and controls.
+	 * @param index The index of the card to render.
+	 */
+	function renderCard(index: number) {
+		// Moving on by hand replaces a pending auto-advance.
+		if (advanceTimer !== null) window.clearTimeout(advanceTimer);
+		advanceTimer = null;
+		currentCardIndex = index;
+		cardShownAt = Date.now();
+		saveSessionState();
+		stopCardTimer();
+		resetCardComponent();
+		mainContainer.empty();
+		const cardData = cardsToRender[index];
+		if (!cardData) return;
+
+		if (cardData.customBackgroundColor) {
+			mainContainer.style.setProperty('--flashy-bg-override', cardData.customBackgroundColor);
+		} else {
+			mainContainer.style.removeProperty('--flashy-bg-override');
+		}
+
+		if (cardData.customTextColor) {
+			mainContainer.style.setProperty('--flashy-text-override', cardData.customTextColor);
+		} else {
+			mainContainer.style.removeProperty('--flashy-text-override');
+		}
+
+		renderHeader(mainContainer, cardData, retryIndexes.has(index));
+		const body = mainContainer.createDiv({ cls: 'flashcard-body' });
+
+		switch (cardData.type) {
+			case 'multiple-choice':
+				renderMultipleChoiceBody(body, cardData, onGraded);
+				break;
+			case 'fill-in-the-blank':
+				renderFillInTheBlankBody(body, cardData, onGraded);
+				break;
+			case 'qa':
+				renderQABody(body, cardData, onGraded);
+				break;
+			case 'true-false':
+				renderTrueFalseBody(body, cardData, onGraded);
+				break;
+			case 'ordering':
+				renderOrderingBody(body, cardData, onGraded);
+				break;
+			case 'matching':
+				renderMatchingBody(body, cardData, onGraded);
+				break;
+		}
+		if (cardData.timer && !answeredCardIndexes.has(index)) startCardTimer(cardData.timer, body);
+		renderControls(mainContainer, index, cardsToRender.length, renderCard);
+
+		if (hasRenderedCard) announce(`Card ${index + 1} of ${cardsToRender.length}${retryIndexes.has(index) ? ', retry' : ''}`);
+		hasRenderedCard = true;
+		const firstBlank = answeredCardIndexes.has(index) ? null : body.querySelector<HTMLElement>('.flashcard-fill-input');
+		restoreFocus(firstBlank ?? mainContainer.querySelector<HTMLElement>('.flashcard-question'));
+	}
+
+	/**
+	 * Shows how an answer went under the card and reads it out to screen readers.
+	 */
+	function renderFeedback(container: HTMLElement, text: string, result: 'correct' | 'almost' | 'incorrect') {
+		container.createEl('p', { text, cls: `flashcard-feedback ${result}` });
+		announce(text);
+	}
+
+	/**
+	 * Counts down the time left to answer the current card. When it runs out the card
+	 * is locked and counted as missed.
+	 * @param seconds The card's time limit.
+	 * @param body The card's body, whose controls are disabled when time is up.
+	 */
+	function startCardTimer(seconds: number, body: HTMLElement) {
+		const index = currentCardIndex;
+		const deadline = cardShownAt + seconds * 1000;
+		const timerEl = dueBadge?.parentElement?.createEl('span', { cls: 'flashcard-due-badge flashy-timer' });
+		const tick = () => {
+			if (answeredCardIndexes.has(index)) {
+				stopCardTimer();
+				timerEl?.remove();
+				return;
+			}
+			const left = Math.max(0, Math.ceil((deadline - Date.now()) / 1000));
+			timerEl?.setText(`${left}s`);
+			timerEl?.toggleClass('is-running-out', left <= 5);
+			if (left > 0) return;
+			stopCardTimer();
+			body.querySelectorAll<HTMLButtonElement | HTMLInputElement | HTMLSelectElement>('button, input, select').forEach(control => control.disabled = true);
+			renderFeedback(body, "Time's up", 'incorrect');
+			onGraded('again');
+		};
+		tick();
+		cardTimer = window.setInterval(tick, 250);
+	}
+
+	/** Stops the current card's countdown, if any. */
+	function stopCardTimer() {
+		if (cardTimer !== null) window.clearInterval(cardTimer);
+		cardTimer = null;
+	}
+
+	/**
+	 * Renders the summary screen after all cards have been answered.
+	 * @param session The session that was just completed.
+	 * @param previousSessions Earlier attempts at the same deck, newest first.
+	 */
+	function renderSummary(session: SessionRecord, previousSessions: SessionRecord[]) {
+		stopCardTimer();
+		resetCardComponent();
+		mainContainer.empty();
+		const summaryEl = mainContainer.createDiv({ cls: 'flashcard-summary' });
+		const headingEl = summaryEl.createEl('h3', { text: 'Session complete!', attr: { tabindex: '-1' } });
+		const cardCount = session.outcomes.length;
+		const score = cardCount > 0 ? (stats.correct / cardCount * 100) : 0;
+		announce(`Session complete! Score: ${score.toFixed(0)}%`);
+		summaryEl.createEl('p', { text: `You answered ${stats.correct} out of ${cardCount} cards correctly on the first try.` });
+		summaryEl.createEl('p', { text: `Score: ${score.toFixed(0)}%` });
+		const retried = session.outcomes.filter(outcome => outcome.retries);
+		if (retried.length > 0) {
+			summaryEl.createEl('p', {
+				text: `Mastered ${formatPercent(sessionMastery(session))} of the cards after ${retried.reduce((sum, outcome) => sum + (outcome.retries ?? 0), 0)} retries.`,
+			});
+		}
+		const averageSeconds = session.outcomes.reduce((sum, outcome) => sum + outcome.durationMs, 0) / session.outcomes.length / 1000;
+		summaryEl.createEl('p', { text: `Average time per card: ${averageSeconds.toFixed(1)}s` });
+
+		if (previousSessions.length > 0) {
+			const change = Math.round((sessionAccuracy(session) - sessionAccuracy(previousSessions[0])) * 100);
+			const trend = change > 0 ? `Up ${change}% from your last attempt.` : change < 0 ? `Down ${-change}% from your last attempt.` : 'Same score as your last attempt.';
+			summaryEl.createEl('p', { text: trend, cls: `flashy-summary-trend ${change > 0 ? 'up' : change < 0 ? 'down' : ''}` });
+
+			const historyEl = summaryEl.createDiv({ cls: 'flashy-summary-history' });
+			historyEl.createSpan({ text: 'Previous attempts:', cls: 'flashy-summary-history-label' });
+			previousSessions.forEach(previous => {
+				historyEl.createSpan({
+					text: formatPercent(sessionAccuracy(previous)),
+					cls: 'flashy-summary-attempt',
+					attr: { 'aria-label': new Date(previous.finishedAt).toLocaleString() },
+				});
+			});
+		}
+
+		const buttonsEl = summaryEl.createDiv({ cls: 'flashy-summary-buttons' });
+		const resetButton = buttonsEl.createEl('button', { text: 'Review again', cls: 'flashcard-reset' });
+		resetButton.addEventListener('click', () => {
+			initializeDeck();
+			renderCard(0);
+		});
+
+		// Cards missed on the first try, whether or not they were mastered later.
+		const missedIds = session.outcomes.filter(outcome => outcome.grade === 'again').map(outcome => outcome.cardId);
+		const missedCards = allCards.filter(card => missedIds.includes(card.id));
+		if (missedCards.length > 0) {
+			const retryButton = buttonsEl.createEl('button', {
+				text: `Retry only the ${missedCards.length} missed`,
+				cls: 'flashcard-reset flashy-retry-missed',
+			});
+			retryButton.addEventListener('click', () => {
+				initializeDeck(missedCards);
+				renderCard(0);
+			});
+		}
+		restoreFocus(headingEl);
+	}
+
+	/**
+	 * Renders the header section of a flashcard, including the question and a reset button.
+	 * @param container The HTMLElement to append the header to.
+	 * @param card The Flashcard data.
+	 * @param isRetry Whether this is another attempt at a card missed earlier in the session.
+	 */
+	function renderHeader(container: HTMLElement, card: Flashcard, isRetry: boolean) {
+		const header = container.createDiv({ cls: 'flashcard-header' });
+
+		const titleContainer = header.createDiv();
+		const questionEl = titleContainer.createDiv({ cls: 'flashcard-question', attr: { tabindex: '-1' } });
+		renderMarkdown(getQuestionMarkdown(card), questionEl, card);
+		dueBadge = titleContainer.createEl('span', {
+			text: describeSchedule(getSchedule(card)),
+			cls: 'flashcard-due-badge'
+		});
+		if (isRetry) titleContainer.createEl('span', { text: 'Retry', cls: 'flashcard-due-badge flashy-retry-badge' });
+
+		const resetButton = header.createEl('button', { cls: 'flashcard-reset flashy-icon-button' });
+		setIcon(resetButton, 'refresh-cw');
+		resetButton.ariaLabel = withKey('Reset session', 'keyResetSession');
+		resetButton.addEventListener('click', () => {
+			initializeDeck();
+			renderCard(0);
+		});
+	}
+
+	/**
+	 * Shows the digit picking an answer on its button, if keyboard navigation is on.
+	 */
+	function renderKeyHint(button: HTMLButtonElement, index: number) {
+		if (!settings.enableKeyboardNav) return;
+		button.createSpan({ text: String(index + 1), cls: 'flashcard-answer-key', attr: { 'aria-hidden': 'true' }, prepend: true });
+	}
+
+	/**
+	 * Renders the body for a multiple-choice flashcard.
+	 * @param container The HTMLElement to append the body to.
+	 * @param card The MultipleChoiceCard data.
+	 * @param onGraded Callback function to call when the card is graded.
+	 */
+	function renderMultipleChoiceBody(container: HTMLElement, card: MultipleChoiceCard, onGraded: (grade: ReviewGrade) => void) {
+		const buttonsContainer = container.createDiv({ cls: 'flashcard-buttons' });
+		const answers = card.answers;
+		const answersToShow = (card.shuffleAnswers ?? settings.shuffleAnswers) ? fisherYatesShuffle(answers) : answers;
+		const totalCorrectAnswers = answers.filter(a => a.isCorrect).length;
+		const multiple = totalCorrectAnswers > 1;
+		setupChoiceGroup(buttonsContainer, multiple ? `Answers, pick all ${totalCorrectAnswers} correct ones` : 'Answers', multiple);
+		let foundCorrectAnswers = 0;
+		let hasAnswered = false;
+		const allButtons: HTMLButtonElement[] = [];
+		const correctButtons: HTMLButtonElement[] = [];
+
+		answersToShow.forEach((answer, index) => {
+			const button = buttonsContainer.createEl('button', { cls: 'flashcard-answer' });
+			renderKeyHint(button, index);
+			renderMarkdown(answer.text, button.createDiv({ cls: 'flashcard-answer-content' }), card, true);
+			setChoiceChecked(button, multiple, false);
+			allButtons.push(button);
+			if (answer.isCorrect) correctButtons.push(button);
+
+			button.addEventListener('click', () => {
+				setChoiceChecked(button, multiple, true);
+				if (answer.isCorrect) {
+					markAnswer(button, 'correct');
+					button.disabled = true;
+					foundCorrectAnswers++;
+					if (foundCorrectAnswers === totalCorrectAnswers) {
+						allButtons.forEach(btn => { if (!btn.disabled) btn.disabled = true; });
+						renderFeedback(container, 'Correct!', 'correct');
+						if (!hasAnswered) {
+							onGraded('good');
+							hasAnswered = true;
+						}
+					}
+				} else {
+					markAnswer(button, 'incorrect');
+					allButtons.forEach(btn => btn.disabled = true);
+					correctButtons.forEach(correctBtn => markAnswer(correctBtn, 'correct'));
+					renderFeedback(container, 'Incorrect', 'incorrect');
+					if (!hasAnswered) {
+						onGraded('again');
+						hasAnswered = true;
+					}
+				}
+			});
+		});
+	}
+
+	/**
+	 * Renders the body for a fill-in-the-blank flashcard.
+	 * @param container The HTMLElement to append the body to.
+	 * @param card The FillInTheBlankCard data.
+	 * @param onGraded Callback function to call when the card is graded.
+	 */
+	function renderFillInTheBlankBody(container: HTMLElement, card: FillInTheBlankCard, onGraded: (grade: ReviewGrade) => void) {
+		const hasMultipleBlanks = card.answers.length > 1;
+		const formContainer = container.createDiv({ cls: 'flashcard-fill-container' });
+		const blanksContainer = formContainer.createDiv({ cls: 'flashcard-fill-blanks' });
+		const inputs = card.answers.map((answer, index) => {
+			const row = blanksContainer.createDiv({ cls: 'flashcard-fill-row' });
+			if (hasMultipleBlanks) row.createSpan({ text: `${index + 1}`, cls: 'flashcard-fill-label' });
+			const input = new TextComponent(row)
+				.setPlaceholder(hasMultipleBlanks ? `Blank ${index + 1}` : "Type your answer...").inputEl;
+			input.classList.add('flashcard-fill-input');
+			input.setAttr('aria-label', hasMultipleBlanks ? `Blank ${index + 1}` : 'Your answer');
+			return input;
+		});
+		const submitButton = formContainer.createEl('button', { text: "Submit", cls: "flashcard-fill-submit" });
+
+		const matchOptions = { ...getMatchOptions(settings), ...card.matching };
+
+		const checkAnswer = () => {
+			// Each blank is graded on its own and the results are summed into the card's grade:
+			// all correct is Good, correct apart from typos is Hard, anything wrong is Again.
+			const matches: AnswerMatch[] = inputs.map((input, index) => matchAnswer(input.value, card.answers[index], matchOptions));
+			const correctCount = matches.filter(match => match.result !== 'incorrect').length;
+			const isCorrect = correctCount === matches.length;
+			const isExact = matches.every(match => match.result === 'correct');
+			inputs.forEach((input, index) => {
+				input.disabled = true;
+				input.classList.add(matches[index].result);
+			});
+			submitButton.disabled = true;
+			onGraded(isExact ? 'good' : isCorrect ? 'hard' : 'again');
+
+			let feedbackText = isExact ? "Correct!" : isCorrect ? "Almost!" : "Incorrect";
+			if (hasMultipleBlanks && !isCorrect) feedbackText = `${correctCount} of ${matches.length} blanks correct`;
+			const feedbackClass = isExact ? 'correct' : isCorrect ? 'almost' : 'incorrect';
+			renderFeedback(container, feedbackText, feedbackClass);
+
+			matches.forEach((match, index) => {
+				if (match.result === 'correct') return;
+				const reveal = container.createEl('p', { cls: 'flashcard-correct-answer-reveal' });
+				const label = hasMultipleBlanks ? `Blank ${index + 1}` : 'The correct answer';
+				if (match.result === 'almost') {
+					// Show exactly which characters were off.
+					reveal.appendText(`${label}: `);
+					const diff = reveal.createSpan({ cls: 'flashy-diff' });
+					diffAnswer(inputs[index].value, match.expected).forEach(part => {
+						diff.createSpan({ text: part.text, cls: `flashy-diff-${part.type}` });
+					});
+				} else {
+					const alternatives = getAlternatives(card.answers[index]);
+					reveal.appendText(`${label} was: `);
+					const answerText = alternatives.length > 1 ? alternatives.join(' / ') : displayAnswer(card.answers[index]);
+					renderMarkdown(answerText, reveal.createEl('span'), card, true);
+				}
+			});
+		};
+		submitButton.addEventListener('click', checkAnswer);
+		inputs.forEach((input, index) => {
+			input.addEventListener('keydown', (e) => {
+				if (e.key !== 'Enter' || e.isComposing) return;
+				e.preventDefault();
+				// Enter moves on to the next blank, and submits from the last one.
+				if (index < inputs.length - 1) inputs[index + 1].focus();
+				else checkAnswer();
+			});
+		});
+	}
+
+	/**
+	 * Renders the body for a Question/Answer flashcard.
+	 * @param container The HTMLElement to append the body to.
+	 * @param card The QACard data.
+	 * @param onGraded Callback function to call when the card is graded.
+	 */
+	function renderQABody(container: HTMLElement, card: QACard, onGraded: (grade: ReviewGrade) => void) {
+		const qaContainer = container.createDiv({ cls: 'qa-container' });
+		const answerContainer = qaContainer.createDiv({ cls: 'qa-answer-container', attr: { role: 'region', 'aria-label': 'Answer', tabindex: '-1' } });
+		renderMarkdown(card.answer, answerContainer, card);
+		answerContainer.hide();
+
+		const gradingContainer = qaContainer.createDiv({ cls: 'qa-grading-buttons', attr: { role: 'group', 'aria-label': 'How well did you know it?' } });
+		gradingContainer.hide();
+
+		const showAnswerButton = qaContainer.createEl('button', { text: "Show answer", cls: 'mod-cta qa-show-answer' });
+		if (settings.enableKeyboardNav) showAnswerButton.ariaLabel = withKey('Show answer', 'keyShowAnswer');
+
+		const intervals = previewIntervals(getSchedule(card));
+		const gradeLabels: Record<ReviewGrade, string> = { again: 'Again', hard: 'Hard', good: 'Good', easy: 'Easy' };
+		const gradeButtons = (Object.keys(gradeLabels) as ReviewGrade[]).map(grade => {
+			const button = gradingContainer.createEl('button', { cls: `qa-grading-button ${grade}` });
+			if (settings.enableKeyboardNav) button.ariaLabel = withKey(gradeLabels[grade], GRADE_KEYS[grade]);
+			button.createSpan({ text: gradeLabels[grade], cls: 'qa-grading-label' });
+			button.createSpan({ text: intervals[grade], cls: 'qa-grading-interval' });
+			button.addEventListener('click', () => handleGrading(grade));
+			return button;
+		});
+
+		const handleGrading = (grade: ReviewGrade) => {
+			onGraded(grade);
+			gradeButtons.forEach(button => button.disabled = true);
+			announce(`Graded ${gradeLabels[grade]}. Next review in ${intervals[grade]}.`);
+		};
+
+		showAnswerButton.addEventListener('click', () => {
+			const hadFocus = el.contains(el.doc.activeElement);
+			showAnswerButton.hide();
+			answerContainer.show();
+			gradingContainer.show();
+			// The button is gone; move on to the answer so it is read out next.
+			if (hadFocus) answerContainer.focus({ preventScroll: true });
+		});
+	}
+
+	/**
+	 * Renders the body for a true/false flashcard.
+	 * @param container The HTMLElement to append the body to.
+	 * @param card The TrueFalseCard data.
+	 * @param onGraded Callback function to call when the card is graded.
+	 */
+	function renderTrueFalseBody(container: HTMLElement, card: TrueFalseCard, onGraded: (grade: ReviewGrade) => void) {
+		const buttonsContainer = container.createDiv({ cls: 'flashcard-buttons flashy-true-false' });
+		setupChoiceGroup(buttonsContainer, 'True or false', false);
+		const buttons = [true, false].map((value, index) => {
+			const button = buttonsContainer.createEl('button', { text: value ? 'True' : 'False', cls: 'flashcard-answer' });
+			renderKeyHint(button, index);
+			setChoiceChecked(button, false, false);
+			button.addEventListener('click', () => {
+				const isCorrect = value === card.answer;
+				buttons.forEach(btn => btn.disabled = true);
+				setChoiceChecked(button, false, true);
+				markAnswer(button, isCorrect ? 'correct' : 'incorrect');
+				if (!isCorrect) markAnswer(buttons[card.answer ? 0 : 1], 'correct');
+				renderFeedback(container, isCorrect ? 'Correct!' : 'Incorrect', isCorrect ? 'correct' : 'incorrect');
+				if (card.explanation) {
+					renderMarkdown(card.explanation, container.createDiv({ cls: 'flashy-explanation' }), card);
+				}
+				onGraded(isCorrect ? 'good' : 'again');
+			});
+			return button;
+		});
+	}
+
+	/**
+	 * Renders the body for an ordering flashcard: the items are shuffled and put back in order
+	 * by dragging them, with the arrow buttons, or with Alt+Up/Down on a focused item.
+	 * @param container The HTMLElement to append the body to.
+	 * @param card The OrderingCard data.
+	 * @param onGraded Callback function to call when the card is graded.
+	 */
+	function renderOrderingBody(container: HTMLElement, card: OrderingCard, onGraded: (grade: ReviewGrade) => void) {
+		// Items are compared by text, like in an exam, so items written the same way may be swapped.
+		const isInPlace = (itemIndex: number, position: number) => card.items[itemIndex] === card.items[position];
+		// Item indexes in their current order; make sure the shuffle doesn't hand out the answer,
+		// unless every item reads the same and there is no other order.
+		let order = card.items.map((_, index) => index);
+		const canShuffle = card.items.some(item => item !== card.items[0]);
+		do {
+			order = fisherYatesShuffle(order);
+		} while (canShuffle && order.every(isInPlace));
+
+		const list = container.createEl('ol', {
+			cls: 'flashy-ordering-list',
+			attr: { 'aria-label': 'Items to put in order. Alt+Up and Alt+Down move the focused item.' },
+		});
+		const submitButton = container.createEl('button', { text: 'Check order', cls: 'flashcard-fill-submit' });
+		let answered = false;
+		let draggedPosition: number | null = null;
+
+		const move = (from: number, to: number) => {
+			if (answered || to < 0 || to >= order.length || from === to) return;
+			const [item] = order.splice(from, 1);
+			order.splice(to, 0, item);
+			renderItems();
+			(list.children[to] as HTMLElement | undefined)?.focus();
+		};
+
+		const renderItems = () => {
+			list.empty();
+			order.forEach((itemIndex, position) => {
+				const row = list.createEl('li', { cls: 'flashy-ordering-item', attr: { tabindex: '0', draggable: answered ? 'false' : 'true' } });
+				const handle = row.createSpan({ cls: 'flashy-ordering-handle' });
+				setIcon(handle, 'grip-vertical');
+				renderMarkdown(card.items[itemIndex], row.createDiv({ cls: 'flashy-ordering-text' }), card, true);
+
+				const upButton = row.createEl('button', { cls: 'flashy-icon-button', attr: { 'aria-label': 'Move up' } });
+				setIcon(upButton, 'arrow-up');
+				upButton.disabled = answered || position === 0;
+				upButton.addEventListener('click', () => move(position, position - 1));
+				const downButton = row.createEl('button', { cls: 'flashy-icon-button', attr: { 'aria-label': 'Move down' } });
+				setIcon(downButton, 'arrow-down');
+				downButton.disabled = answered || position === order.length - 1;
+				downButton.addEventListener('click', () => move(position, position + 1));
+
+				row.addEventListener('keydown', (event) => {
+					if (!event.altKey || (event.key !== 'ArrowUp' && event.key !== 'ArrowDown')) return;
+					event.preventDefault();
+					move(position, event.key === 'ArrowUp' ? position - 1 : position + 1);
+				});
+				row.addEventListener('dragstart', (event) => {
+					draggedPosition = position;
+					event.dataTransfer?.setData('text/plain', String(position));
+					row.addClass('is-dragging');
+				});
+				row.addEventListener('dragend', () => row.removeClass('is-dragging'));
+				row.addEventListener('dragover', (event) => event.preventDefault());
+				row.addEventListener('drop', (event) => {
+					event.preventDefault();
+					if (draggedPosition !== null) move(draggedPosition, position);
+					draggedPosition = null;
+				});
+
+				if (answered) markAnswer(row, isInPlace(itemIndex, position) ? 'correct' : 'incorrect');
+			});
+		};
+
+		submitButton.addEventListener('click', () => {
+			answered = true;
+			submitButton.disabled = true;
+			renderItems();
+			const correctCount = order.filter(isInPlace).length;
+			const isCorrect = correctCount === order.length;
+			renderFeedback(container, isCorrect ? 'Correct!' : `${correctCount} of ${order.length} in the right place`, isCorrect ? 'correct' : 'incorrect');
+			if (!isCorrect) {
+				const reveal = container.createDiv({ cls: 'flashcard-correct-answer-reveal' });
+				reveal.createEl('p', { text: 'The correct order was:' });
+				const correctList = reveal.createEl('ol');
+				card.items.forEach(item => renderMarkdown(item, correctList.createEl('li'), card, true));
+			}
+			onGraded(isCorrect ? 'good' : 'again');
+		});
+
+		renderItems();
+	}
+
+	/**
+	 * Renders the body for a matching flashcard: each left-hand item gets a dropdown of the shuffled right-hand items.
+	 * @param container The HTMLElement to append the body to.
+	 * @param card The MatchingCard data.
+	 * @param onGraded Callback function to call when the card is graded.
+	 */
+	function renderMatchingBody(container: HTMLElement, card: MatchingCard, onGraded: (grade: ReviewGrade) => void) {
+		const rights = fisherYatesShuffle(card.pairs.map(pair => pair.right));
+		const grid = container.createDiv({ cls: 'flashy-matching-grid' });
+		const dropdowns = card.pairs.map(pair => {
+			const row = grid.createDiv({ cls: 'flashy-matching-row' });
+			renderMarkdown(pair.left, row.createDiv({ cls: 'flashy-matching-left' }), card, true);
+			const dropdown = new DropdownComponent(row).addOption('', 'Choose…');
+			dropdown.selectEl.setAttr('aria-label', `Match for ${pair.left}`);
+			rights.forEach((right, index) => dropdown.addOption(String(index), right));
+			return dropdown;
+		});
+		const submitButton = container.createEl('button', { text: 'Check matches', cls: 'flashcard-fill-submit' });
+
+		submitButton.addEventListener('click', () => {
+			submitButton.disabled = true;
+			const results = dropdowns.map((dropdown, index) => {
+				const choice = dropdown.getValue();
+				const isCorrect = choice !== '' && rights[parseInt(choice)] === card.pairs[index].right;
+				dropdown.setDisabled(true);
+				dropdown.selectEl.addClass(isCorrect ? 'correct' : 'incorrect');
+				return isCorrect;
+			});
+			const correctCount = results.filter(Boolean).length;
+			const isCorrect = correctCount === results.length;
+			renderFeedback(container, isCorrect ? 'Correct!' : `${correctCount} of ${results.length} pairs correct`, isCorrect ? 'correct' : 'incorrect');
+			if (!isCorrect) {
+				const reveal = container.createDiv({ cls: 'flashcard-correct-answer-reveal' });
+				card.pairs.forEach((pair, index) => {
+					if (results[index]) return;
+					renderMarkdown(`${pair.left} → ${pair.right}`, reveal.createEl('p'), card, true);
+				});
+			}
+			onGraded(isCorrect ? 'good' : 'again');
+		});
+	}
+
+	/**
+	 * Renders navigation controls (previous/next buttons and progress indicator).
+	 * @param container The HTMLElement to append the controls to.
+	 * @param currentIndex The current index of the displayed card.
+	 * @param total The total number of cards.
+	 * @param onNavigate Callback function to navigate to a new card index.
+	 */
+	function renderControls(container: HTMLElement, currentIndex: number, total: number, onNavigate: (newIndex: number) => void) {
+		const controls = container.createDiv({ cls: 'flashcard-controls' });
+
+		const prevButton = controls.createEl('button', { cls: 'flashcard-nav flashy-icon-button' });
+		setIcon(prevButton, 'arrow-left');
+		prevButton.ariaLabel = withKey('Previous card', 'keyPreviousCard');
+		prevButton.disabled = currentIndex === 0;
+		prevButton.addEventListener('click', () => onNavigate(currentIndex - 1));
+
+		const middleContainer = controls.createDiv({ cls: 'flashcard-middle-controls' });
+		if (total > 1) {
+			middleContainer.createEl('span', { text: `${currentIndex + 1} / ${total}`, cls: 'flashcard-progress' });
+		}
+
+		const nextButton = controls.createEl('button', { cls: 'flashcard-nav flashy-icon-button' });
+		setIcon(nextButton, 'arrow-right');
+		nextButton.ariaLabel = withKey('Next card', 'keyNextCard');
+		nextButton.disabled = currentIndex >= total - 1;
+		nextButton.addEventListener('click', () => onNavigate(currentIndex + 1));
+	}
+
+	/**
+	 * Offers to continue a session saved in a previous run of the app, or to start over.
+	 */
+	function renderResumePrompt(state: DeckSessionState) {
+		mainContainer.empty();
+		const promptEl = mainContainer.createDiv({ cls: 'flashcard-summary flashy-resume-prompt' });
+		promptEl.createEl('h3', { text: 'Resume where you left off?' });
+		promptEl.createEl('p', {
+			text: `You answered ${state.stats.answered} of ${state.cardIds.length} cards on ${new Date(state.savedAt).toLocaleString()}.`,
+		});
+
+		const buttonsEl = promptEl.createDiv({ cls: 'flashy-summary-buttons' });
+		const resumeButton = buttonsEl.createEl('button', { text: 'Resume', cls: 'flashcard-reset' });
+		resumeButton.addEventListener('click', () => {
+			host.sessionStates.set(deck.id, { ...state, savedAt: Date.now() });
+			renderCard(currentCardIndex);
+		});
+		const restartButton = buttonsEl.createEl('button', { text: 'Start over', cls: 'flashcard-reset flashy-retry-missed' });
+		restartButton.addEventListener('click', () => {
+			initializeDeck();
+			renderCard(0);
+		});
+	}
+
+	const savedState = host.sessionStates.get(deck.id);
+	if (savedState && restoreSessionState(savedState)) {
+		// Re-renders continue silently; a session from a previous run asks first.
+		if (host.sessionStates.isRestored(deck.id)) renderResumePrompt(savedState);
+		else renderCard(currentCardIndex);
+	} else {
+		initializeDeck();
+		renderCard(0);
+	}
+
+	return child;
+}
@@ -0,0 +1,296 @@
+import { FlashyCardType } from './cards';
+import { CardSource, PropertyNode, parseDeck, splitDeckSource } from './parser';
+
+/**
+ * One card as edited in the creator modal. Every card type has its own fields;
+ * only those of `cardType` are used.
+ */
+export interface ModalCardData {
+	cardType: FlashyCardType;
+	question: string;
+	correctAnswers: string;
+	incorrectAnswers: string;
+	fitbText: string;
+	qaAnswer: string;
+	tfAnswer: boolean;
+	tfExplanation: string;
+	orderItems: string;
+	matchPairs: string;
+
+	bgColor: string;
+	textColor: string;
+	/** The card's other properties as written, e.g. `id=osi reverse`. */
+	properties: string;
+}
+
+/**
+ * A whole deck as edited in the creator modal.
+ */
+export interface ModalDeckData {
+	/** The block's `[[...]]` properties as written, without the brackets. */
+	properties: string;
+	cards: ModalCardData[];
+}
+
+/**
+ * Returns a blank card of the given type for the creator modal.
+ */
+export function createModalCard(cardType: FlashyCardType): ModalCardData {
+	return {
+		cardType,
+		question: '',
+		correctAnswers: '',
+		incorrectAnswers: '',
+		fitbText: '',
+		qaAnswer: '',
+		tfAnswer: true,
+		tfExplanation: '',
+		orderItems: '',
+		matchPairs: '',
+		bgColor: '',
+		textColor: '',
+		properties: '',
+	};
+}
+
+/**
+ * Wraps the source of a deck in a `flashy` code block, with a fence longer than any code block inside it.
+ */
+export function wrapDeckSource(source: string): string {
+	const longest = source.split('\n').reduce((max, line) => {
+		const fence = line.trim().match(/^`{3,}/);
+		return fence ? Math.max(max, fence[0].length) : max;
+	}, 2);
+	const fence = new Array(longest + 2).join('`');
+	return `${fence}flashy\n${source}\n${fence}`;
+}
+
+/**
+ * Writes properties back as they would appear in a property line, quoting values with spaces.
+ */
+export function formatProperties(properties: PropertyNode[]): string {
+	return properties
+		.map(prop => {
+			if (!prop.value) return prop.key;
+			return /\s/.test(prop.value) ? `${prop.key}="${prop.value}"` : `${prop.key}=${prop.value}`;
+		})
+		.join(' ');
+}
+
+/**
+ * Reads one card definition into the fields of the creator modal.
+ * @returns The card's data, or null if the card has syntax errors.
+ */
+function toModalCard(source: CardSource): ModalCardData | null {
+	const body = source.lines.map(line => line.text).join('\n');
+	const parsed = parseDeck(body, '');
+	if (parsed.cards.length === 0 || parsed.diagnostics.some(diagnostic => diagnostic.severity === 'error')) return null;
+
+	const data = createModalCard(parsed.cards[0].type);
+	const others: PropertyNode[] = [];
+	source.properties.forEach(prop => {
+		if (prop.key === 'bg' && prop.value) data.bgColor = prop.value;
+		else if (prop.key === 'color' && prop.value) data.textColor = prop.value;
+		else others.push(prop);
+	});
+	data.properties = formatProperties(others);
+
+	const card = parsed.cards[0];
+	switch (card.type) {
+		case 'multiple-choice':
+			data.question = card.question;
+			data.correctAnswers = card.answers.filter(answer => answer.isCorrect).map(answer => answer.text).join('\n');
+			data.incorrectAnswers = card.answers.filter(answer => !answer.isCorrect).map(answer => answer.text).join('\n');
+			break;
+		case 'fill-in-the-blank':
+			// Keep the text as written: the parsed cards only hold one cloze group each.
+			data.fitbText = body;
+			break;
+		case 'qa':
+			data.question = card.question;
+			data.qaAnswer = card.answer;
+			break;
+		case 'true-false':
+			data.question = card.question;
+			data.tfAnswer = card.answer;
+			data.tfExplanation = card.explanation ?? '';
+			break;
+		case 'ordering':
+			data.question = card.question;
+			data.orderItems = card.items.join('\n');
+			break;
+		case 'matching':
+			data.question = card.question;
+			data.matchPairs = card.pairs.map(pair => `${pair.left} -> ${pair.right}`).join('\n');
+			break;
+	}
+	return data;
+}
+
+/**
+ * Reads the source of a `flashy` block into the fields of the creator modal.
+ * @param source The text between the block's fences.
+ * @returns The deck's data, or null if one of its cards has syntax errors and can't be edited safely.
+ */
+export function parseModalDeck(source: string): ModalDeckData | null {
+	const split = splitDeckSource(source);
+	const cards: ModalCardData[] = [];
+	for (const cardSource of split.cards) {
+		const card = toModalCard(cardSource);
+		if (!card) return null;
+		cards.push(card);
+	}
+	return { properties: formatProperties(split.properties), cards };
+}
+
+/**
+ * A problem with the deck in the creator modal, found before it is written to the note.
+ */
+export interface ModalDeckProblem {
+	/** Index of the card the problem is in, or null if it is in the deck properties. */
+	cardIndex: number | null;
+	severity: 'error' | 'warning';
+	message: string;
+}
+
+/** How each card type is named in the creator modal. */
+export const CARD_TYPE_NAMES: Record<FlashyCardType, string> = {
+	'multiple-choice': 'Multiple choice',
+	'fill-in-the-blank': 'Fill-in-the-blank',
+	'qa': 'Question/answer',
+	'true-false': 'True/false',
+	'ordering': 'Ordering',
+	'matching': 'Matching',
+};
+
+/**
+ * Whether a card has been filled in at all. Blank cards are left out of the written deck.
+ */
+export function hasContent(cardData: ModalCardData): boolean {
+	return cardData.cardType === 'fill-in-the-blank'
+		? cardData.fitbText.trim() !== ''
+		: cardData.question.trim() !== '';
+}
+
+/**
+ * Returns a one-line summary of a card for the creator modal's card list.
+ */
+export function summarizeModalCard(cardData: ModalCardData): string {
+	const text = (cardData.cardType === 'fill-in-the-blank' ? cardData.fitbText : cardData.question).trim().split('\n')[0];
+	return text.length > 40 ? `${text.slice(0, 39)}…` : text;
+}
+
+/**
+ * Writes one card of the creator modal as it appears in a `flashy` block, property line included.
+ */
+export function buildCardSource(cardData: ModalCardData): string {
+	let cardString = '';
+	const props = [];
+	// Colours like `rgb(0, 0, 0)` contain spaces and have to be quoted.
+	const quote = (value: string) => /\s/.test(value.trim()) ? `"${value.trim()}"` : value.trim();
+	if (cardData.bgColor.trim()) props.push(`bg=${quote(cardData.bgColor)}`);
+	if (cardData.textColor.trim()) props.push(`color=${quote(cardData.textColor)}`);
+	if (cardData.properties.trim()) props.push(cardData.properties.trim());
+	if (props.length > 0) {
+		cardString += `[${props.join(' ')}]\n`;
+	}
+
+	switch (cardData.cardType) {
+		case 'multiple-choice': {
+			cardString += `${cardData.question}\n`;
+			const correct = cardData.correctAnswers.split('\n').map(ans => ans.trim()).filter(Boolean).map(ans => `=${ans}`);
+			const incorrect = cardData.incorrectAnswers.split('\n').map(ans => ans.trim()).filter(Boolean);
+			cardString += [...correct, ...incorrect].join('\n');
+			break;
+		}
+		case 'fill-in-the-blank':
+			cardString += cardData.fitbText;
+			break;
+		case 'qa': {
+			// Multi-line answers start on the line after `===` so blank lines and code blocks survive.
+			const answer = cardData.qaAnswer.trim();
+			cardString += answer.includes('\n')
+				? `${cardData.question}\n===\n${answer}`
+				: `${cardData.question}\n===${answer}`;
+			break;
+		}
+		case 'true-false': {
+			cardString += `${cardData.question.trim()} => ${cardData.tfAnswer}`;
+			const explanation = cardData.tfExplanation.trim();
+			if (explanation) cardString += `\n${explanation}`;
+			break;
+		}
+		case 'ordering': {
+			const steps = cardData.orderItems.split('\n').map(step => step.trim()).filter(Boolean);
+			cardString += [cardData.question, ...steps.map((step, index) => `${index + 1}. ${step}`)].join('\n');
+			break;
+		}
+		case 'matching': {
+			const pairs = cardData.matchPairs.split('\n').map(pair => pair.trim()).filter(Boolean);
+			cardString += [cardData.question, ...pairs].join('\n');
+			break;
+		}
+	}
+	return cardString;
+}
+
+/**
+ * Writes the creator modal's cards as the source of a `flashy` block. Cards without a question are left out.
+ */
+export function buildDeckSource(deck: ModalDeckData): string {
+	const cards = deck.cards.filter(hasContent).map(buildCardSource).join('\n---\n');
+	const properties = deck.properties.trim();
+	return properties ? `[[${properties}]]\n${cards}` : cards;
+}
+
+/**
+ * What the creator modal checks beyond the syntax of the block.
+ */
+export interface ModalDeckContext {
+	/** Returns whether a value is a CSS colour. */
+	isValidColor(value: string): boolean;
+	/** Names of the themes defined in the settings. */
+	themeNames: string[];
+}
+
+/**
+ * Checks the deck of the creator modal the way the block will be parsed once written.
+ * Blank cards are skipped, since they are left out of the written deck.
+ * @param deck The deck being edited.
+ * @param context Also checks `bg` and `color` values and the deck's theme, if given.
+ */
+export function validateModalDeck(deck: ModalDeckData, context?: ModalDeckContext): ModalDeckProblem[] {
+	const problems: ModalDeckProblem[] = [];
+	const checkColors = (properties: PropertyNode[], cardIndex: number | null) => {
+		if (!context) return;
+		properties.forEach(prop => {
+			if ((prop.key === 'bg' || prop.key === 'color') && !context.isValidColor(prop.value)) {
+				problems.push({ cardIndex, severity: 'error', message: `\`${prop.key}\` is not a CSS colour: "${prop.value}"` });
+			}
+		});
+	};
+
+	const properties = deck.properties.trim();
+	if (properties) {
+		const parsed = parseDeck(`[[${properties}]]`, '');
+		parsed.diagnostics
+			.forEach(diagnostic => problems.push({ cardIndex: null, severity: diagnostic.severity, message: diagnostic.message }));
+		checkColors(parsed.properties, null);
+		const theme = parsed.options.theme;
+		if (context && theme && !context.themeNames.some(name => name.toLowerCase() === theme.toLowerCase())) {
+			problems.push({ cardIndex: null, severity: 'warning', message: `there is no theme called "${theme}" in the settings` });
+		}
+	}
+	deck.cards.forEach((cardData, index) => {
+		if (!hasContent(cardData)) return;
+		const parsed = parseDeck(buildCardSource(cardData), '');
+		parsed.diagnostics
+			.forEach(diagnostic => problems.push({ cardIndex: index, severity: diagnostic.severity, message: diagnostic.message }));
+		if (parsed.cards.length === 0 && !parsed.diagnostics.some(diagnostic => diagnostic.severity === 'error')) {
+			problems.push({ cardIndex: index, severity: 'error', message: 'no card could be read from these fields' });
+		}
+		const cardProperties = splitDeckSource(buildCardSource(cardData)).cards[0]?.properties ?? [];
+		checkColors(cardProperties, index);
+	});
+	return problems;
+}
@@ -0,0 +1,59 @@
+import { ModalDeckData } from './deckEditing';
+
+/**
+ * Unsaved work of the card creator, kept so closing the modal by accident doesn't lose it.
+ */
+export interface CreatorDraft {
+	deck: ModalDeckData;
+	/** The source of the block being edited, or undefined for a new deck. */
+	source?: string;
+	/** Unix timestamp (ms) of the last change. */
+	savedAt: number;
+}
+
+/**
+ * Persisted drafts, keyed by `new` for a new deck, by `generate:` and the note's path for cards generated
+ * from a note, or by the location of the block being edited.
+ */
+export type DraftData = Record<string, CreatorDraft>;
+
+/**
+ * Keeps the card creator's unsaved drafts until they are inserted, saved or discarded.
+ */
+export class DraftStore {
+	private readonly data: DraftData;
+	private readonly onChange: () => void;
+
+	/**
+	 * Creates an instance of DraftStore.
+	 * @param data The persisted drafts, modified in place.
+	 * @param onChange Called whenever a draft changes and should be saved.
+	 */
+	constructor(data: DraftData, onChange: () => void) {
+		this.data = data;
+		this.onChange = onChange;
+	}
+
+	/** Returns the draft stored under a key, if any. */
+	get(key: string): CreatorDraft | undefined {
+		return this.data[key];
+	}
+
+	/** Stores a draft, replacing the previous one under the same key. */
+	set(key: string, draft: CreatorDraft) {
+		this.data[key] = draft;
+		this.onChange();
+	}
+
+	/** Forgets a draft, e.g. because it was inserted or discarded. */
+	delete(key: string) {
+		if (!this.data[key]) return;
+		delete this.data[key];
+		this.onChange();
+	}
+
+	/** Returns the drafts to persist. */
+	getData(): DraftData {
+		return this.data;
+	}
+}
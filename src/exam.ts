@@ -0,0 +1,184 @@
+import { Flashcard } from './cards';
+import { AnswerMatchOptions, displayAnswer, getAlternatives, matchAnswer } from './matching';
+
+/**
+ * What the user put down for one card during an exam. The shape depends on the card type.
+ */
+export type ExamAnswer =
+	| { type: 'multiple-choice'; selected: number[] }
+	| { type: 'fill-in-the-blank'; texts: string[] }
+	| { type: 'qa'; text: string }
+	| { type: 'true-false'; value: boolean }
+	/** The index in the card's items of the item picked for each position, -1 where none was picked yet. */
+	| { type: 'ordering'; order: number[] }
+	/** The right-hand side picked for each pair, '' where none was picked yet. */
+	| { type: 'matching'; rights: string[] };
+
+/**
+ * How one question of an exam went. Q&A answers can't be checked automatically,
+ * so they are `ungraded` and left out of the score.
+ */
+export type ExamResultKind = 'correct' | 'incorrect' | 'unanswered' | 'ungraded';
+
+/** How each kind of result is labelled in the report. */
+export const EXAM_RESULT_LABELS: Record<ExamResultKind, string> = {
+	correct: 'Correct',
+	incorrect: 'Wrong',
+	unanswered: 'Not answered',
+	ungraded: 'Check yourself',
+};
+
+/**
+ * One question of the exam report: the user's answer next to the correct one.
+ */
+export interface ExamResult {
+	card: Flashcard;
+	result: ExamResultKind;
+	/** The user's answer as markdown, empty if unanswered. */
+	given: string;
+	/** The correct answer as markdown. */
+	expected: string;
+	/** Time (ms) spent on the question. */
+	durationMs: number;
+}
+
+/**
+ * The graded outcome of a whole exam.
+ */
+export interface ExamReport {
+	deckName: string;
+	startedAt: number;
+	finishedAt: number;
+	/** The deck's time limit (seconds), if it had one. */
+	duration?: number;
+	results: ExamResult[];
+}
+
+/**
+ * Returns whether an answer has been filled in enough to be graded.
+ */
+export function isAnswered(answer: ExamAnswer | undefined): boolean {
+	if (!answer) return false;
+	switch (answer.type) {
+		case 'multiple-choice':
+			return answer.selected.length > 0;
+		case 'fill-in-the-blank':
+			return answer.texts.some(text => text.trim().length > 0);
+		case 'qa':
+			return answer.text.trim().length > 0;
+		case 'true-false':
+			return true;
+		case 'ordering':
+			return answer.order.some(item => item !== -1);
+		case 'matching':
+			return answer.rights.some(right => right !== '');
+	}
+}
+
+/**
+ * Returns the correct answer of a card as markdown.
+ */
+export function describeExpected(card: Flashcard): string {
+	switch (card.type) {
+		case 'multiple-choice':
+			return card.answers.filter(answer => answer.isCorrect).map(answer => answer.text).join('; ');
+		case 'fill-in-the-blank':
+			return card.answers.map(answer => getAlternatives(answer).length > 1 ? getAlternatives(answer).join(' / ') : displayAnswer(answer)).join('; ');
+		case 'qa':
+			return card.answer;
+		case 'true-false':
+			return card.answer ? 'True' : 'False';
+		case 'ordering':
+			return card.items.map((item, index) => `${index + 1}. ${item}`).join('; ');
+		case 'matching':
+			return card.pairs.map(pair => `${pair.left} → ${pair.right}`).join('; ');
+	}
+}
+
+/**
+ * Grades one exam answer.
+ * @param card The card the answer is for.
+ * @param answer The user's answer, if they gave one.
+ * @param matchOptions How strictly typed answers are compared; the card's own overrides are applied on top.
+ * @param durationMs Time spent on the question.
+ */
+export function gradeExamAnswer(card: Flashcard, answer: ExamAnswer | undefined, matchOptions: AnswerMatchOptions, durationMs: number): ExamResult {
+	const expected = describeExpected(card);
+	if (!answer || !isAnswered(answer) || answer.type !== card.type) {
+		return { card, result: 'unanswered', given: '', expected, durationMs };
+	}
+
+	let given: string;
+	let correct: boolean;
+	if (card.type === 'multiple-choice' && answer.type === 'multiple-choice') {
+		given = answer.selected.map(index => card.answers[index].text).join('; ');
+		const correctIndexes = card.answers.map((choice, index) => choice.isCorrect ? index : -1).filter(index => index !== -1);
+		correct = answer.selected.length === correctIndexes.length && correctIndexes.every(index => answer.selected.includes(index));
+	} else if (card.type === 'fill-in-the-blank' && answer.type === 'fill-in-the-blank') {
+		given = answer.texts.map(text => text.trim() || '–').join('; ');
+		const options = { ...matchOptions, ...card.matching };
+		correct = card.answers.every((expectedAnswer, index) => matchAnswer(answer.texts[index] ?? '', expectedAnswer, options).result !== 'incorrect');
+	} else if (card.type === 'qa' && answer.type === 'qa') {
+		return { card, result: 'ungraded', given: answer.text.trim(), expected, durationMs };
+	} else if (card.type === 'true-false' && answer.type === 'true-false') {
+		given = answer.value ? 'True' : 'False';
+		correct = answer.value === card.answer;
+	} else if (card.type === 'ordering' && answer.type === 'ordering') {
+		given = answer.order.map((item, index) => `${index + 1}. ${item === -1 ? '–' : card.items[item]}`).join('; ');
+		// Compared by text, so items written the same way may be swapped.
+		correct = card.items.every((item, index) => answer.order[index] !== -1 && card.items[answer.order[index]] === item);
+	} else if (card.type === 'matching' && answer.type === 'matching') {
+		given = card.pairs.map((pair, index) => `${pair.left} → ${answer.rights[index] || '–'}`).join('; ');
+		correct = card.pairs.every((pair, index) => answer.rights[index] === pair.right);
+	} else {
+		return { card, result: 'unanswered', given: '', expected, durationMs };
+	}
+	return { card, result: correct ? 'correct' : 'incorrect', given, expected, durationMs };
+}
+
+/**
+ * Counts the graded questions of a report and how many of them were answered correctly.
+ * Unanswered questions count as wrong; ungraded ones are left out.
+ */
+export function getExamScore(report: ExamReport): { correct: number; graded: number } {
+	const graded = report.results.filter(result => result.result !== 'ungraded');
+	return { correct: graded.filter(result => result.result === 'correct').length, graded: graded.length };
+}
+
+/**
+ * Formats a duration as `m:ss`.
+ */
+export function formatDuration(ms: number): string {
+	const seconds = Math.max(0, Math.round(ms / 1000));
+	return `${Math.floor(seconds / 60)}:${`0${seconds % 60}`.slice(-2)}`;
+}
+
+/**
+ * Writes an exam report as a markdown note.
+ */
+export function examReportToMarkdown(report: ExamReport): string {
+	const { correct, graded } = getExamScore(report);
+	// Answers are written on one line, so keep multi-line ones from breaking the list.
+	const oneLine = (text: string) => text.replace(/\s*\n\s*/g, ' ');
+	const lines = [
+		`# Exam report: ${report.deckName}`,
+		'',
+		`- **Date:** ${new Date(report.finishedAt).toLocaleString()}`,
+		`- **Score:** ${correct} / ${graded} (${graded > 0 ? Math.round(correct / graded * 100) : 0}%)`,
+		`- **Time:** ${formatDuration(report.finishedAt - report.startedAt)}${report.duration ? ` of ${formatDuration(report.duration * 1000)}` : ''}`,
+	];
+	report.results.forEach((result, index) => {
+		lines.push(
+			'',
+			`## ${index + 1}. ${EXAM_RESULT_LABELS[result.result]}`,
+			'',
+			// Escape the `___` of blanks so they don't read as emphasis.
+			result.card.type === 'fill-in-the-blank' ? result.card.question.replace(/___/g, '\\_\\_\\_') : result.card.question,
+			'',
+			`- **Your answer:** ${result.given ? oneLine(result.given) : '–'}`,
+			`- **Correct answer:** ${oneLine(result.expected)}`,
+			`- **Source:** [[${result.card.sourcePath.replace(/\.md$/, '')}]]`,
+		);
+	});
+	return `${lines.join('\n')}\n`;
+}
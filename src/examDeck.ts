@@ -0,0 +1,504 @@
+import { App, Component, DropdownComponent, MarkdownRenderChild, Notice, TextAreaComponent, TextComponent, TFile, setIcon } from 'obsidian';
+import { Flashcard, FillInTheBlankCard, MatchingCard, MultipleChoiceCard, OrderingCard, QACard, TrueFalseCard } from './cards';
+import {
+	DeckHost,
+	fisherYatesShuffle,
+	getQuestionMarkdown,
+	renderCardMarkdownOrText,
+	renderDeckHeader,
+	separateSiblings,
+	setChoiceChecked,
+	setupChoiceGroup
+} from './deck';
+import { applyTheme, findTheme } from './themes';
+import {
+	ExamAnswer,
+	ExamReport,
+	EXAM_RESULT_LABELS,
+	examReportToMarkdown,
+	formatDuration,
+	getExamScore,
+	gradeExamAnswer,
+	isAnswered
+} from './exam';
+import { getAvailablePath } from './ankiTransfer';
+import { DeckOptions } from './parser';
+import { getMatchOptions } from './settings';
+import { DeckInfo, SessionRecord, dayKey } from './stats';
+
+/**
+ * Everything about an exam in progress.
+ */
+interface ExamState {
+	cards: Flashcard[];
+	answers: Map<string, ExamAnswer>;
+	/** Time (ms) spent on each card so far, by card ID. */
+	spentMs: Map<string, number>;
+	/** Cards whose own `timer` ran out; their answers can no longer be changed. */
+	locked: Set<string>;
+	/** The order choices, items or right-hand sides are shown in, by card ID. */
+	orders: Map<string, number[]>;
+	currentIndex: number;
+	startedAt: number;
+	report: ExamReport | null;
+}
+
+/** Exams in progress by deck ID, so re-rendering a block (e.g. scrolling in live preview) doesn't end them. */
+const runningExams = new Map<string, ExamState>();
+
+/**
+ * Renders a deck in exam mode: no feedback while answering, answers can be changed until the
+ * exam is finished, and an optional countdown per card (`timer`) and per deck (`duration`).
+ * Finishing grades everything at once and shows a report that can be saved as a note.
+ * @param host The plugin, providing settings and review history.
+ * @param el The element to render the exam into.
+ * @param allCards The cards making up the deck. Must not be empty.
+ * @param deck Identifies the deck in the saved session statistics.
+ * @param options The block's options, merged with its note's frontmatter.
+ * @returns The child component owning the exam's timers; add it to the caller's lifecycle.
+ */
+export function renderExam(host: DeckHost, el: HTMLElement, allCards: Flashcard[], deck: DeckInfo, options: DeckOptions): MarkdownRenderChild {
+	applyTheme(el, findTheme(host.settings.themes, options.theme ?? host.settings.defaultTheme));
+	if (options.title || options.description || options.tags) renderDeckHeader(el, options);
+	const mainContainer = el.createDiv({ cls: 'flashcard-container flashy-exam' });
+	const child = new MarkdownRenderChild(mainContainer);
+
+	let state = runningExams.get(deck.id) ?? null;
+	let ticker: number | null = null;
+	// When the current card was shown, to add the time spent on it once the user moves on.
+	let shownAt = 0;
+	let countdownEl: HTMLElement | null = null;
+
+	let cardComponent: Component | null = null;
+	function resetCardComponent(): Component {
+		if (cardComponent) child.removeChild(cardComponent);
+		cardComponent = child.addChild(new Component());
+		return cardComponent;
+	}
+
+	function renderMarkdown(markdown: string, targetEl: HTMLElement, card: Flashcard, inline = false) {
+		renderCardMarkdownOrText(host.app, markdown, targetEl, card.sourcePath, cardComponent ?? resetCardComponent(), deck.name, inline);
+	}
+
+	child.register(() => {
+		stopTicker();
+		// Keep the time spent so far if the exam is picked up again after a re-render.
+		if (state && !state.report) addSpentTime();
+	});
+
+	/**
+	 * Starts a new exam with the deck's cards, shuffled and limited like a practice session.
+	 */
+	function startExam() {
+		let cards = (options.shuffleCards ?? host.settings.shuffleCards) ? separateSiblings(fisherYatesShuffle(allCards)) : [...allCards];
+		if (options.limit) cards = cards.slice(0, options.limit);
+
+		const orders = new Map<string, number[]>();
+		const shuffled = (length: number) => fisherYatesShuffle(Array.from({ length }, (_, index) => index));
+		cards.forEach(card => {
+			if (card.type === 'multiple-choice') {
+				const order = card.answers.map((_, index) => index);
+				orders.set(card.id, (card.shuffleAnswers ?? host.settings.shuffleAnswers) ? fisherYatesShuffle(order) : order);
+			} else if (card.type === 'ordering') {
+				orders.set(card.id, shuffled(card.items.length));
+			} else if (card.type === 'matching') {
+				orders.set(card.id, shuffled(card.pairs.length));
+			}
+		});
+
+		state = { cards, answers: new Map(), spentMs: new Map(), locked: new Set(), orders, currentIndex: 0, startedAt: Date.now(), report: null };
+		runningExams.set(deck.id, state);
+		renderQuestion(0);
+	}
+
+	/** Adds the time since the current card was shown to its total. */
+	function addSpentTime() {
+		if (!state || shownAt === 0) return;
+		const card = state.cards[state.currentIndex];
+		state.spentMs.set(card.id, (state.spentMs.get(card.id) ?? 0) + Date.now() - shownAt);
+		shownAt = Date.now();
+	}
+
+	/** Returns how long (ms) the user has spent on a card, the current visit included. */
+	function getSpentTime(card: Flashcard): number {
+		const spent = state?.spentMs.get(card.id) ?? 0;
+		const isCurrent = state && state.cards[state.currentIndex] === card;
+		return isCurrent && shownAt > 0 ? spent + Date.now() - shownAt : spent;
+	}
+
+	function stopTicker() {
+		if (ticker !== null) window.clearInterval(ticker);
+		ticker = null;
+	}
+
+	/**
+	 * Updates the countdowns, locking the current card when its own time runs out
+	 * and finishing the exam when the deck's time does.
+	 */
+	function tick() {
+		if (!state || state.report) return;
+		const exam = state;
+		const parts: string[] = [];
+		if (options.duration) {
+			const left = exam.startedAt + options.duration * 1000 - Date.now();
+			if (left <= 0) {
+				finishExam();
+				return;
+			}
+			parts.push(`Exam: ${formatDuration(left)}`);
+		}
+		const card = exam.cards[exam.currentIndex];
+		if (card.timer && !exam.locked.has(card.id)) {
+			const left = card.timer * 1000 - getSpentTime(card);
+			if (left <= 0) {
+				addSpentTime();
+				exam.locked.add(card.id);
+				const next = exam.cards.findIndex((other, index) => index > exam.currentIndex && !exam.locked.has(other.id));
+				renderQuestion(next === -1 ? exam.currentIndex : next);
+				return;
+			}
+			parts.push(`Question: ${formatDuration(left)}`);
+		}
+		countdownEl?.setText(parts.join(' · '));
+	}
+
+	/**
+	 * Renders one question of the exam with its answer inputs, the question palette and the navigation.
+	 * @param index The position of the card in the exam.
+	 */
+	function renderQuestion(index: number) {
+		if (!state) return;
+		addSpentTime();
+		state.currentIndex = index;
+		shownAt = Date.now();
+		resetCardComponent();
+		mainContainer.empty();
+		const card = state.cards[index];
+		const locked = state.locked.has(card.id);
+
+		const header = mainContainer.createDiv({ cls: 'flashcard-header' });
+		const titleContainer = header.createDiv();
+		renderMarkdown(getQuestionMarkdown(card), titleContainer.createDiv({ cls: 'flashcard-question' }), card);
+		titleContainer.createEl('span', { text: `Question ${index + 1} of ${state.cards.length}`, cls: 'flashcard-due-badge' });
+		countdownEl = titleContainer.createEl('span', { cls: 'flashcard-due-badge flashy-timer' });
+
+		const body = mainContainer.createDiv({ cls: 'flashcard-body' });
+		switch (card.type) {
+			case 'multiple-choice':
+				renderMultipleChoiceInput(body, card);
+				break;
+			case 'fill-in-the-blank':
+				renderFillInTheBlankInput(body, card);
+				break;
+			case 'qa':
+				renderQAInput(body, card);
+				break;
+			case 'true-false':
+				renderTrueFalseInput(body, card);
+				break;
+			case 'ordering':
+				renderOrderingInput(body, card);
+				break;
+			case 'matching':
+				renderMatchingInput(body, card);
+				break;
+		}
+		if (locked) {
+			body.querySelectorAll<HTMLButtonElement | HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>('button, input, textarea, select')
+				.forEach(control => control.disabled = true);
+			body.createEl('p', { text: "Time's up for this question.", cls: 'flashcard-feedback incorrect' });
+		}
+
+		renderPalette(mainContainer);
+		renderExamControls(mainContainer);
+
+		stopTicker();
+		tick();
+		ticker = window.setInterval(tick, 500);
+	}
+
+	/** Stores the answer to the current card and marks it as answered in the palette. */
+	function setAnswer(card: Flashcard, answer: ExamAnswer) {
+		if (!state) return;
+		state.answers.set(card.id, answer);
+		const button = mainContainer.querySelector(`.flashy-exam-palette button:nth-child(${state.currentIndex + 1})`);
+		button?.toggleClass('is-answered', isAnswered(answer));
+	}
+
+	function renderMultipleChoiceInput(container: HTMLElement, card: MultipleChoiceCard) {
+		const multiple = card.answers.filter(answer => answer.isCorrect).length > 1;
+		if (multiple) container.createEl('p', { text: 'Select all that apply.', cls: 'flashy-exam-hint' });
+		const buttonsContainer = container.createDiv({ cls: 'flashcard-buttons' });
+		setupChoiceGroup(buttonsContainer, multiple ? 'Answers, select all that apply' : 'Answers', multiple);
+		const previous = state?.answers.get(card.id);
+		let selected = previous?.type === 'multiple-choice' ? [...previous.selected] : [];
+		const buttons = new Map<number, HTMLButtonElement>();
+		(state?.orders.get(card.id) ?? card.answers.map((_, index) => index)).forEach(answerIndex => {
+			const button = buttonsContainer.createEl('button', { cls: 'flashcard-answer' });
+			renderMarkdown(card.answers[answerIndex].text, button.createDiv({ cls: 'flashcard-answer-content' }), card, true);
+			button.toggleClass('is-selected', selected.includes(answerIndex));
+			setChoiceChecked(button, multiple, selected.includes(answerIndex));
+			buttons.set(answerIndex, button);
+			button.addEventListener('click', () => {
+				if (selected.includes(answerIndex)) selected = selected.filter(index => index !== answerIndex);
+				else selected = multiple ? selected.concat(answerIndex) : [answerIndex];
+				buttons.forEach((other, index) => {
+					other.toggleClass('is-selected', selected.includes(index));
+					setChoiceChecked(other, multiple, selected.includes(index));
+				});
+				setAnswer(card, { type: 'multiple-choice', selected });
+			});
+		});
+	}
+
+	function renderFillInTheBlankInput(container: HTMLElement, card: FillInTheBlankCard) {
+		const previous = state?.answers.get(card.id);
+		const texts = previous?.type === 'fill-in-the-blank' ? [...previous.texts] : card.answers.map(() => '');
+		const multiple = card.answers.length > 1;
+		const blanksContainer = container.createDiv({ cls: 'flashcard-fill-container' }).createDiv({ cls: 'flashcard-fill-blanks' });
+		card.answers.forEach((_, index) => {
+			const row = blanksContainer.createDiv({ cls: 'flashcard-fill-row' });
+			if (multiple) row.createSpan({ text: `${index + 1}`, cls: 'flashcard-fill-label' });
+			const input = new TextComponent(row)
+				.setPlaceholder(multiple ? `Blank ${index + 1}` : 'Type your answer...')
+				.setValue(texts[index])
+				.onChange(value => {
+					texts[index] = value;
+					setAnswer(card, { type: 'fill-in-the-blank', texts: [...texts] });
+				});
+			input.inputEl.addClass('flashcard-fill-input');
+		});
+	}
+
+	function renderQAInput(container: HTMLElement, card: QACard) {
+		const previous = state?.answers.get(card.id);
+		const textArea = new TextAreaComponent(container)
+			.setPlaceholder('Write your answer. You check it yourself against the correct one in the report.')
+			.setValue(previous?.type === 'qa' ? previous.text : '')
+			.onChange(text => setAnswer(card, { type: 'qa', text }));
+		textArea.inputEl.addClass('flashy-exam-textarea');
+	}
+
+	function renderTrueFalseInput(container: HTMLElement, card: TrueFalseCard) {
+		const buttonsContainer = container.createDiv({ cls: 'flashcard-buttons flashy-true-false' });
+		setupChoiceGroup(buttonsContainer, 'True or false', false);
+		const previous = state?.answers.get(card.id);
+		const buttons = [true, false].map(value => {
+			const button = buttonsContainer.createEl('button', { text: value ? 'True' : 'False', cls: 'flashcard-answer' });
+			button.toggleClass('is-selected', previous?.type === 'true-false' && previous.value === value);
+			setChoiceChecked(button, false, previous?.type === 'true-false' && previous.value === value);
+			button.addEventListener('click', () => {
+				buttons.forEach(other => {
+					other.toggleClass('is-selected', other === button);
+					setChoiceChecked(other, false, other === button);
+				});
+				setAnswer(card, { type: 'true-false', value });
+			});
+			return button;
+		});
+	}
+
+	function renderOrderingInput(container: HTMLElement, card: OrderingCard) {
+		const previous = state?.answers.get(card.id);
+		const order = previous?.type === 'ordering' ? [...previous.order] : card.items.map(() => -1);
+		// Options are keyed by the item's index, as two items may read the same.
+		const choices = state?.orders.get(card.id) ?? card.items.map((_, index) => index);
+		const grid = container.createDiv({ cls: 'flashy-matching-grid' });
+		card.items.forEach((_, position) => {
+			const row = grid.createDiv({ cls: 'flashy-matching-row' });
+			row.createDiv({ text: `${position + 1}.`, cls: 'flashy-matching-left' });
+			const dropdown = new DropdownComponent(row).addOption('', 'Choose…');
+			choices.forEach(index => dropdown.addOption(String(index), card.items[index]));
+			dropdown.setValue(order[position] === -1 ? '' : String(order[position])).onChange(value => {
+				order[position] = value === '' ? -1 : Number(value);
+				setAnswer(card, { type: 'ordering', order: [...order] });
+			});
+		});
+	}
+
+	function renderMatchingInput(container: HTMLElement, card: MatchingCard) {
+		const previous = state?.answers.get(card.id);
+		const rights = previous?.type === 'matching' ? [...previous.rights] : card.pairs.map(() => '');
+		const choices = (state?.orders.get(card.id) ?? card.pairs.map((_, index) => index)).map(index => card.pairs[index].right);
+		const grid = container.createDiv({ cls: 'flashy-matching-grid' });
+		card.pairs.forEach((pair, index) => {
+			const row = grid.createDiv({ cls: 'flashy-matching-row' });
+			renderMarkdown(pair.left, row.createDiv({ cls: 'flashy-matching-left' }), card, true);
+			const dropdown = new DropdownComponent(row).addOption('', 'Choose…');
+			choices.forEach(right => dropdown.addOption(right, right));
+			dropdown.setValue(rights[index]).onChange(value => {
+				rights[index] = value;
+				setAnswer(card, { type: 'matching', rights: [...rights] });
+			});
+		});
+	}
+
+	/**
+	 * Renders one button per question to jump to it, marking the answered ones.
+	 */
+	function renderPalette(container: HTMLElement) {
+		if (!state) return;
+		const palette = container.createDiv({ cls: 'flashy-exam-palette' });
+		state.cards.forEach((card, index) => {
+			const button = palette.createEl('button', { text: String(index + 1) });
+			button.toggleClass('is-current', index === state?.currentIndex);
+			button.toggleClass('is-answered', isAnswered(state?.answers.get(card.id)));
+			button.toggleClass('is-locked', state?.locked.has(card.id) ?? false);
+			button.addEventListener('click', () => renderQuestion(index));
+		});
+	}
+
+	/**
+	 * Renders the previous/next buttons and the button finishing the exam. Finishing with
+	 * unanswered questions asks for a second click.
+	 */
+	function renderExamControls(container: HTMLElement) {
+		if (!state) return;
+		const exam = state;
+		const controls = container.createDiv({ cls: 'flashcard-controls' });
+
+		const prevButton = controls.createEl('button', { cls: 'flashcard-nav flashy-icon-button' });
+		setIcon(prevButton, 'arrow-left');
+		prevButton.ariaLabel = 'Previous question';
+		prevButton.disabled = exam.currentIndex === 0;
+		prevButton.addEventListener('click', () => renderQuestion(exam.currentIndex - 1));
+
+		const middleContainer = controls.createDiv({ cls: 'flashcard-middle-controls' });
+		const finishButton = middleContainer.createEl('button', { text: 'Finish exam', cls: 'mod-cta' });
+		let confirming = false;
+		finishButton.addEventListener('click', () => {
+			const unanswered = exam.cards.filter(card => !isAnswered(exam.answers.get(card.id))).length;
+			if (unanswered > 0 && !confirming) {
+				confirming = true;
+				finishButton.setText(`Finish with ${unanswered} unanswered`);
+				return;
+			}
+			finishExam();
+		});
+
+		const nextButton = controls.createEl('button', { cls: 'flashcard-nav flashy-icon-button' });
+		setIcon(nextButton, 'arrow-right');
+		nextButton.ariaLabel = 'Next question';
+		nextButton.disabled = exam.currentIndex >= exam.cards.length - 1;
+		nextButton.addEventListener('click', () => renderQuestion(exam.currentIndex + 1));
+	}
+
+	/**
+	 * Grades every answer, records the reviews and the session, and shows the report.
+	 */
+	async function finishExam() {
+		if (!state || state.report) return;
+		stopTicker();
+		addSpentTime();
+		const exam = state;
+		const matchOptions = getMatchOptions(host.settings);
+		exam.report = {
+			deckName: deck.name,
+			startedAt: exam.startedAt,
+			finishedAt: Date.now(),
+			duration: options.duration,
+			results: exam.cards.map(card => gradeExamAnswer(card, exam.answers.get(card.id), matchOptions, exam.spentMs.get(card.id) ?? 0)),
+		};
+		renderReport(exam.report);
+
+		const graded = exam.report.results.filter(result => result.result !== 'ungraded');
+		const session: SessionRecord = {
+			deckId: deck.id,
+			deckName: deck.name,
+			sourcePath: deck.sourcePath,
+			startedAt: exam.startedAt,
+			finishedAt: exam.report.finishedAt,
+			outcomes: graded.map(result => ({
+				cardId: result.card.id,
+				grade: result.result === 'correct' ? 'good' : 'again',
+				durationMs: result.durationMs,
+			})),
+		};
+		// The report is already shown, so a failed save only needs to be reported.
+		try {
+			await host.recordReviews(graded.map(result => ({ cardId: result.card.id, grade: result.result === 'correct' ? 'good' : 'again' })));
+			if (session.outcomes.length > 0) await host.recordSession(session);
+		} catch (error) {
+			new Notice(`Couldn't save the exam results: ${error instanceof Error ? error.message : error}`);
+		}
+	}
+
+	/**
+	 * Renders the graded report: the score, then every question with the given and the correct answer.
+	 */
+	function renderReport(report: ExamReport) {
+		resetCardComponent();
+		mainContainer.empty();
+		const { correct, graded } = getExamScore(report);
+		const summaryEl = mainContainer.createDiv({ cls: 'flashcard-summary' });
+		summaryEl.createEl('h3', { text: 'Exam finished' });
+		summaryEl.createEl('p', { text: `Score: ${correct} / ${graded} (${graded > 0 ? Math.round(correct / graded * 100) : 0}%)` });
+		const time = formatDuration(report.finishedAt - report.startedAt);
+		summaryEl.createEl('p', { text: report.duration ? `Time: ${time} of ${formatDuration(report.duration * 1000)}` : `Time: ${time}` });
+
+		const list = mainContainer.createEl('ol', { cls: 'flashy-exam-report' });
+		report.results.forEach(result => {
+			const item = list.createEl('li', { cls: `flashy-exam-result ${result.result}` });
+			item.createSpan({ text: EXAM_RESULT_LABELS[result.result], cls: 'flashy-exam-result-label' });
+			renderMarkdown(getQuestionMarkdown(result.card), item.createDiv({ cls: 'flashy-exam-question' }), result.card);
+			const givenEl = item.createDiv({ cls: 'flashy-exam-answer' });
+			givenEl.createSpan({ text: 'Your answer: ', cls: 'flashy-stats-muted' });
+			if (result.given) renderMarkdown(result.given, givenEl.createSpan(), result.card, true);
+			else givenEl.appendText('–');
+			if (result.result === 'correct') return;
+			const expectedEl = item.createDiv({ cls: 'flashy-exam-answer' });
+			expectedEl.createSpan({ text: 'Correct answer: ', cls: 'flashy-stats-muted' });
+			renderMarkdown(result.expected, expectedEl.createSpan(), result.card, true);
+		});
+
+		const buttonsEl = mainContainer.createDiv({ cls: 'flashy-summary-buttons' });
+		const saveButton = buttonsEl.createEl('button', { text: 'Save report as note', cls: 'flashcard-reset' });
+		saveButton.addEventListener('click', async () => {
+			saveButton.disabled = true;
+			try {
+				const file = await saveExamReport(host.app, report, deck.sourcePath ?? '');
+				new Notice(`Saved the exam report to ${file.path}.`);
+				await host.app.workspace.getLeaf(true).openFile(file);
+			} catch (error) {
+				saveButton.disabled = false;
+				new Notice(`Couldn't save the exam report: ${error instanceof Error ? error.message : error}`);
+			}
+		});
+		const retakeButton = buttonsEl.createEl('button', { text: 'Retake exam', cls: 'flashcard-reset flashy-retry-missed' });
+		retakeButton.addEventListener('click', () => startExam());
+	}
+
+	/**
+	 * Shows what the exam is about before starting the clock.
+	 */
+	function renderIntro() {
+		mainContainer.empty();
+		const introEl = mainContainer.createDiv({ cls: 'flashcard-summary' });
+		introEl.createEl('h3', { text: 'Exam' });
+		const count = options.limit ? Math.min(options.limit, allCards.length) : allCards.length;
+		const details = [`${count} ${count === 1 ? 'question' : 'questions'}`];
+		if (options.duration) details.push(`${formatDuration(options.duration * 1000)} to finish`);
+		if (allCards.some(card => card.timer)) details.push('some questions have their own time limit');
+		introEl.createEl('p', { text: `${details.join(', ')}. You see your results once you finish, and can change your answers until then.` });
+		const startButton = introEl.createDiv({ cls: 'flashy-summary-buttons' }).createEl('button', { text: 'Start exam', cls: 'mod-cta' });
+		startButton.addEventListener('click', () => startExam());
+	}
+
+	if (state?.report) renderReport(state.report);
+	else if (state && state.cards.every(card => allCards.some(other => other.id === card.id))) renderQuestion(state.currentIndex);
+	else renderIntro();
+
+	return child;
+}
+
+/**
+ * Saves an exam report as a new note next to the deck's note.
+ * @param app The Obsidian App instance.
+ * @param report The graded exam.
+ * @param sourcePath The note the deck comes from, used to pick the folder.
+ */
+async function saveExamReport(app: App, report: ExamReport, sourcePath: string): Promise<TFile> {
+	const folder = app.fileManager.getNewFileParent(sourcePath).path;
+	const name = `${report.deckName.replace(/[\\/:*?"<>|#^[\]]/g, '-')} exam ${dayKey(report.finishedAt)}`;
+	return app.vault.create(getAvailablePath(app, folder === '/' ? '' : folder, name, 'md'), examReportToMarkdown(report));
+}
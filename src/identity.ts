@@ -0,0 +1,248 @@
+import type { Flashcard } from './cards';
+
+/**
+ * Hashes a string into a short, stable, base-36 identifier (cyrb53).
+ * Not cryptographic; only used to derive card IDs from their content.
+ * @param input The string to hash.
+ */
+export function hashString(input: string): string {
+	let h1 = 0xdeadbeef;
+	let h2 = 0x41c6ce57;
+	for (let i = 0; i < input.length; i++) {
+		const ch = input.charCodeAt(i);
+		h1 = Math.imul(h1 ^ ch, 2654435761);
+		h2 = Math.imul(h2 ^ ch, 1597334677);
+	}
+	h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+	h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+	return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36);
+}
+
+/**
+ * Derives a card ID from the note it lives in and its content.
+ * @param sourcePath The path of the note containing the card.
+ * @param fingerprint A normalized representation of the card's content.
+ */
+export function createCardId(sourcePath: string, fingerprint: string): string {
+	return hashString(`${sourcePath}\n${fingerprint}`);
+}
+
+/**
+ * Builds a normalized representation of a card's content, used to derive its ID.
+ * @param card The parsed flashcard.
+ */
+export function getCardFingerprint(card: Flashcard): string {
+	const parts: string[] = [card.type, card.question.trim()];
+	if (card.type === 'multiple-choice') {
+		parts.push(...card.answers.map(answer => `${answer.isCorrect ? '=' : ''}${answer.text.trim()}`));
+	} else if (card.type === 'fill-in-the-blank') {
+		parts.push(...card.answers.map(answer => answer.trim()));
+		if (card.group !== undefined) parts.push(`c${card.group}`);
+	} else if (card.type === 'true-false') {
+		parts.push(String(card.answer));
+	} else if (card.type === 'ordering') {
+		parts.push(...card.items.map(item => item.trim()));
+	} else if (card.type === 'matching') {
+		parts.push(...card.pairs.map(pair => `${pair.left.trim()} -> ${pair.right.trim()}`));
+	} else {
+		parts.push(card.answer.trim());
+		if (card.reversed) parts.push('reversed');
+	}
+	return parts.join('\n').toLowerCase();
+}
+
+/**
+ * A card the registry has seen in a note, with the fingerprint it had at the time.
+ */
+export interface KnownCard {
+	id: string;
+	fingerprint: string;
+	/** Unix timestamp (ms) of when the card was first seen. */
+	createdAt: number;
+	/** Unix timestamp (ms) of the last time the card's content was edited. */
+	modifiedAt?: number;
+}
+
+/**
+ * Persisted identity registry: the known cards of every note, keyed by note path.
+ */
+export type IdentityRegistryData = Record<string, KnownCard[]>;
+
+/**
+ * How a card relates to what the registry knew about its note.
+ */
+export type IdentityStatus = 'new' | 'modified' | 'unchanged';
+
+/** Minimum fingerprint similarity for an edited card to keep its previous ID. */
+const FUZZY_MATCH_THRESHOLD = 0.6;
+
+/**
+ * Computes the Sørensen–Dice coefficient of two strings over their character bigrams.
+ * Returns a value between 0 (nothing in common) and 1 (identical).
+ */
+export function stringSimilarity(a: string, b: string): number {
+	if (a === b) return 1;
+	if (a.length < 2 || b.length < 2) return 0;
+
+	const bigrams = new Map<string, number>();
+	for (let i = 0; i < a.length - 1; i++) {
+		const bigram = a.substring(i, i + 2);
+		bigrams.set(bigram, (bigrams.get(bigram) ?? 0) + 1);
+	}
+
+	let overlap = 0;
+	for (let i = 0; i < b.length - 1; i++) {
+		const bigram = b.substring(i, i + 2);
+		const count = bigrams.get(bigram) ?? 0;
+		if (count > 0) {
+			bigrams.set(bigram, count - 1);
+			overlap++;
+		}
+	}
+	return (2 * overlap) / (a.length + b.length - 2);
+}
+
+/**
+ * Matches parsed cards against the known cards of their note and assigns each one an ID.
+ * Cards are matched by pinned `id=` property first, then by identical content, then by
+ * the most similar remaining known card; anything left over gets a fresh content-derived ID.
+ * @param sourcePath The path of the note containing the cards.
+ * @param cards The parsed cards. Their `id` is updated in place.
+ * @param known The cards previously seen in the note.
+ * @returns The identity status of each card, in the same order as `cards`.
+ */
+export function matchCardIdentities(sourcePath: string, cards: Flashcard[], known: KnownCard[]): IdentityStatus[] {
+	const statuses: IdentityStatus[] = cards.map(() => 'new');
+	const fingerprints = cards.map(card => getCardFingerprint(card));
+	const resolved = new Set<number>();
+	const usedIds = new Set<string>();
+	const available = new Set(known);
+
+	const claim = (index: number, entry: KnownCard | undefined, status: IdentityStatus) => {
+		if (entry) {
+			cards[index].id = entry.id;
+			available.delete(entry);
+		}
+		statuses[index] = status;
+		resolved.add(index);
+		usedIds.add(cards[index].id);
+	};
+
+	// Pinned IDs always win.
+	cards.forEach((card, index) => {
+		if (!card.explicitId) return;
+		const entry = known.find(k => k.id === card.explicitId);
+		claim(index, entry, entry ? (entry.fingerprint === fingerprints[index] ? 'unchanged' : 'modified') : 'new');
+	});
+
+	// Unchanged content keeps its ID.
+	cards.forEach((card, index) => {
+		if (resolved.has(index)) return;
+		const entry = Array.from(available).find(k => k.fingerprint === fingerprints[index]);
+		if (entry) claim(index, entry, 'unchanged');
+	});
+
+	// Edited cards inherit the ID of the most similar card that disappeared.
+	cards.forEach((card, index) => {
+		if (resolved.has(index)) return;
+		let best: KnownCard | undefined;
+		let bestScore = FUZZY_MATCH_THRESHOLD;
+		available.forEach(entry => {
+			if (fingerprints.includes(entry.fingerprint)) return;
+			const score = stringSimilarity(entry.fingerprint, fingerprints[index]);
+			if (score >= bestScore) {
+				best = entry;
+				bestScore = score;
+			}
+		});
+		if (best) claim(index, best, 'modified');
+	});
+
+	// Everything else is new; make sure duplicate cards still get distinct IDs.
+	cards.forEach((card, index) => {
+		if (resolved.has(index)) return;
+		let id = createCardId(sourcePath, fingerprints[index]);
+		for (let n = 2; usedIds.has(id); n++) {
+			id = createCardId(sourcePath, `${fingerprints[index]}#${n}`);
+		}
+		card.id = id;
+		usedIds.add(id);
+	});
+
+	return statuses;
+}
+
+/**
+ * Keeps card IDs stable across edits, reordering and renames by remembering,
+ * per note, which ID every card was given and what its content looked like.
+ */
+export class CardIdentityRegistry {
+	private readonly data: IdentityRegistryData;
+	private readonly onChange: () => void;
+
+	/**
+	 * Creates an instance of CardIdentityRegistry.
+	 * @param data The persisted registry, modified in place.
+	 * @param onChange Called whenever the registry changes and should be saved.
+	 */
+	constructor(data: IdentityRegistryData, onChange: () => void) {
+		this.data = data;
+		this.onChange = onChange;
+	}
+
+	/**
+	 * Assigns IDs to some of a note's cards without updating the registry.
+	 * Used when rendering a single block, which only sees part of the note.
+	 * @param sourcePath The path of the note containing the cards.
+	 * @param cards The parsed cards. Their `id` is updated in place.
+	 */
+	assignIds(sourcePath: string, cards: Flashcard[]) {
+		matchCardIdentities(sourcePath, cards, this.data[sourcePath] ?? []);
+	}
+
+	/**
+	 * Assigns IDs to every card of a note and records the result as the note's known cards.
+	 * @param sourcePath The path of the note.
+	 * @param cards All the cards currently defined in the note. Their `id` is updated in place.
+	 * @returns The identity status of each card, in the same order as `cards`.
+	 */
+	resolveNote(sourcePath: string, cards: Flashcard[]): IdentityStatus[] {
+		const known = this.data[sourcePath] ?? [];
+		const statuses = matchCardIdentities(sourcePath, cards, known);
+		const now = Date.now();
+
+		const updated: KnownCard[] = cards.map(card => {
+			const fingerprint = getCardFingerprint(card);
+			const previous = known.find(k => k.id === card.id);
+			if (!previous) return { id: card.id, fingerprint, createdAt: now };
+			if (previous.fingerprint === fingerprint) return previous;
+			return { ...previous, fingerprint, modifiedAt: now };
+		});
+
+		const changed = updated.length !== known.length || updated.some((entry, index) => entry !== known[index]);
+		if (updated.length > 0) this.data[sourcePath] = updated;
+		else delete this.data[sourcePath];
+		if (changed) this.onChange();
+
+		return statuses;
+	}
+
+	/**
+	 * Moves a note's known cards to its new path so their IDs survive the rename.
+	 */
+	rename(oldPath: string, newPath: string) {
+		if (!this.data[oldPath]) return;
+		this.data[newPath] = this.data[oldPath];
+		delete this.data[oldPath];
+		this.onChange();
+	}
+
+	/**
+	 * Forgets the known cards of a deleted note.
+	 */
+	remove(path: string) {
+		if (!this.data[path]) return;
+		delete this.data[path];
+		this.onChange();
+	}
+}
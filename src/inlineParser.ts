@@ -0,0 +1,112 @@
+import { Flashcard, QACard } from './cards';
+import { createCardId, getCardFingerprint } from './identity';
+import { Diagnostic, SourceLine, parseClozeCards } from './parser';
+
+/**
+ * The inline cards found in a note, with any problems found while parsing them.
+ */
+export interface InlineCards {
+	cards: Flashcard[];
+	diagnostics: Diagnostic[];
+}
+
+const QA_LINE = /^\s*(?:[-*+]\s+|\d+[.)]\s+)?(.+?)\s+::\s+(.+?)\s*$/;
+const HIGHLIGHT = /==([^=\n]+?)==/g;
+const HEADING = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+const LIST_MARKER = /^(\s*)(?:[-*+]\s+|\d+[.)]\s+)/;
+
+/**
+ * Finds the cards written inline in a note's markdown, outside of `flashy` blocks:
+ * - `Question :: Answer` lines become Q&A cards (the spaces around `::` are required,
+ *   so Dataview `key:: value` fields are left alone);
+ * - lines with `==highlighted==` text become fill-in-the-blank cards, one blank per highlight;
+ * - a heading carrying the card tag becomes a Q&A card whose answer is the heading's section.
+ * Frontmatter and fenced code blocks are skipped.
+ * @param markdown The full text of the note.
+ * @param sourcePath The path of the note.
+ * @param tag The tag marking a heading as a card, without `#`.
+ */
+export function parseInlineCards(markdown: string, sourcePath: string, tag: string): InlineCards {
+	const result: InlineCards = { cards: [], diagnostics: [] };
+	const lines: SourceLine[] = markdown.split('\n').map((text, line) => ({ text, line }));
+	const headingTag = new RegExp(`(^|\\s)#${tag.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}(?=\\s|$)`, 'i');
+
+	const error = (message: string, at: SourceLine, column = 0) => {
+		result.diagnostics.push({ severity: 'error', message, line: at.line, column });
+	};
+	const addCard = (card: Flashcard, start: SourceLine, end: SourceLine) => {
+		card.sourcePath = sourcePath;
+		card.position = {
+			start: { line: start.line, column: 0 },
+			end: { line: end.line, column: end.text.length },
+		};
+		card.id = createCardId(sourcePath, getCardFingerprint(card));
+		result.cards.push(card);
+	};
+
+	let index = 0;
+	// Skip frontmatter.
+	if (lines.length > 0 && lines[0].text.trim() === '---') {
+		const end = lines.findIndex((line, i) => i > 0 && line.text.trim() === '---');
+		if (end > 0) index = end + 1;
+	}
+
+	let fence: string | null = null;
+	for (; index < lines.length; index++) {
+		const line = lines[index];
+		const trimmed = line.text.trim();
+
+		const fenceMatch = trimmed.match(/^(`{3,}|~{3,})/);
+		if (fenceMatch) {
+			if (fence === null) fence = fenceMatch[1];
+			else if (fenceMatch[1].startsWith(fence)) fence = null;
+			continue;
+		}
+		if (fence !== null || trimmed.length === 0) continue;
+
+		const heading = trimmed.match(HEADING);
+		if (heading) {
+			if (!headingTag.test(heading[2])) continue;
+			const level = heading[1].length;
+			const question = heading[2].replace(headingTag, ' ').trim();
+
+			// The section runs until the next heading of the same or a higher level.
+			let end = index + 1;
+			let sectionFence: string | null = null;
+			for (; end < lines.length; end++) {
+				const text = lines[end].text.trim();
+				const sectionFenceMatch = text.match(/^(`{3,}|~{3,})/);
+				if (sectionFenceMatch) {
+					if (sectionFence === null) sectionFence = sectionFenceMatch[1];
+					else if (sectionFenceMatch[1].startsWith(sectionFence)) sectionFence = null;
+				}
+				const next = sectionFence === null ? text.match(/^(#{1,6})\s/) : null;
+				if (next && next[1].length <= level) break;
+			}
+			const answer = lines.slice(index + 1, end).map(l => l.text).join('\n').trim();
+			if (!question || !answer) {
+				error(!question ? 'heading card has no question' : 'heading card has no content below it', line);
+			} else {
+				addCard({ type: 'qa', question, answer } as QACard, line, lines[end - 1]);
+			}
+			// The section is the card's answer; don't look for other cards inside it.
+			index = end - 1;
+			continue;
+		}
+
+		const qa = line.text.match(QA_LINE);
+		if (qa) {
+			addCard({ type: 'qa', question: qa[1].trim(), answer: qa[2].trim() } as QACard, line, line);
+			continue;
+		}
+
+		if (HIGHLIGHT.test(line.text)) {
+			HIGHLIGHT.lastIndex = 0;
+			const clozeText = line.text.replace(LIST_MARKER, '$1').replace(HIGHLIGHT, '{{$1}}');
+			const cards = parseClozeCards([{ text: clozeText, line: line.line }], error);
+			(cards ?? []).forEach(card => addCard(card, line, line));
+		}
+	}
+
+	return result;
+}
@@ -0,0 +1,126 @@
+import { FlashyCardType } from './cards';
+import { FlashyPluginSettings } from './settings';
+
+/**
+ * Something a key can do while a deck has focus.
+ */
+export type KeyAction = 'previous' | 'next' | 'skip' | 'reset' | 'submit' | 'showAnswer' | 'again' | 'hard' | 'good' | 'easy';
+
+/** The settings holding a key binding. */
+export type KeySetting = 'keyPreviousCard' | 'keyNextCard' | 'keySkipCard' | 'keyResetSession' | 'keySubmitAnswer'
+	| 'keyShowAnswer' | 'keyGradeAgain' | 'keyGradeHard' | 'keyGradeGood' | 'keyGradeEasy';
+
+/**
+ * How a key action is stored and described. Actions of Q&A cards only apply while one is shown,
+ * so they may share keys with the digits picking answers on other cards.
+ */
+export interface KeyActionInfo {
+	name: string;
+	description: string;
+	setting: KeySetting;
+	qaOnly: boolean;
+}
+
+export const KEY_ACTIONS: Record<KeyAction, KeyActionInfo> = {
+	previous: { name: 'Previous card', description: 'Go back to the previous card.', setting: 'keyPreviousCard', qaOnly: false },
+	next: { name: 'Next card', description: 'Go on to the next card.', setting: 'keyNextCard', qaOnly: false },
+	skip: { name: 'Skip card', description: 'Jump to the next card you haven\'t answered yet.', setting: 'keySkipCard', qaOnly: false },
+	reset: { name: 'Reset session', description: 'Start the deck over.', setting: 'keyResetSession', qaOnly: false },
+	submit: { name: 'Submit answer', description: 'Check a typed, ordered or matched answer, or show the answer of a Q&A card. Moves on once the card is answered.', setting: 'keySubmitAnswer', qaOnly: false },
+	showAnswer: { name: 'Show answer', description: 'Reveal the answer of a Q&A card.', setting: 'keyShowAnswer', qaOnly: true },
+	again: { name: 'Grade "Again"', description: 'Grade a revealed Q&A card as forgotten.', setting: 'keyGradeAgain', qaOnly: true },
+	hard: { name: 'Grade "Hard"', description: 'Grade a revealed Q&A card as hard.', setting: 'keyGradeHard', qaOnly: true },
+	good: { name: 'Grade "Good"', description: 'Grade a revealed Q&A card as good.', setting: 'keyGradeGood', qaOnly: true },
+	easy: { name: 'Grade "Easy"', description: 'Grade a revealed Q&A card as easy.', setting: 'keyGradeEasy', qaOnly: true },
+};
+
+/** Keys kept for moving between decks, which can't be bound. */
+const FOCUS_KEYS = ['Tab', 'Shift+Tab'];
+const MODIFIERS = ['Ctrl', 'Alt', 'Shift', 'Meta'];
+
+/**
+ * Writes a binding the way key events are read, e.g. `ctrl+r` as `Ctrl+R` and `r` as `R`,
+ * so bindings typed by hand in older versions keep working. Returns '' for an empty binding.
+ */
+export function normalizeBinding(binding: string): string {
+	const trimmed = binding.trim();
+	if (!trimmed) return '';
+	// A binding ending in `+` is the plus key itself.
+	const parts = trimmed.endsWith('+') ? trimmed.slice(0, -1).split('+').filter(Boolean).concat('+') : trimmed.split('+');
+	const key = parts.pop() ?? '';
+	const modifiers = parts.map(part => MODIFIERS.find(modifier => modifier.toLowerCase() === part.trim().toLowerCase()) ?? part.trim());
+	const name = key === ' ' || key.toLowerCase() === 'space' ? 'Space'
+		: key.length === 1 ? key.toUpperCase()
+			: key.charAt(0).toUpperCase() + key.slice(1);
+	return MODIFIERS.filter(modifier => modifiers.includes(modifier)).concat(name).join('+');
+}
+
+/**
+ * Returns the binding a key press matches, e.g. `Ctrl+Shift+R`, or null for a modifier pressed on its own.
+ * Shift is only written for letters and named keys, since it is already part of symbols like `?`.
+ */
+export function eventToBinding(event: KeyboardEvent): string | null {
+	const key = event.key;
+	if (['Control', 'Alt', 'Shift', 'Meta', 'AltGraph', 'CapsLock', 'Dead', 'Unidentified'].includes(key)) return null;
+	const isSymbol = key.length === 1 && key.toLowerCase() === key.toUpperCase() && key !== ' ';
+	const modifiers: string[] = [];
+	if (event.ctrlKey) modifiers.push('Ctrl');
+	if (event.altKey) modifiers.push('Alt');
+	if (event.shiftKey && !isSymbol) modifiers.push('Shift');
+	if (event.metaKey) modifiers.push('Meta');
+	// The space bar is named, since a bare space would be trimmed away.
+	const name = key === ' ' ? 'Space' : key;
+	return normalizeBinding([...modifiers, name === '+' ? '' : name].join('+') + (name === '+' ? '+' : ''));
+}
+
+/**
+ * Returns whether a binding uses Ctrl, Alt or Cmd, and so can't be typed into a text field.
+ */
+export function isChord(binding: string): boolean {
+	return /^(Ctrl|Alt|Meta)\+./.test(binding);
+}
+
+/**
+ * Formats a binding for the settings, e.g. `Ctrl + Shift + R`.
+ */
+export function formatBinding(binding: string): string {
+	const normalized = normalizeBinding(binding);
+	if (!normalized) return 'Not set';
+	return normalized.replace(/\+(?!$)/g, ' + ');
+}
+
+/**
+ * Returns the action bound to a key press on the given kind of card, if any.
+ * @param settings The plugin settings holding the bindings.
+ * @param binding The key press, as returned by `eventToBinding`.
+ * @param cardType The type of the card being shown, if any.
+ */
+export function getKeyAction(settings: FlashyPluginSettings, binding: string, cardType?: FlashyCardType): KeyAction | null {
+	const actions = Object.keys(KEY_ACTIONS) as KeyAction[];
+	return actions.find(action => {
+		const info = KEY_ACTIONS[action];
+		if (info.qaOnly && cardType !== 'qa') return false;
+		return normalizeBinding(settings[info.setting]) === binding;
+	}) ?? null;
+}
+
+/**
+ * Checks whether a key can be bound to an action without taking it from something else.
+ * @param settings The plugin settings holding the current bindings.
+ * @param action The action to bind.
+ * @param binding The key to bind it to.
+ * @returns What the key is already used for, or null if it is free.
+ */
+export function findKeyConflict(settings: FlashyPluginSettings, action: KeyAction, binding: string): string | null {
+	const normalized = normalizeBinding(binding);
+	if (!normalized) return null;
+	if (FOCUS_KEYS.includes(normalized)) return 'moving between decks';
+	const qaOnly = KEY_ACTIONS[action].qaOnly;
+	// Digits pick the answers of multiple-choice and true/false cards, which Q&A cards don't have.
+	if (!qaOnly && /^[0-9]$/.test(normalized)) return 'picking answers';
+	const other = (Object.keys(KEY_ACTIONS) as KeyAction[]).find(candidate => {
+		if (candidate === action) return false;
+		return normalizeBinding(settings[KEY_ACTIONS[candidate].setting]) === normalized;
+	});
+	return other ? KEY_ACTIONS[other].name : null;
+}
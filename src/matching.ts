@@ -0,0 +1,194 @@
+/**
+ * How strictly a typed answer is compared with the expected one.
+ * Global defaults come from the settings; cards can override each field through their property line.
+ */
+export interface AnswerMatchOptions {
+	/** Maximum number of single-character edits (Levenshtein distance) still accepted as "almost". */
+	typoTolerance: number;
+	/** Treat "café" and "cafe" as equal. */
+	ignoreAccents: boolean;
+	/** Treat "TCP/IP" and "tcp ip" as equal. */
+	ignorePunctuation: boolean;
+	/** Maximum absolute difference accepted between numeric answers. */
+	numericTolerance: number;
+	/** Allow answers written as `/pattern/flags` to be matched as regular expressions. */
+	allowRegex: boolean;
+}
+
+/**
+ * Outcome of comparing one typed answer: exactly right, right apart from a typo, or wrong.
+ */
+export type MatchResult = 'correct' | 'almost' | 'incorrect';
+
+/**
+ * The result of matching a typed answer, with the accepted answer it was compared against.
+ */
+export interface AnswerMatch {
+	result: MatchResult;
+	/** The alternative closest to the input, used to show a diff for near misses. */
+	expected: string;
+}
+
+/**
+ * A run of characters in a diff between a typed answer and the expected one.
+ */
+export interface DiffPart {
+	/** `same` is in both, `missing` is only in the expected answer, `extra` only in the input. */
+	type: 'same' | 'missing' | 'extra';
+	text: string;
+}
+
+const REGEX_ANSWER = /^\/(.+)\/([a-z]*)$/;
+const PUNCTUATION = /[!"#$%&'()*+,\-./:;<=>?@[\\\]^_`{|}~¡¿«»“”‘’…–—]/g;
+
+/**
+ * Checks whether an answer is written in the `/pattern/flags` regex form.
+ */
+export function isRegexAnswer(raw: string): boolean {
+	return REGEX_ANSWER.test(raw.trim());
+}
+
+/**
+ * Splits an answer into its accepted alternatives, e.g. `colour|color`.
+ * Regex answers are never split, since `|` is part of their syntax.
+ */
+export function getAlternatives(raw: string): string[] {
+	if (isRegexAnswer(raw)) return [raw.trim()];
+	return raw.split('|').map(alternative => alternative.trim()).filter(Boolean);
+}
+
+/**
+ * Returns the text to show for an answer: its first alternative, or the regex as written.
+ */
+export function displayAnswer(raw: string): string {
+	return getAlternatives(raw)[0] ?? raw.trim();
+}
+
+/**
+ * Normalizes an answer for comparison: case, surrounding and repeated whitespace,
+ * and optionally accents and punctuation.
+ */
+export function normalizeAnswer(text: string, options: AnswerMatchOptions): string {
+	let normalized = text.toLowerCase();
+	if (options.ignoreAccents) normalized = normalized.normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+	if (options.ignorePunctuation) normalized = normalized.replace(PUNCTUATION, ' ');
+	return normalized.replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Computes the Levenshtein distance (single-character insertions, deletions and substitutions) between two strings.
+ */
+export function levenshtein(a: string, b: string): number {
+	let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+	for (let i = 1; i <= a.length; i++) {
+		const current = [i];
+		for (let j = 1; j <= b.length; j++) {
+			const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+			current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+		}
+		previous = current;
+	}
+	return previous[b.length];
+}
+
+/**
+ * Parses a number written with an optional thousands separator, e.g. "1,024" or "-3.5".
+ * Returns null if the text is not a number.
+ */
+function parseNumber(text: string): number | null {
+	const cleaned = text.trim().replace(/,(?=\d{3}\b)/g, '');
+	if (!/^[-+]?(\d+\.?\d*|\.\d+)(e[-+]?\d+)?$/i.test(cleaned)) return null;
+	return parseFloat(cleaned);
+}
+
+/**
+ * Compares a typed answer with a single accepted alternative.
+ */
+function matchAlternative(input: string, alternative: string, options: AnswerMatchOptions): MatchResult {
+	const regexMatch = options.allowRegex ? alternative.match(REGEX_ANSWER) : null;
+	if (regexMatch) {
+		try {
+			return new RegExp(regexMatch[1], regexMatch[2]).test(input.trim()) ? 'correct' : 'incorrect';
+		} catch {
+			return 'incorrect';
+		}
+	}
+
+	const inputNumber = parseNumber(input);
+	const expectedNumber = parseNumber(alternative);
+	if (inputNumber !== null && expectedNumber !== null) {
+		return Math.abs(inputNumber - expectedNumber) <= options.numericTolerance ? 'correct' : 'incorrect';
+	}
+
+	const normalizedInput = normalizeAnswer(input, options);
+	const normalizedExpected = normalizeAnswer(alternative, options);
+	if (normalizedInput === normalizedExpected) return 'correct';
+
+	// Short answers must be exact; otherwise allow roughly one typo per four characters, up to the tolerance.
+	const tolerance = Math.min(options.typoTolerance, Math.floor(normalizedExpected.length / 4));
+	if (tolerance > 0 && levenshtein(normalizedInput, normalizedExpected) <= tolerance) return 'almost';
+	return 'incorrect';
+}
+
+/**
+ * Matches a typed answer against every alternative of an expected answer and keeps the best result.
+ * @param input What the user typed.
+ * @param raw The expected answer as written in the card, e.g. `colour|color` or `/colou?r/i`.
+ * @param options How strictly to compare.
+ */
+export function matchAnswer(input: string, raw: string, options: AnswerMatchOptions): AnswerMatch {
+	const rank: Record<MatchResult, number> = { correct: 2, almost: 1, incorrect: 0 };
+	const alternatives = getAlternatives(raw);
+	let best: AnswerMatch = { result: 'incorrect', expected: alternatives[0] ?? raw };
+
+	for (const alternative of alternatives) {
+		const result = matchAlternative(input, alternative, options);
+		if (rank[result] > rank[best.result]) best = { result, expected: alternative };
+		if (result === 'correct') break;
+	}
+	return best;
+}
+
+/**
+ * Computes a character-level diff from a typed answer to the expected one, for highlighting near misses.
+ * @param input What the user typed.
+ * @param expected The answer it should have been.
+ */
+export function diffAnswer(input: string, expected: string): DiffPart[] {
+	const a = input.trim();
+	const b = expected.trim();
+
+	// Longest common subsequence table, filled from the end so the walk below can go forwards.
+	const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+	for (let i = a.length - 1; i >= 0; i--) {
+		for (let j = b.length - 1; j >= 0; j--) {
+			lcs[i][j] = a[i].toLowerCase() === b[j].toLowerCase()
+				? lcs[i + 1][j + 1] + 1
+				: Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+		}
+	}
+
+	const parts: DiffPart[] = [];
+	const push = (type: DiffPart['type'], text: string) => {
+		const last = parts[parts.length - 1];
+		if (last && last.type === type) last.text += text;
+		else parts.push({ type, text });
+	};
+
+	let i = 0;
+	let j = 0;
+	while (i < a.length && j < b.length) {
+		if (a[i].toLowerCase() === b[j].toLowerCase()) {
+			push('same', b[j]);
+			i++;
+			j++;
+		} else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+			push('extra', a[i++]);
+		} else {
+			push('missing', b[j++]);
+		}
+	}
+	if (i < a.length) push('extra', a.substring(i));
+	if (j < b.length) push('missing', b.substring(j));
+	return parts;
+}
@@ -0,0 +1,660 @@
+import {
+	ClozeSegment,
+	Flashcard,
+	FillInTheBlankCard,
+	MatchingCard,
+	MultipleChoiceCard,
+	OrderingCard,
+	QACard,
+	TrueFalseCard
+} from './cards';
+import { createCardId, getCardFingerprint } from './identity';
+import { AnswerMatchOptions, displayAnswer } from './matching';
+
+/**
+ * A problem found while parsing a `flashy` block.
+ * Errors mean a card was dropped; warnings mean part of a card was ignored.
+ */
+export interface Diagnostic {
+	severity: 'error' | 'warning';
+	message: string;
+	/** Zero-based line the problem was found on. */
+	line: number;
+	/** Zero-based column the problem starts at. */
+	column: number;
+}
+
+/**
+ * A `key=value` pair from a block (`[[...]]`) or card (`[...]`) property line.
+ */
+export interface PropertyNode {
+	key: string;
+	value: string;
+	line: number;
+	column: number;
+}
+
+/**
+ * Session options from a block's `[[...]]` line. Options left unset fall back to the plugin settings.
+ */
+export interface DeckOptions {
+	shuffleCards?: boolean;
+	autoAdvance?: boolean;
+	/** Delay (ms) before auto-advancing. */
+	autoAdvanceDelay?: number;
+	/** Number of cards asked per session. */
+	limit?: number;
+	/** `exam` holds back all feedback until the end and grades the whole deck at once. */
+	mode?: 'practice' | 'exam';
+	/** Time limit (seconds) for a whole exam. */
+	duration?: number;
+	title?: string;
+	description?: string;
+	/** Tags without the leading `#`. */
+	tags?: string[];
+	/** Name of the theme from the settings to show the deck in. */
+	theme?: string;
+}
+
+/**
+ * The parsed contents of a `flashy` block.
+ */
+export interface DeckNode {
+	/** Properties from the block-level `[[...]]` line, applied to every card. */
+	properties: PropertyNode[];
+	options: DeckOptions;
+	/** The valid cards, in source order. */
+	cards: Flashcard[];
+	diagnostics: Diagnostic[];
+}
+
+/**
+ * One card definition of a block as written: its property line and the text below it.
+ */
+export interface CardSource {
+	properties: PropertyNode[];
+	/** The card's lines without its property line, trimmed of blank lines around them. */
+	lines: SourceLine[];
+}
+
+/**
+ * A `flashy` fenced code block found in a note.
+ */
+export interface FlashyBlock {
+	/** The text between the fences. */
+	source: string;
+	/** Zero-based line of the opening fence. */
+	startLine: number;
+	/** Zero-based line of the closing fence. */
+	endLine: number;
+}
+
+const TRUE_FALSE_LINE = /^(.*\S)\s+=>\s*(true|false|t|f)\s*$/i;
+const ORDERING_ITEM = /^\s*(\d+)[.)]\s+(.+)$/;
+const MATCHING_PAIR = /^\s*(.+?)\s+->\s+(.+?)\s*$/;
+const BLOCK_PROPERTIES = /^(\s*)\[\[(.*?)]]\s*$/;
+
+/** Property keys a card's `[...]` line understands. All but `id` can also be set for every card in the block's `[[...]]` line. */
+const CARD_KEYS = ['bg', 'color', 'id', 'reverse', 'bidirectional', 'shuffle-answers', 'timer', 'match', 'typos', 'accents', 'punctuation', 'tolerance', 'regex'];
+/** Card property keys that change how typed answers are matched, which only fill-in-the-blank cards have. */
+const MATCH_KEYS = ['match', 'typos', 'accents', 'punctuation', 'tolerance', 'regex'];
+/** Property keys that only apply to a whole block. */
+const BLOCK_KEYS = ['shuffle', 'auto-advance', 'delay', 'limit', 'mode', 'duration', 'title', 'description', 'tags', 'theme'];
+
+/** A line of source together with its position. */
+export interface SourceLine {
+	text: string;
+	line: number;
+}
+
+/** Returns the column of the first non-whitespace character of a line. */
+function indentOf(text: string): number {
+	return Math.max(0, text.search(/\S/));
+}
+
+/**
+ * Finds every `flashy` code block in a markdown document.
+ * Supports both backtick and tilde fences of any length.
+ * @param markdown The full text of a note.
+ */
+export function extractFlashyBlocks(markdown: string): FlashyBlock[] {
+	const blocks: FlashyBlock[] = [];
+	const lines = markdown.split('\n');
+	let fence: string | null = null;
+	let isFlashy = false;
+	let startLine = 0;
+
+	lines.forEach((line, index) => {
+		const trimmed = line.trim();
+		if (fence === null) {
+			const open = trimmed.match(/^(`{3,}|~{3,})\s*([\w-]*)/);
+			if (open) {
+				fence = open[1];
+				isFlashy = open[2] === 'flashy';
+				startLine = index;
+			}
+			return;
+		}
+		if (trimmed.startsWith(fence) && trimmed.replace(/[`~]/g, '') === '') {
+			if (isFlashy) {
+				blocks.push({ source: lines.slice(startLine + 1, index).join('\n'), startLine, endLine: index });
+			}
+			fence = null;
+		}
+	});
+
+	return blocks;
+}
+
+/**
+ * Splits the inside of a property line into `key=value` pairs.
+ * A bare key (no `=`) gets an empty value.
+ * @param text The text between the brackets.
+ * @param line The line the property line is on.
+ * @param column The column the text starts at.
+ */
+export function parseProperties(text: string, line: number, column: number): PropertyNode[] {
+	const properties: PropertyNode[] = [];
+	// Values containing spaces can be quoted: `title="Network basics"`.
+	const pattern = /(?:[^\s="]+=)?"[^"]*"|\S+/g;
+	let match: RegExpExecArray | null;
+	while ((match = pattern.exec(text)) !== null) {
+		const [key, ...rest] = match[0].split('=');
+		const value = rest.join('=').replace(/^"(.*)"$/, '$1');
+		properties.push({ key, value, line, column: column + match.index });
+	}
+	return properties;
+}
+
+/**
+ * Returns the value of the last property with the given key, if any.
+ */
+export function getProperty(properties: PropertyNode[], key: string): string | undefined {
+	const matches = properties.filter(prop => prop.key === key && prop.value);
+	return matches.length > 0 ? matches[matches.length - 1].value : undefined;
+}
+
+/**
+ * Reads an on/off flag such as `[reverse]` or `[reverse=off]`. A bare key turns the flag on.
+ * @param properties The property line to read from.
+ * @param keys The accepted names of the flag.
+ * @param diagnostics Collects a warning for values that aren't on or off.
+ * @returns The flag's value, or undefined if it isn't set.
+ */
+function readFlag(properties: PropertyNode[], keys: string[], diagnostics: Diagnostic[]): boolean | undefined {
+	let value: boolean | undefined;
+	properties.filter(prop => keys.includes(prop.key)).forEach(prop => {
+		if (prop.value === '' || prop.value === 'on') value = true;
+		else if (prop.value === 'off') value = false;
+		else diagnostics.push({ severity: 'warning', message: `invalid value "${prop.value}" for \`${prop.key}\`, expected \`on\` or \`off\``, line: prop.line, column: prop.column });
+	});
+	return value;
+}
+
+/**
+ * Reads a positive number such as `limit=10`. `off` and `0` unset it.
+ * @param properties The property line to read from.
+ * @param key The name of the property.
+ * @param diagnostics Collects a warning for values that aren't numbers.
+ * @returns The number, 0 if turned off, or undefined if it isn't set.
+ */
+function readNumber(properties: PropertyNode[], key: string, diagnostics: Diagnostic[]): number | undefined {
+	let value: number | undefined;
+	properties.filter(prop => prop.key === key).forEach(prop => {
+		const number = prop.value === 'off' ? 0 : Number(prop.value);
+		if (prop.value !== '' && !isNaN(number) && number >= 0) value = number;
+		else diagnostics.push({ severity: 'warning', message: `invalid value "${prop.value}" for \`${key}\`, expected a non-negative number`, line: prop.line, column: prop.column });
+	});
+	return value;
+}
+
+/**
+ * Warns about property keys Flashy doesn't know, and about keys used on the wrong kind of line.
+ * @param properties The property line to check.
+ * @param level Whether the line is a block's `[[...]]` line or a card's `[...]` line.
+ * @param diagnostics Collects the warnings.
+ */
+function checkPropertyKeys(properties: PropertyNode[], level: 'block' | 'card', diagnostics: Diagnostic[]) {
+	properties.forEach(prop => {
+		const warn = (message: string) => diagnostics.push({ severity: 'warning', message, line: prop.line, column: prop.column });
+		if (level === 'card' && BLOCK_KEYS.includes(prop.key)) warn(`\`${prop.key}\` only applies to a whole block, set it in the \`[[...]]\` line`);
+		else if (level === 'block' && prop.key === 'id') warn('`id` only applies to a single card, set it in the card\'s `[...]` line');
+		else if (!CARD_KEYS.includes(prop.key) && !BLOCK_KEYS.includes(prop.key)) warn(`unknown property \`${prop.key}\``);
+	});
+}
+
+/**
+ * Reads the session options from a block's properties.
+ * @param properties The block's `[[...]]` properties.
+ * @param diagnostics Collects warnings about invalid values.
+ */
+function readDeckOptions(properties: PropertyNode[], diagnostics: Diagnostic[]): DeckOptions {
+	const options: DeckOptions = {};
+	const shuffleCards = readFlag(properties, ['shuffle'], diagnostics);
+	if (shuffleCards !== undefined) options.shuffleCards = shuffleCards;
+	const autoAdvance = readFlag(properties, ['auto-advance'], diagnostics);
+	if (autoAdvance !== undefined) options.autoAdvance = autoAdvance;
+	const delay = readNumber(properties, 'delay', diagnostics);
+	if (delay !== undefined) options.autoAdvanceDelay = delay;
+	const limit = readNumber(properties, 'limit', diagnostics);
+	if (limit) options.limit = Math.floor(limit);
+	properties.filter(prop => prop.key === 'mode').forEach(prop => {
+		if (prop.value === 'practice' || prop.value === 'exam') options.mode = prop.value;
+		else diagnostics.push({ severity: 'warning', message: `invalid value "${prop.value}" for \`mode\`, expected \`practice\` or \`exam\``, line: prop.line, column: prop.column });
+	});
+	// Exam durations are given in minutes.
+	const duration = readNumber(properties, 'duration', diagnostics);
+	if (duration) options.duration = Math.round(duration * 60);
+	const title = getProperty(properties, 'title');
+	if (title) options.title = title;
+	const description = getProperty(properties, 'description');
+	if (description) options.description = description;
+	const tags = getProperty(properties, 'tags');
+	if (tags) options.tags = tags.split(/[,\s]+/).map(tag => tag.replace(/^#/, '')).filter(tag => tag.length > 0);
+	const theme = getProperty(properties, 'theme');
+	if (theme) options.theme = theme;
+	return options;
+}
+
+/**
+ * Reads answer matching overrides from a property line, later properties winning.
+ * Supported keys: `match=exact|lenient` (a preset for the next three), `typos=N`, `accents=strict|ignore`,
+ * `punctuation=strict|ignore`, `tolerance=N` (numeric answers) and `regex=on|off`.
+ * @param properties The block's `[[...]]` or a card's `[...]` properties.
+ * @param diagnostics Collects warnings about invalid values.
+ */
+function readMatchOptions(properties: PropertyNode[], diagnostics: Diagnostic[]): Partial<AnswerMatchOptions> {
+	const options: Partial<AnswerMatchOptions> = {};
+	const invalid = (prop: PropertyNode, expected: string) => {
+		diagnostics.push({ severity: 'warning', message: `invalid value "${prop.value}" for \`${prop.key}\`, expected ${expected}`, line: prop.line, column: prop.column });
+	};
+	const readSwitch = (prop: PropertyNode, on: string, off: string): boolean | undefined => {
+		if (prop.value === on) return true;
+		if (prop.value === off) return false;
+		invalid(prop, `\`${on}\` or \`${off}\``);
+		return undefined;
+	};
+	const readNumber = (prop: PropertyNode): number | undefined => {
+		const value = parseFloat(prop.value);
+		if (!isNaN(value) && value >= 0) return value;
+		invalid(prop, 'a non-negative number');
+		return undefined;
+	};
+
+	properties.forEach(prop => {
+		let value: number | boolean | undefined;
+		switch (prop.key) {
+			case 'match':
+				value = readSwitch(prop, 'lenient', 'exact');
+				if (value === false) options.typoTolerance = 0;
+				if (value !== undefined) {
+					options.ignoreAccents = value;
+					options.ignorePunctuation = value;
+				}
+				break;
+			case 'typos':
+				value = readNumber(prop);
+				if (value !== undefined) options.typoTolerance = Math.floor(value);
+				break;
+			case 'accents':
+				value = readSwitch(prop, 'ignore', 'strict');
+				if (value !== undefined) options.ignoreAccents = value;
+				break;
+			case 'punctuation':
+				value = readSwitch(prop, 'ignore', 'strict');
+				if (value !== undefined) options.ignorePunctuation = value;
+				break;
+			case 'tolerance':
+				value = readNumber(prop);
+				if (value !== undefined) options.numericTolerance = value;
+				break;
+			case 'regex':
+				value = readSwitch(prop, 'on', 'off');
+				if (value !== undefined) options.allowRegex = value;
+				break;
+		}
+	});
+	return options;
+}
+
+/**
+ * Parses fill-in-the-blank text into one card per cloze group.
+ * Blanks are written `{{answer}}` or `{{c1::answer}}`; every blank of the same group is hidden
+ * on the same card, while the blanks of other numbered groups are shown as plain text.
+ * Unnumbered blanks form a group of their own.
+ * @param lines The lines of cloze text. A blank may not span lines.
+ * @param error Reports a problem on a line.
+ */
+export function parseClozeCards(lines: SourceLine[], error: (message: string, at: SourceLine, column?: number) => void): FillInTheBlankCard[] | null {
+	type Token = { kind: 'text'; text: string } | { kind: 'blank'; answer: string; group?: number };
+	const tokens: Token[] = [];
+	let valid = true;
+
+	lines.forEach((line, lineIndex) => {
+		if (lineIndex > 0) tokens.push({ kind: 'text', text: '\n' });
+		let cursor = 0;
+		while (cursor < line.text.length) {
+			const open = line.text.indexOf('{{', cursor);
+			if (open === -1) break;
+			const close = line.text.indexOf('}}', open + 2);
+			if (close === -1) {
+				error('unterminated `{{` in fill-in-the-blank card', line, open);
+				valid = false;
+				return;
+			}
+			const inner = line.text.substring(open + 2, close);
+			const groupMatch = inner.match(/^c(\d+)::([\s\S]*)$/);
+			const answer = (groupMatch ? groupMatch[2] : inner).trim();
+			if (!answer) {
+				error('fill-in-the-blank card has an empty `{{}}` blank', line, open);
+				valid = false;
+			}
+			tokens.push({ kind: 'text', text: line.text.substring(cursor, open) });
+			tokens.push({ kind: 'blank', answer, group: groupMatch ? parseInt(groupMatch[1]) : undefined });
+			cursor = close + 2;
+		}
+		tokens.push({ kind: 'text', text: line.text.substring(cursor) });
+	});
+	if (!valid) return null;
+
+	const groups: (number | undefined)[] = [];
+	tokens.forEach(token => {
+		if (token.kind === 'blank' && !groups.includes(token.group)) groups.push(token.group);
+	});
+	// Numbered groups in order, then the unnumbered blanks.
+	groups.sort((a, b) => (a ?? Infinity) - (b ?? Infinity));
+
+	return groups.map(group => {
+		const segments: ClozeSegment[] = [];
+		const answers: string[] = [];
+		const appendText = (text: string) => {
+			const last = segments[segments.length - 1];
+			if (last && last.kind === 'text') last.text += text;
+			else if (text) segments.push({ kind: 'text', text });
+		};
+
+		tokens.forEach(token => {
+			if (token.kind === 'text') {
+				appendText(token.text);
+			} else if (token.group === group) {
+				segments.push({ kind: 'blank', index: answers.length });
+				answers.push(token.answer);
+			} else {
+				appendText(displayAnswer(token.answer));
+			}
+		});
+
+		const first = segments[0];
+		const last = segments[segments.length - 1];
+		if (first.kind === 'text') first.text = first.text.replace(/^\s+/, '');
+		if (last.kind === 'text') last.text = last.text.replace(/\s+$/, '');
+
+		const question = segments.map(segment => segment.kind === 'text' ? segment.text : '___').join('');
+		return { type: 'fill-in-the-blank', question, segments, answers, group } as FillInTheBlankCard;
+	});
+}
+
+/**
+ * Parses one card (the text between two `---` separators).
+ * Cloze text with numbered groups expands into one card per group.
+ * @param allLines The lines of the card, including blank ones, starting with a non-empty line.
+ * @param diagnostics Collects any problems found.
+ */
+function parseCard(allLines: SourceLine[], diagnostics: Diagnostic[]): { cards: Flashcard[]; properties: PropertyNode[] } | null {
+	const error = (message: string, at: SourceLine, column = indentOf(at.text)) => {
+		diagnostics.push({ severity: 'error', message, line: at.line, column });
+	};
+	let properties: PropertyNode[] = [];
+	const first = allLines[0].text.trim();
+	if (first.startsWith('[') && first.endsWith(']')) {
+		const propLine = allLines.shift() as SourceLine;
+		properties = parseProperties(first.slice(1, -1), propLine.line, propLine.text.indexOf('[') + 1);
+		if (!allLines.some(line => line.text.trim().length > 0)) {
+			error('card has properties but no content', propLine);
+			return null;
+		}
+	}
+
+	// Everything after the `===` line belongs to the answer, blank lines included,
+	// so answers can hold paragraphs, lists and code blocks.
+	const qaSeparatorIndex = allLines.findIndex(line => line.text.trim().startsWith('==='));
+	if (qaSeparatorIndex > -1) {
+		const separator = allLines[qaSeparatorIndex];
+		const question = allLines.slice(0, qaSeparatorIndex).map(line => line.text).join('\n').trim();
+		const firstAnswerLine = separator.text.trim().substring(3);
+		const answer = [firstAnswerLine, ...allLines.slice(qaSeparatorIndex + 1).map(line => line.text)].join('\n').trim();
+
+		if (!question) {
+			error('Q&A card has no question before `===`', separator);
+			return null;
+		}
+		if (!answer) {
+			error('Q&A card has no answer after `===`', separator);
+			return null;
+		}
+		return { cards: [{ type: 'qa', question, answer } as QACard], properties };
+	}
+
+	const lines = allLines.filter(line => line.text.trim().length > 0);
+	const cardStart = lines[0];
+
+	if (lines.some(line => line.text.includes('{{'))) {
+		const cards = parseClozeCards(lines, error);
+		return cards ? { cards, properties } : null;
+	}
+
+	const trueFalseMatch = cardStart.text.match(TRUE_FALSE_LINE);
+	if (trueFalseMatch) {
+		const explanation = lines.slice(1).map(line => line.text.trim()).join('\n');
+		const card = {
+			type: 'true-false',
+			question: trueFalseMatch[1].trim(),
+			answer: trueFalseMatch[2].toLowerCase().startsWith('t'),
+			explanation: explanation || undefined,
+		} as TrueFalseCard;
+		return { cards: [card], properties };
+	}
+
+	const questionLine = cardStart.text;
+	if (lines.length === 1) {
+		error('card has no answer: add `=` choices, a `{{blank}}`, a `===` answer or `=> true`/`=> false`', cardStart);
+		return null;
+	}
+
+	const itemLines = lines.slice(1);
+	if (itemLines.every(line => ORDERING_ITEM.test(line.text))) {
+		// The numbers give the correct order, so items can be written in any order.
+		const numbered = itemLines.map(line => {
+			const match = line.text.match(ORDERING_ITEM) as RegExpMatchArray;
+			return { line, position: parseInt(match[1]), text: match[2].trim() };
+		});
+		const duplicate = numbered.find((item, index) => numbered.findIndex(other => other.position === item.position) !== index);
+		if (duplicate) {
+			error(`ordering card uses step ${duplicate.position} twice`, duplicate.line);
+			return null;
+		}
+		if (numbered.length < 2) {
+			error('ordering card needs at least two steps', cardStart);
+			return null;
+		}
+		numbered.sort((a, b) => a.position - b.position);
+		const card = { type: 'ordering', question: questionLine.trim(), items: numbered.map(item => item.text) } as OrderingCard;
+		return { cards: [card], properties };
+	}
+
+	if (itemLines.every(line => MATCHING_PAIR.test(line.text))) {
+		const pairs = itemLines.map(line => {
+			const match = line.text.match(MATCHING_PAIR) as RegExpMatchArray;
+			return { left: match[1], right: match[2] };
+		});
+		if (pairs.length < 2) {
+			error('matching card needs at least two `left -> right` pairs', cardStart);
+			return null;
+		}
+		const card = { type: 'matching', question: questionLine.trim(), pairs } as MatchingCard;
+		return { cards: [card], properties };
+	}
+
+	const answers = lines.slice(1).map(line => ({
+		text: line.text.trim().startsWith('=') ? line.text.trim().substring(1).trim() : line.text.trim(),
+		isCorrect: line.text.trim().startsWith('='),
+	}));
+	if (!answers.some(a => a.isCorrect)) {
+		error('multiple-choice card has no `=` answer', cardStart);
+		return null;
+	}
+	const card = { type: 'multiple-choice', question: questionLine.trim(), answers } as MultipleChoiceCard;
+	return { cards: [card], properties };
+}
+
+/**
+ * Splits the lines of a block into cards on `---`, except inside fenced code blocks (e.g. in a multi-line answer).
+ * @returns The lines of each card, trimmed of blank lines around them. Empty cards are left out.
+ */
+function splitCards(lines: SourceLine[]): SourceLine[][] {
+	const chunks: SourceLine[][] = [[]];
+	let fence: string | null = null;
+	lines.forEach(line => {
+		const fenceMatch = line.text.trim().match(/^(`{3,}|~{3,})/);
+		if (fenceMatch) {
+			if (fence === null) fence = fenceMatch[1];
+			else if (fenceMatch[1].startsWith(fence)) fence = null;
+		}
+		if (fence === null && line.text.trim() === '---') chunks.push([]);
+		else chunks[chunks.length - 1].push(line);
+	});
+
+	return chunks
+		.map(chunk => {
+			const contentLines = chunk.filter(line => line.text.trim().length > 0);
+			if (contentLines.length === 0) return [];
+			return chunk.slice(chunk.indexOf(contentLines[0]), chunk.indexOf(contentLines[contentLines.length - 1]) + 1);
+		})
+		.filter(chunk => chunk.length > 0);
+}
+
+/**
+ * Splits the source of a `flashy` block into its `[[...]]` properties and its card definitions as written,
+ * without parsing the cards. Used to edit a block without losing anything the parser doesn't keep.
+ * @param source The raw string content of the flashy code block.
+ */
+export function splitDeckSource(source: string): { properties: PropertyNode[]; cards: CardSource[] } {
+	const lines: SourceLine[] = source.split('\n').map((text, index) => ({ text, line: index }));
+	let startIndex = lines.findIndex(line => line.text.trim().length > 0);
+	if (startIndex === -1) return { properties: [], cards: [] };
+
+	let properties: PropertyNode[] = [];
+	const globalPropMatch = lines[startIndex].text.match(BLOCK_PROPERTIES);
+	if (globalPropMatch) {
+		properties = parseProperties(globalPropMatch[2], startIndex, globalPropMatch[1].length + 2);
+		startIndex++;
+	}
+
+	const cards = splitCards(lines.slice(startIndex)).map(chunk => {
+		const first = chunk[0].text.trim();
+		if (!first.startsWith('[') || !first.endsWith(']')) return { properties: [], lines: chunk };
+		const rest = chunk.slice(1);
+		const start = rest.findIndex(line => line.text.trim().length > 0);
+		return {
+			properties: parseProperties(first.slice(1, -1), chunk[0].line, chunk[0].text.indexOf('[') + 1),
+			lines: start === -1 ? [] : rest.slice(start),
+		};
+	});
+	return { properties, cards };
+}
+
+/**
+ * Parses the source of a `flashy` code block into its properties, cards and diagnostics.
+ * @param source The raw string content of the flashy code block.
+ * @param sourcePath The path of the note containing the block.
+ * @param lineOffset Added to every reported line, e.g. the line of the block's first content line in the note.
+ */
+export function parseDeck(source: string, sourcePath: string, lineOffset = 0): DeckNode {
+	const deck: DeckNode = { properties: [], options: {}, cards: [], diagnostics: [] };
+	const lines: SourceLine[] = source.split('\n').map((text, index) => ({ text, line: index + lineOffset }));
+
+	let startIndex = lines.findIndex(line => line.text.trim().length > 0);
+	if (startIndex === -1) return deck;
+
+	const globalPropMatch = lines[startIndex].text.match(BLOCK_PROPERTIES);
+	if (globalPropMatch) {
+		const propLine = lines[startIndex];
+		deck.properties = parseProperties(globalPropMatch[2], propLine.line, globalPropMatch[1].length + 2);
+		startIndex++;
+	}
+	checkPropertyKeys(deck.properties, 'block', deck.diagnostics);
+	deck.options = readDeckOptions(deck.properties, deck.diagnostics);
+
+	// Card options set for the whole block, read once so invalid values are reported once.
+	const reverseKeys = ['reverse', 'bidirectional'];
+	const blockReverse = readFlag(deck.properties, reverseKeys, deck.diagnostics);
+	const blockShuffleAnswers = readFlag(deck.properties, ['shuffle-answers'], deck.diagnostics);
+	const blockTimer = readNumber(deck.properties, 'timer', deck.diagnostics);
+	const blockMatching = readMatchOptions(deck.properties, deck.diagnostics);
+
+	splitCards(lines.slice(startIndex)).forEach(chunk => {
+		const first = chunk[0];
+		const last = chunk[chunk.length - 1];
+
+		const parsed = parseCard([...chunk], deck.diagnostics);
+		if (!parsed) return;
+
+		const { cards, properties } = parsed;
+		checkPropertyKeys(properties, 'card', deck.diagnostics);
+		const explicitId = getProperty(properties, 'id');
+		const shuffleAnswers = readFlag(properties, ['shuffle-answers'], deck.diagnostics) ?? blockShuffleAnswers;
+		const timer = readNumber(properties, 'timer', deck.diagnostics) ?? blockTimer;
+		// Card properties win over the block's, option by option.
+		let matching = blockMatching;
+		if (cards.some(card => card.type === 'fill-in-the-blank')) {
+			matching = { ...blockMatching, ...readMatchOptions(properties, deck.diagnostics) };
+		} else {
+			properties.filter(prop => MATCH_KEYS.includes(prop.key)).forEach(prop => {
+				deck.diagnostics.push({ severity: 'warning', message: `\`${prop.key}\` only applies to fill-in-the-blank cards`, line: prop.line, column: prop.column });
+			});
+		}
+
+		// `reverse` (or `bidirectional`) also asks a Q&A card from answer to question.
+		const reverse = readFlag(properties, reverseKeys, deck.diagnostics) ?? blockReverse ?? false;
+		if (reverse && cards.length === 1 && cards[0].type === 'qa') {
+			const card = cards[0];
+			cards.push({ type: 'qa', question: card.answer, answer: card.question, reversed: true } as QACard);
+		} else if (reverse && properties.some(prop => reverseKeys.includes(prop.key))) {
+			deck.diagnostics.push({ severity: 'warning', message: 'only Q&A cards can be reversed', line: first.line, column: indentOf(first.text) });
+		}
+
+		cards.forEach((card, index) => {
+			card.customBackgroundColor = getProperty(properties, 'bg') || getProperty(deck.properties, 'bg');
+			card.customTextColor = getProperty(properties, 'color') || getProperty(deck.properties, 'color');
+			card.sourcePath = sourcePath;
+			if (card.type === 'fill-in-the-blank') {
+				card.matching = matching;
+			}
+			if (card.type === 'multiple-choice' && shuffleAnswers !== undefined) card.shuffleAnswers = shuffleAnswers;
+			if (timer) card.timer = timer;
+			if (deck.options.title) card.deck = deck.options.title;
+			if (deck.options.tags) card.tags = deck.options.tags;
+			card.position = {
+				start: { line: first.line, column: indentOf(first.text) },
+				end: { line: last.line, column: last.text.length },
+			};
+			// Cards generated from one definition share its pinned ID, suffixed per sibling.
+			card.explicitId = explicitId && (index === 0 ? explicitId : `${explicitId}-${index + 1}`);
+			card.id = card.explicitId || createCardId(sourcePath, getCardFingerprint(card));
+			if (cards.length > 1) card.siblingKey = `${sourcePath}:${first.line}`;
+			deck.cards.push(card);
+		});
+	});
+
+	return deck;
+}
+
+/**
+ * Parses the source string of a flashy code block into an array of Flashcard objects,
+ * dropping any diagnostics.
+ * @param source The raw string content of the flashy code block.
+ * @param sourcePath The path of the note containing the block.
+ */
+export function parseAllCards(source: string, sourcePath: string): Flashcard[] {
+	return parseDeck(source, sourcePath).cards;
+}
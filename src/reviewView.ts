@@ -0,0 +1,235 @@
+import { DropdownComponent, ItemView, MarkdownRenderChild, WorkspaceLeaf } from 'obsidian';
+import type FlashyPlugin from '../main';
+import { CardFilter } from './cardIndex';
+import { Flashcard } from './cards';
+import { renderDeck } from './deck';
+import { computeSchedule, isDue } from './scheduler';
+
+export const VIEW_TYPE_REVIEW = 'flashy-review';
+
+const REVIEW_DECK_PREFIX = 'review:';
+
+/**
+ * Returns the deck ID of a review session over the given filters, which its statistics
+ * and unfinished session are kept under.
+ */
+export function getReviewDeckId(filter: CardFilter): string {
+	// Folders and deck titles may contain any character, so the filters are encoded rather than joined.
+	const parts = [filter.folder ?? '', filter.tag ?? '', filter.notePath ?? '', filter.deck ?? ''];
+	return REVIEW_DECK_PREFIX + JSON.stringify(parts);
+}
+
+/**
+ * Reads the filters back out of a review session's deck ID.
+ * @param deckId The session's deck ID.
+ * @returns The filters, or null if the ID isn't a review session's.
+ */
+export function parseReviewDeckId(deckId: string): CardFilter | null {
+	if (!deckId.startsWith(REVIEW_DECK_PREFIX)) return null;
+	const encoded = deckId.substring(REVIEW_DECK_PREFIX.length);
+	let parts: string[] | null = null;
+	if (encoded.startsWith('[')) {
+		try {
+			const decoded: unknown = JSON.parse(encoded);
+			if (Array.isArray(decoded) && decoded.length === 4 && decoded.every(part => typeof part === 'string')) parts = decoded;
+		} catch (error) {
+			return null;
+		}
+	} else {
+		// Older versions joined the filters with `:` and left out an empty deck. The note path is
+		// the only filter ending in `.md`, which tells it apart from a deck title after it.
+		const match = encoded.match(/^([^:]*):([^:]*):(|.*?\.md)(?::(.*))?$/);
+		if (match) parts = [match[1], match[2], match[3], match[4] ?? ''];
+	}
+	if (!parts) return null;
+	const [folder, tag, notePath, deck] = parts;
+	const filter: CardFilter = {};
+	if (folder) filter.folder = folder;
+	if (tag) filter.tag = tag;
+	if (notePath) filter.notePath = notePath;
+	if (deck) filter.deck = deck;
+	return filter;
+}
+
+/**
+ * Returns the deck ID of a review session after a note or folder it is narrowed down to was renamed.
+ * @param deckId The session's deck ID.
+ * @param oldPath The path before the rename.
+ * @param newPath The path after the rename.
+ * @returns The new ID, or null if the ID isn't a review session's or doesn't include the path.
+ */
+export function renameReviewDeckId(deckId: string, oldPath: string, newPath: string): string | null {
+	const filter = parseReviewDeckId(deckId);
+	if (!filter) return null;
+	// A renamed folder moves the notes and folders in it too.
+	const renamePath = (path: string | undefined) => {
+		if (path === undefined || (path !== oldPath && !path.startsWith(`${oldPath}/`))) return path;
+		return newPath + path.substring(oldPath.length);
+	};
+	const renamed = { ...filter, folder: renamePath(filter.folder), notePath: renamePath(filter.notePath) };
+	if (renamed.folder === filter.folder && renamed.notePath === filter.notePath) return null;
+	return getReviewDeckId(renamed);
+}
+
+/**
+ * A workspace view that combines the due cards of every `flashy` block in the vault
+ * into a single review session, optionally narrowed down by folder, tag or note.
+ */
+export class FlashyReviewView extends ItemView {
+	private readonly plugin: FlashyPlugin;
+	private filter: CardFilter = {};
+	private dueOnly = true;
+	private deckChild: MarkdownRenderChild | null = null;
+
+	private filtersEl: HTMLElement;
+	private statusEl: HTMLElement;
+	private deckEl: HTMLElement;
+
+	/**
+	 * Creates an instance of FlashyReviewView.
+	 * @param leaf The workspace leaf hosting the view.
+	 * @param plugin The FlashyPlugin instance.
+	 */
+	constructor(leaf: WorkspaceLeaf, plugin: FlashyPlugin) {
+		super(leaf);
+		this.plugin = plugin;
+	}
+
+	getViewType(): string {
+		return VIEW_TYPE_REVIEW;
+	}
+
+	getDisplayText(): string {
+		return 'Flashy review';
+	}
+
+	getIcon(): string {
+		return 'blocks';
+	}
+
+	/** Called when the view is opened. */
+	async onOpen() {
+		const { contentEl } = this;
+		contentEl.empty();
+		contentEl.addClass('flashy-review-view');
+
+		this.filtersEl = contentEl.createDiv({ cls: 'flashy-review-filters' });
+		this.statusEl = contentEl.createDiv({ cls: 'flashy-review-status' });
+		this.deckEl = contentEl.createDiv({ cls: 'flashy-review-deck' });
+
+		this.registerEvent(this.plugin.cardIndex.on('changed', () => this.renderToolbar()));
+		this.renderToolbar();
+	}
+
+	/** Called when the view is closed. */
+	async onClose() {
+		this.stopSession();
+	}
+
+	/**
+	 * Returns the cards matching the current filters, restricted to due cards if requested.
+	 */
+	private getSessionCards(): Flashcard[] {
+		const cards = this.plugin.cardIndex.getCards(this.filter);
+		if (!this.dueOnly) return cards;
+		const now = Date.now();
+		return cards.filter(card => isDue(computeSchedule(this.plugin.reviews[card.id]), now));
+	}
+
+	/**
+	 * Renders the filter dropdowns and the session status line.
+	 * Called again whenever the card index changes, without interrupting a running session.
+	 */
+	private renderToolbar() {
+		const index = this.plugin.cardIndex;
+		this.filtersEl.empty();
+
+		const addFilter = (label: string, values: string[], key: keyof CardFilter) => {
+			const wrapper = this.filtersEl.createDiv({ cls: 'flashy-review-filter' });
+			wrapper.createEl('label', { text: label });
+			const dropdown = new DropdownComponent(wrapper).addOption('', 'All');
+			values.forEach(value => dropdown.addOption(value, value));
+			// Drop a selection that no longer exists (e.g. the note was deleted).
+			if (this.filter[key] && !values.includes(this.filter[key] as string)) delete this.filter[key];
+			dropdown.setValue(this.filter[key] ?? '').onChange(value => {
+				if (value) this.filter[key] = value;
+				else delete this.filter[key];
+				this.renderStatus();
+			});
+		};
+
+		addFilter('Deck', index.getDecks(), 'deck');
+		addFilter('Folder', index.getFolders(), 'folder');
+		addFilter('Tag', index.getTags(), 'tag');
+		addFilter('Note', index.getNotePaths(), 'notePath');
+
+		const dueWrapper = this.filtersEl.createDiv({ cls: 'flashy-review-filter' });
+		const dueLabel = dueWrapper.createEl('label', { text: 'Due cards only' });
+		const dueCheckbox = dueLabel.createEl('input', { type: 'checkbox' });
+		dueCheckbox.checked = this.dueOnly;
+		dueCheckbox.addEventListener('change', () => {
+			this.dueOnly = dueCheckbox.checked;
+			this.renderStatus();
+		});
+
+		this.renderStatus();
+	}
+
+	/**
+	 * Renders the number of matching cards and the button that starts (or restarts) a session.
+	 */
+	private renderStatus() {
+		this.statusEl.empty();
+		const count = this.getSessionCards().length;
+		const noun = count === 1 ? 'card' : 'cards';
+		this.statusEl.createSpan({ text: this.dueOnly ? `${count} ${noun} due` : `${count} ${noun}` });
+
+		const startButton = this.statusEl.createEl('button', {
+			text: this.deckChild ? 'Restart review' : 'Start review',
+			cls: 'mod-cta'
+		});
+		startButton.disabled = count === 0;
+		startButton.addEventListener('click', () => this.startSession());
+	}
+
+	/**
+	 * Sets the filters and starts a session right away, e.g. from a command.
+	 * @param filter The folder, tag, note and deck restrictions to apply.
+	 * @param dueOnly Whether to only review the cards that are due.
+	 */
+	startReview(filter: CardFilter, dueOnly: boolean) {
+		this.filter = { ...filter };
+		this.dueOnly = dueOnly;
+		this.renderToolbar();
+		this.startSession();
+	}
+
+	/**
+	 * Starts a new review session with the cards matching the current filters.
+	 */
+	private startSession() {
+		this.stopSession();
+		const cards = this.getSessionCards();
+		if (cards.length === 0) {
+			this.deckEl.createEl('p', { text: 'Nothing to review right now.', cls: 'flashcard-error' });
+			return;
+		}
+		const scope = [this.filter.deck, this.filter.folder, this.filter.tag && `#${this.filter.tag}`, this.filter.notePath].filter(Boolean).join(', ');
+		this.deckChild = this.addChild(renderDeck(this.plugin, this.deckEl, cards, {
+			id: getReviewDeckId(this.filter),
+			name: scope ? `Review: ${scope}` : 'Review: whole vault',
+		}));
+		this.renderStatus();
+	}
+
+	/**
+	 * Tears down the running session, if any.
+	 */
+	private stopSession() {
+		if (this.deckChild) {
+			this.removeChild(this.deckChild);
+			this.deckChild = null;
+		}
+		this.deckEl.empty();
+	}
+}
@@ -0,0 +1,140 @@
+/**
+ * The four self-assessment grades offered after a card has been answered.
+ * Modeled after the SM-2 family of schedulers used by Anki.
+ */
+export type ReviewGrade = 'again' | 'hard' | 'good' | 'easy';
+
+export const REVIEW_GRADES: ReviewGrade[] = ['again', 'hard', 'good', 'easy'];
+
+/**
+ * A single recorded review of a card.
+ */
+export interface ReviewLog {
+	/** Unix timestamp (ms) of when the card was graded. */
+	timestamp: number;
+	grade: ReviewGrade;
+}
+
+/**
+ * Persisted review history, keyed by card ID.
+ */
+export type ReviewHistory = Record<string, ReviewLog[]>;
+
+/**
+ * Scheduling state of a card, derived by replaying its review history.
+ */
+export interface CardSchedule {
+	/** Ease factor applied to the interval on a "good" review. */
+	ease: number;
+	/** Current interval in days. 0 means the card is (re)learning. */
+	interval: number;
+	/** Number of consecutive successful reviews. */
+	repetitions: number;
+	/** Number of times the card was forgotten after being learned. */
+	lapses: number;
+	/** Unix timestamp (ms) of when the card is next due. */
+	due: number;
+	/** Unix timestamp (ms) of the last review, if any. */
+	lastReview?: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MINUTE_MS = 60 * 1000;
+
+const INITIAL_EASE = 2.5;
+const MINIMUM_EASE = 1.3;
+const RELEARN_DELAY_MS = 10 * MINUTE_MS;
+const HARD_INTERVAL_FACTOR = 1.2;
+const EASY_BONUS = 1.3;
+
+/**
+ * Returns the schedule of a card that has never been reviewed.
+ * New cards are due immediately.
+ */
+export function newCardSchedule(): CardSchedule {
+	return { ease: INITIAL_EASE, interval: 0, repetitions: 0, lapses: 0, due: 0 };
+}
+
+/**
+ * Applies a single grade to a schedule and returns the resulting schedule.
+ * @param schedule The schedule before the review.
+ * @param grade The grade given by the user.
+ * @param timestamp When the review happened.
+ */
+export function applyGrade(schedule: CardSchedule, grade: ReviewGrade, timestamp: number): CardSchedule {
+	let { ease, interval, repetitions, lapses } = schedule;
+
+	if (grade === 'again') {
+		if (repetitions > 0) lapses++;
+		repetitions = 0;
+		interval = 0;
+		ease = Math.max(MINIMUM_EASE, ease - 0.2);
+		return { ease, interval, repetitions, lapses, due: timestamp + RELEARN_DELAY_MS, lastReview: timestamp };
+	}
+
+	if (grade === 'hard') {
+		ease = Math.max(MINIMUM_EASE, ease - 0.15);
+		interval = repetitions === 0 ? 1 : Math.max(interval + 1, Math.round(interval * HARD_INTERVAL_FACTOR));
+	} else if (grade === 'good') {
+		if (repetitions === 0) interval = 1;
+		else if (repetitions === 1) interval = 6;
+		else interval = Math.max(interval + 1, Math.round(interval * ease));
+	} else {
+		ease += 0.15;
+		if (repetitions === 0) interval = 4;
+		else interval = Math.max(interval + 1, Math.round(interval * ease * EASY_BONUS));
+	}
+
+	repetitions++;
+	return { ease, interval, repetitions, lapses, due: timestamp + interval * DAY_MS, lastReview: timestamp };
+}
+
+/**
+ * Computes the current schedule of a card by replaying its review history in order.
+ * @param logs The recorded reviews of the card.
+ */
+export function computeSchedule(logs: ReviewLog[] | undefined): CardSchedule {
+	if (!logs || logs.length === 0) return newCardSchedule();
+	return [...logs]
+		.sort((a, b) => a.timestamp - b.timestamp)
+		.reduce((schedule, log) => applyGrade(schedule, log.grade, log.timestamp), newCardSchedule());
+}
+
+/**
+ * Checks whether a card should be reviewed at the given time.
+ */
+export function isDue(schedule: CardSchedule, now: number = Date.now()): boolean {
+	return schedule.due <= now;
+}
+
+/**
+ * Formats a duration in milliseconds as a short human-readable interval, e.g. "10m", "4d" or "2mo".
+ */
+export function formatInterval(ms: number): string {
+	if (ms < 60 * MINUTE_MS) return `${Math.max(1, Math.round(ms / MINUTE_MS))}m`;
+	if (ms < DAY_MS) return `${Math.round(ms / (60 * MINUTE_MS))}h`;
+	const days = Math.round(ms / DAY_MS);
+	if (days < 30) return `${days}d`;
+	if (days < 365) return `${Math.round(days / 30)}mo`;
+	return `${(days / 365).toFixed(1)}y`;
+}
+
+/**
+ * Describes when a card is due relative to now, e.g. "New", "Due" or "Due in 4d".
+ */
+export function describeSchedule(schedule: CardSchedule, now: number = Date.now()): string {
+	if (schedule.lastReview === undefined) return 'New';
+	if (isDue(schedule, now)) return 'Due';
+	return `Due in ${formatInterval(schedule.due - now)}`;
+}
+
+/**
+ * Returns the interval each grade would produce, for labelling the grading buttons.
+ */
+export function previewIntervals(schedule: CardSchedule, now: number = Date.now()): Record<ReviewGrade, string> {
+	const preview = {} as Record<ReviewGrade, string>;
+	REVIEW_GRADES.forEach(grade => {
+		preview[grade] = formatInterval(applyGrade(schedule, grade, now).due - now);
+	});
+	return preview;
+}
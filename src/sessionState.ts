@@ -0,0 +1,104 @@
+import { CardOutcome, renameNoteDeckId } from './stats';
+
+/**
+ * A snapshot of an unfinished review session, enough to pick it up where it was left.
+ */
+export interface DeckSessionState {
+	/** IDs of the cards in session order, retries of missed cards included. */
+	cardIds: string[];
+	currentIndex: number;
+	/** Positions in `cardIds` that have been graded. */
+	answered: number[];
+	/** Positions in `cardIds` holding a retry of a missed card. */
+	retries: number[];
+	stats: { correct: number, incorrect: number, answered: number };
+	outcomes: CardOutcome[];
+	/** Unix timestamp (ms) of when the session started. */
+	startedAt: number;
+	missedOnly: boolean;
+	/** Unix timestamp (ms) of the last change. */
+	savedAt: number;
+}
+
+/**
+ * Persisted session states, keyed by deck ID.
+ */
+export type SessionStateData = Record<string, DeckSessionState>;
+
+/**
+ * Keeps the unfinished session of every deck, so re-rendering a block (editing the note,
+ * switching tabs, scrolling in live preview) or restarting the app doesn't lose progress.
+ */
+export class SessionStateStore {
+	private readonly data: SessionStateData;
+	private readonly onChange: () => void;
+	/** Decks whose state was loaded from disk and hasn't been touched since. */
+	private readonly restored: Set<string>;
+
+	/**
+	 * Creates an instance of SessionStateStore.
+	 * @param data The persisted states, modified in place.
+	 * @param onChange Called whenever a state changes and should be saved.
+	 */
+	constructor(data: SessionStateData, onChange: () => void) {
+		this.data = data;
+		this.onChange = onChange;
+		this.restored = new Set(Object.keys(data));
+	}
+
+	/** Returns the unfinished session of a deck, if any. */
+	get(deckId: string): DeckSessionState | undefined {
+		return this.data[deckId];
+	}
+
+	/**
+	 * Whether the deck's state comes from a previous run of the app rather than an earlier render.
+	 */
+	isRestored(deckId: string): boolean {
+		return this.restored.has(deckId);
+	}
+
+	/** Stores the current state of a deck's session. */
+	set(deckId: string, state: DeckSessionState) {
+		this.data[deckId] = state;
+		this.restored.delete(deckId);
+		this.onChange();
+	}
+
+	/** Forgets a deck's session, e.g. because it was finished or restarted. */
+	delete(deckId: string) {
+		this.restored.delete(deckId);
+		if (!this.data[deckId]) return;
+		delete this.data[deckId];
+		this.onChange();
+	}
+
+	/**
+	 * Moves the sessions of a note's decks to its new path.
+	 */
+	rename(oldPath: string, newPath: string) {
+		this.renameDecks(deckId => renameNoteDeckId(deckId, oldPath, newPath));
+	}
+
+	/**
+	 * Moves sessions to new deck IDs.
+	 * @param getNewId Returns the new ID of a deck, or null to leave it where it is.
+	 */
+	renameDecks(getNewId: (deckId: string) => string | null) {
+		let changed = false;
+		Object.keys(this.data).forEach(deckId => {
+			const newId = getNewId(deckId);
+			if (newId === null || newId === deckId) return;
+			this.data[newId] = this.data[deckId];
+			delete this.data[deckId];
+			if (this.restored.delete(deckId)) this.restored.add(newId);
+			changed = true;
+		});
+		if (changed) this.onChange();
+	}
+
+	/** Returns the states to persist. */
+	getData(): SessionStateData {
+		return this.data;
+	}
+}
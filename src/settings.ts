@@ -0,0 +1,132 @@
+import { FlashyCardType } from './cards';
+import { AnswerMatchOptions } from './matching';
+import { FlashyTheme } from './themes';
+
+/**
+ * Interface for the plugin's settings.
+ * Defines configurable options such as card shuffling, auto-advancement,
+ * and default card types for the creation modal.
+ */
+export interface FlashyPluginSettings {
+	shuffleCards: boolean;
+	shuffleAnswers: boolean;
+	autoAdvance: boolean;
+	autoAdvanceIncorrect: boolean;
+	autoAdvanceDelay: number;
+	requeueMissedCards: boolean;
+	rememberSessions: boolean;
+	defaultModalCardType: FlashyCardType;
+	keyPreviousCard: string;
+	keyNextCard: string;
+	keyResetSession: string;
+	keySkipCard: string;
+	keySubmitAnswer: string;
+	keyShowAnswer: string;
+	keyGradeAgain: string;
+	keyGradeHard: string;
+	keyGradeGood: string;
+	keyGradeEasy: string;
+	enableKeyboardNav: boolean;
+	typoTolerance: number;
+	ignoreAccents: boolean;
+	ignorePunctuation: boolean;
+	numericTolerance: number;
+	allowRegexAnswers: boolean;
+	enableInlineCards: boolean;
+	inlineCardTag: string;
+	showStatusBar: boolean;
+	/** Reviews to do each day; 0 turns the goal off. */
+	dailyGoal: number;
+	highContrast: boolean;
+	reduceMotion: boolean;
+	themes: FlashyTheme[];
+	/** Name of the theme of decks that don't choose one; '' for the default look. */
+	defaultTheme: string;
+}
+
+/**
+ * Default settings for the Flashy plugin.
+ */
+export const DEFAULT_SETTINGS: FlashyPluginSettings = {
+	shuffleCards: false,
+	shuffleAnswers: true,
+	autoAdvance: false,
+	autoAdvanceIncorrect: false,
+	autoAdvanceDelay: 1000,
+	requeueMissedCards: false,
+	rememberSessions: true,
+	defaultModalCardType: 'multiple-choice',
+	keyPreviousCard: 'ArrowLeft',
+	keyNextCard: 'ArrowRight',
+	keyResetSession: 'R',
+	keySkipCard: 'S',
+	keySubmitAnswer: 'Enter',
+	keyShowAnswer: 'Space',
+	keyGradeAgain: '1',
+	keyGradeHard: '2',
+	keyGradeGood: '3',
+	keyGradeEasy: '4',
+	enableKeyboardNav: true,
+	typoTolerance: 1,
+	ignoreAccents: true,
+	ignorePunctuation: true,
+	numericTolerance: 0,
+	allowRegexAnswers: false,
+	enableInlineCards: true,
+	inlineCardTag: 'flashcards',
+	showStatusBar: true,
+	dailyGoal: 0,
+	highContrast: false,
+	reduceMotion: false,
+	themes: [
+		{
+			name: 'exam',
+			accent: '#374151',
+			correct: '#15803d',
+			incorrect: '#b91c1c',
+			background: '',
+			text: '',
+			font: 'Georgia, "Times New Roman", serif',
+			borderRadius: 4,
+			cardWidth: 720,
+			cardHeight: 0,
+		},
+		{
+			name: 'chalkboard',
+			accent: '#f6e58d',
+			correct: '#3c8d2f',
+			incorrect: '#c0392b',
+			background: '#2d3b36',
+			text: '#f5f6fa',
+			font: '"Chalkboard SE", "Comic Sans MS", cursive',
+			borderRadius: 2,
+			cardWidth: 0,
+			cardHeight: 280,
+		},
+	],
+	defaultTheme: '',
+}
+
+/**
+ * Applies the high contrast and reduced motion settings to a window, whose stylesheet
+ * picks them up from the `flashy-high-contrast` and `flashy-reduce-motion` classes on its body.
+ * @param body The body of the window.
+ * @param settings The settings to apply; turn both off to remove the classes.
+ */
+export function applyDisplaySettings(body: HTMLElement, settings: Pick<FlashyPluginSettings, 'highContrast' | 'reduceMotion'>) {
+	body.toggleClass('flashy-high-contrast', settings.highContrast);
+	body.toggleClass('flashy-reduce-motion', settings.reduceMotion);
+}
+
+/**
+ * Returns the global answer matching defaults from the settings.
+ */
+export function getMatchOptions(settings: FlashyPluginSettings): AnswerMatchOptions {
+	return {
+		typoTolerance: settings.typoTolerance,
+		ignoreAccents: settings.ignoreAccents,
+		ignorePunctuation: settings.ignorePunctuation,
+		numericTolerance: settings.numericTolerance,
+		allowRegex: settings.allowRegexAnswers,
+	};
+}
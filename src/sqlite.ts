@@ -0,0 +1,259 @@
+/**
+ * A value read from a SQLite record.
+ */
+export type SqliteValue = number | string | Uint8Array | null;
+
+/**
+ * A table row, keyed by column name.
+ */
+export type SqliteRow = Record<string, SqliteValue>;
+
+const TABLE_LEAF = 0x0d;
+const TABLE_INTERIOR = 0x05;
+const INDEX_LEAF = 0x0a;
+const INDEX_INTERIOR = 0x02;
+
+/**
+ * Read-only access to the tables of a SQLite database file held in memory.
+ * Only what's needed to read rowid and `WITHOUT ROWID` tables is implemented: no indexes, WAL or schema changes.
+ */
+export class SqliteDatabase {
+	private readonly data: Uint8Array;
+	private readonly view: DataView;
+	private readonly pageSize: number;
+	private readonly usableSize: number;
+	private readonly decoder = new TextDecoder();
+
+	/**
+	 * Creates an instance of SqliteDatabase.
+	 * @param data The bytes of the database file.
+	 * @throws If the data is not a SQLite database.
+	 */
+	constructor(data: Uint8Array) {
+		if (new TextDecoder().decode(data.subarray(0, 15)) !== 'SQLite format 3') {
+			throw new Error('Not a SQLite database.');
+		}
+		this.data = data;
+		this.view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+		const pageSize = this.view.getUint16(16);
+		this.pageSize = pageSize === 1 ? 65536 : pageSize;
+		this.usableSize = this.pageSize - data[20];
+	}
+
+	/**
+	 * Reads every row of a table.
+	 * @param table The table name.
+	 * @throws If the table doesn't exist.
+	 */
+	readTable(table: string): SqliteRow[] {
+		const schema = this.readRecords(1)
+			.map(values => ({ type: values[0], name: values[1], rootPage: values[3], sql: values[4] }))
+			.find(entry => entry.type === 'table' && typeof entry.name === 'string' && entry.name.toLowerCase() === table.toLowerCase());
+		if (!schema || typeof schema.rootPage !== 'number' || typeof schema.sql !== 'string') {
+			throw new Error(`Table "${table}" not found.`);
+		}
+
+		const columns = this.parseColumns(schema.sql);
+		if (/\)\s*without\s+rowid\s*$/i.test(schema.sql)) {
+			// These tables are stored as an index on their primary key, whose columns come first in each record.
+			const keyConstraint = schema.sql.match(/\bprimary\s+key\s*\(([^)]*)\)/i);
+			const primaryKey = keyConstraint
+				? keyConstraint[1].split(',').map(name => this.unquote(name.trim().split(/\s+/)[0]))
+				: columns.filter(column => column.isPrimaryKey).map(column => column.name);
+			const names = [...primaryKey, ...columns.map(column => column.name).filter(name => !primaryKey.includes(name))];
+			return this.readIndexRecords(schema.rootPage).map(values => {
+				const row: SqliteRow = {};
+				names.forEach((name, index) => {
+					row[name] = values[index] ?? null;
+				});
+				return row;
+			});
+		}
+		return this.readRecords(schema.rootPage, true).map(values => {
+			const rowid = values.pop() as number;
+			const row: SqliteRow = {};
+			columns.forEach((column, index) => {
+				// An INTEGER PRIMARY KEY column is an alias of the rowid and is stored as NULL.
+				row[column.name] = column.isRowid ? rowid : values[index] ?? null;
+			});
+			return row;
+		});
+	}
+
+	/**
+	 * Extracts the column names from a `CREATE TABLE` statement.
+	 */
+	private parseColumns(sql: string): { name: string; isRowid: boolean; isPrimaryKey: boolean }[] {
+		const body = sql.substring(sql.indexOf('(') + 1, sql.lastIndexOf(')'));
+		const definitions: string[] = [''];
+		let depth = 0;
+		for (const char of body) {
+			if (char === '(') depth++;
+			if (char === ')') depth--;
+			if (char === ',' && depth === 0) definitions.push('');
+			else definitions[definitions.length - 1] += char;
+		}
+		return definitions
+			.map(definition => definition.trim())
+			.filter(definition => !/^(primary|unique|check|foreign|constraint)\b/i.test(definition))
+			.map(definition => ({
+				name: this.unquote(definition.split(/\s+/)[0]),
+				isRowid: /^\S+\s+integer\b.*\bprimary\s+key\b/i.test(definition),
+				isPrimaryKey: /\bprimary\s+key\b/i.test(definition),
+			}));
+	}
+
+	/** Strips the quotes from an identifier. */
+	private unquote(name: string): string {
+		return name.replace(/^["`[]|["`\]]$/g, '');
+	}
+
+	/**
+	 * Walks a table b-tree and decodes the record of every row, in rowid order.
+	 * @param page The root page of the table.
+	 * @param withRowid Whether to append each row's rowid to its values.
+	 */
+	private readRecords(page: number, withRowid = false): SqliteValue[][] {
+		const records: SqliteValue[][] = [];
+		const pages = [page];
+
+		while (pages.length > 0) {
+			const pageNumber = pages.shift() as number;
+			const pageStart = (pageNumber - 1) * this.pageSize;
+			const header = pageNumber === 1 ? 100 : 0;
+			const type = this.data[pageStart + header];
+			const cellCount = this.view.getUint16(pageStart + header + 3);
+
+			if (type === TABLE_INTERIOR) {
+				const children: number[] = [];
+				for (let i = 0; i < cellCount; i++) {
+					const cell = pageStart + this.view.getUint16(pageStart + header + 12 + i * 2);
+					children.push(this.view.getUint32(cell));
+				}
+				children.push(this.view.getUint32(pageStart + header + 8));
+				pages.unshift(...children);
+			} else if (type === TABLE_LEAF) {
+				for (let i = 0; i < cellCount; i++) {
+					let cell = pageStart + this.view.getUint16(pageStart + header + 8 + i * 2);
+					const [payloadSize, sizeLength] = this.readVarint(cell);
+					cell += sizeLength;
+					const [rowid, rowidLength] = this.readVarint(cell);
+					cell += rowidLength;
+					const values = this.decodeRecord(this.readPayload(cell, payloadSize));
+					if (withRowid) values.push(rowid);
+					records.push(values);
+				}
+			} else {
+				throw new Error(`Unexpected page type ${type} in table b-tree.`);
+			}
+		}
+
+		return records;
+	}
+
+	/**
+	 * Walks an index b-tree and decodes every key, in key order.
+	 * @param page The root page of the index.
+	 */
+	private readIndexRecords(page: number): SqliteValue[][] {
+		const pageStart = (page - 1) * this.pageSize;
+		const header = page === 1 ? 100 : 0;
+		const type = this.data[pageStart + header];
+		const cellCount = this.view.getUint16(pageStart + header + 3);
+		if (type !== INDEX_LEAF && type !== INDEX_INTERIOR) throw new Error(`Unexpected page type ${type} in index b-tree.`);
+
+		const isInterior = type === INDEX_INTERIOR;
+		const records: SqliteValue[][] = [];
+		for (let i = 0; i < cellCount; i++) {
+			let cell = pageStart + this.view.getUint16(pageStart + header + (isInterior ? 12 : 8) + i * 2);
+			// Interior cells hold a key too, which sorts after every key of their left child.
+			if (isInterior) {
+				records.push(...this.readIndexRecords(this.view.getUint32(cell)));
+				cell += 4;
+			}
+			const [payloadSize, sizeLength] = this.readVarint(cell);
+			records.push(this.decodeRecord(this.readPayload(cell + sizeLength, payloadSize, true)));
+		}
+		if (isInterior) records.push(...this.readIndexRecords(this.view.getUint32(pageStart + header + 8)));
+		return records;
+	}
+
+	/**
+	 * Reads a cell's payload, following its overflow pages if it doesn't fit on the page.
+	 * @param isIndex Whether the cell is on an index page, which keeps less of the payload on the page.
+	 */
+	private readPayload(offset: number, size: number, isIndex = false): Uint8Array {
+		const maxLocal = isIndex ? Math.floor(((this.usableSize - 12) * 64) / 255) - 23 : this.usableSize - 35;
+		if (size <= maxLocal) return this.data.subarray(offset, offset + size);
+
+		const minLocal = Math.floor(((this.usableSize - 12) * 32) / 255) - 23;
+		const spill = minLocal + ((size - minLocal) % (this.usableSize - 4));
+		const local = spill <= maxLocal ? spill : minLocal;
+
+		const payload = new Uint8Array(size);
+		payload.set(this.data.subarray(offset, offset + local));
+		let written = local;
+		let overflow = this.view.getUint32(offset + local);
+		while (overflow !== 0 && written < size) {
+			const pageStart = (overflow - 1) * this.pageSize;
+			const chunk = Math.min(size - written, this.usableSize - 4);
+			payload.set(this.data.subarray(pageStart + 4, pageStart + 4 + chunk), written);
+			written += chunk;
+			overflow = this.view.getUint32(pageStart);
+		}
+		return payload;
+	}
+
+	/**
+	 * Decodes a record into its column values.
+	 */
+	private decodeRecord(record: Uint8Array): SqliteValue[] {
+		const view = new DataView(record.buffer, record.byteOffset, record.byteLength);
+		const [headerSize, headerSizeLength] = this.readVarint(0, record);
+		const types: number[] = [];
+		for (let offset = headerSizeLength; offset < headerSize;) {
+			const [type, length] = this.readVarint(offset, record);
+			types.push(type);
+			offset += length;
+		}
+
+		let offset = headerSize;
+		return types.map(type => {
+			if (type === 0) return null;
+			if (type >= 1 && type <= 6) {
+				const size = [0, 1, 2, 3, 4, 6, 8][type];
+				let value = 0;
+				for (let i = 0; i < size; i++) value = value * 256 + record[offset + i];
+				// Two's complement for negative integers.
+				if (record[offset] & 0x80) value -= Math.pow(2, size * 8);
+				offset += size;
+				return value;
+			}
+			if (type === 7) {
+				const value = view.getFloat64(offset);
+				offset += 8;
+				return value;
+			}
+			if (type === 8 || type === 9) return type - 8;
+
+			const size = Math.floor((type - 12) / 2);
+			const bytes = record.subarray(offset, offset + size);
+			offset += size;
+			return type % 2 === 0 ? bytes : this.decoder.decode(bytes);
+		});
+	}
+
+	/**
+	 * Reads a SQLite variable-length integer.
+	 * @returns The value and the number of bytes it took.
+	 */
+	private readVarint(offset: number, bytes: Uint8Array = this.data): [number, number] {
+		let value = 0;
+		for (let i = 0; i < 8; i++) {
+			const byte = bytes[offset + i];
+			value = value * 128 + (byte & 0x7f);
+			if (!(byte & 0x80)) return [value, i + 1];
+		}
+		return [value * 256 + bytes[offset + 8], 9];
+	}
+}
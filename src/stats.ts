@@ -0,0 +1,238 @@
+import { Flashcard } from './cards';
+import { ReviewGrade, ReviewHistory, computeSchedule, isDue } from './scheduler';
+
+/**
+ * Identifies the deck a session was run on, so attempts at the same deck can be compared.
+ */
+export interface DeckInfo {
+	/** Stable key of the deck, e.g. the note path and the index of its `flashy` block. */
+	id: string;
+	/** Human-readable name shown in statistics. */
+	name: string;
+	/** The note the deck comes from, if it comes from a single note. */
+	sourcePath?: string;
+}
+
+/**
+ * How a single card went during a session.
+ */
+export interface CardOutcome {
+	cardId: string;
+	grade: ReviewGrade;
+	/** Time (ms) between the card being shown and it being graded, summed over retries. */
+	durationMs: number;
+	/** Extra attempts the card needed after being missed, when missed cards are re-queued. */
+	retries?: number;
+	/** Whether the card was eventually answered correctly in the session. */
+	mastered?: boolean;
+}
+
+/**
+ * The result of one completed review session.
+ */
+export interface SessionRecord {
+	deckId: string;
+	deckName: string;
+	sourcePath?: string;
+	/** Unix timestamp (ms) of when the session started. */
+	startedAt: number;
+	/** Unix timestamp (ms) of when the last card was graded. */
+	finishedAt: number;
+	/** One entry per card, in the order they were first answered. `grade` is the first-try grade. */
+	outcomes: CardOutcome[];
+	/** Set when the session only retried the cards missed in the previous one. */
+	missedOnly?: boolean;
+}
+
+/**
+ * Reviews done on one day, and how many of them were answered correctly.
+ */
+export interface DailyActivity {
+	total: number;
+	correct: number;
+}
+
+/**
+ * How often a card was forgotten.
+ */
+export interface MissedCard {
+	cardId: string;
+	misses: number;
+	reviews: number;
+}
+
+/**
+ * Share of reviews of already-seen cards that were remembered.
+ */
+export interface Retention {
+	/** Reviews of cards that had been reviewed before. */
+	reviews: number;
+	/** How many of those were not graded "again". */
+	retained: number;
+}
+
+/**
+ * How many cards are waiting to be reviewed.
+ */
+export interface DueCounts {
+	/** Cards reviewed before that are due again. */
+	due: number;
+	/** Cards never reviewed. */
+	new: number;
+}
+
+/**
+ * Progress towards the daily review goal.
+ */
+export interface GoalProgress {
+	/** Reviews done today. */
+	today: number;
+	/** Consecutive days the goal was met, up to today, or up to yesterday while today's goal is still open. */
+	streak: number;
+}
+
+/** Oldest sessions are dropped beyond this many, to keep the plugin data small. */
+export const MAX_STORED_SESSIONS = 1000;
+
+/**
+ * Returns the local calendar day of a timestamp as `YYYY-MM-DD`.
+ */
+export function dayKey(timestamp: number): string {
+	const date = new Date(timestamp);
+	const pad = (value: number) => `0${value}`.slice(-2);
+	return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/**
+ * Returns the share (0–1) of a session's cards answered correctly on the first try, or 0 for an empty session.
+ */
+export function sessionAccuracy(session: SessionRecord): number {
+	if (session.outcomes.length === 0) return 0;
+	return session.outcomes.filter(outcome => outcome.grade !== 'again').length / session.outcomes.length;
+}
+
+/**
+ * Returns the share (0–1) of a session's cards answered correctly by the end of it, retries included.
+ */
+export function sessionMastery(session: SessionRecord): number {
+	if (session.outcomes.length === 0) return 0;
+	return session.outcomes.filter(outcome => outcome.mastered ?? outcome.grade !== 'again').length / session.outcomes.length;
+}
+
+/**
+ * Returns the most recent full sessions of a deck, newest first. Retries of missed cards are left out.
+ * @param sessions Every stored session, oldest first.
+ * @param deckId The deck to look for.
+ * @param limit Maximum number of sessions to return.
+ */
+export function getRecentSessions(sessions: SessionRecord[], deckId: string, limit: number): SessionRecord[] {
+	return sessions.filter(session => session.deckId === deckId && !session.missedOnly).slice(-limit).reverse();
+}
+
+/**
+ * Returns the deck ID of a note's deck after the note was renamed.
+ * @param deckId The deck's ID.
+ * @param oldPath The note's path before the rename.
+ * @param newPath The note's path after the rename.
+ * @returns The new ID, or null if the deck isn't one of the note's.
+ */
+export function renameNoteDeckId(deckId: string, oldPath: string, newPath: string): string | null {
+	if (deckId === oldPath) return newPath;
+	// Blocks are keyed `path#index` and inline decks `path#inline-line`; anything else belongs to another deck.
+	const suffix = deckId.substring(oldPath.length);
+	return deckId.startsWith(oldPath) && /^#(inline-)?\d+$/.test(suffix) ? newPath + suffix : null;
+}
+
+/**
+ * Counts the reviews done on each day, keyed by `YYYY-MM-DD`.
+ */
+export function getDailyActivity(reviews: ReviewHistory): Map<string, DailyActivity> {
+	const days = new Map<string, DailyActivity>();
+	Object.keys(reviews).forEach(cardId => {
+		reviews[cardId].forEach(log => {
+			const key = dayKey(log.timestamp);
+			const day = days.get(key) ?? { total: 0, correct: 0 };
+			day.total++;
+			if (log.grade !== 'again') day.correct++;
+			days.set(key, day);
+		});
+	});
+	return days;
+}
+
+/**
+ * Returns the cards graded "again" most often, most missed first.
+ * @param reviews The review history.
+ * @param limit Maximum number of cards to return.
+ */
+export function getMostMissedCards(reviews: ReviewHistory, limit: number): MissedCard[] {
+	return Object.keys(reviews)
+		.map(cardId => ({
+			cardId,
+			misses: reviews[cardId].filter(log => log.grade === 'again').length,
+			reviews: reviews[cardId].length,
+		}))
+		.filter(card => card.misses > 0)
+		.sort((a, b) => b.misses - a.misses || b.misses / b.reviews - a.misses / a.reviews)
+		.slice(0, limit);
+}
+
+/**
+ * Measures retention over a set of cards: of the reviews after each card's first one, how many were remembered.
+ * @param reviews The review history.
+ * @param cardIds The cards to include.
+ */
+export function getRetention(reviews: ReviewHistory, cardIds: string[]): Retention {
+	const retention: Retention = { reviews: 0, retained: 0 };
+	cardIds.forEach(cardId => {
+		(reviews[cardId] ?? []).slice(1).forEach(log => {
+			retention.reviews++;
+			if (log.grade !== 'again') retention.retained++;
+		});
+	});
+	return retention;
+}
+
+/**
+ * Formats a share (0–1) as a whole percentage.
+ */
+export function formatPercent(share: number): string {
+	return `${Math.round(share * 100)}%`;
+}
+
+/**
+ * Counts the cards that are due and the ones never reviewed.
+ * @param cards The cards to count.
+ * @param reviews The review history.
+ * @param now The time to check against.
+ */
+export function getDueCounts(cards: Flashcard[], reviews: ReviewHistory, now: number = Date.now()): DueCounts {
+	const counts: DueCounts = { due: 0, new: 0 };
+	cards.forEach(card => {
+		const logs = reviews[card.id];
+		if (!logs || logs.length === 0) counts.new++;
+		else if (isDue(computeSchedule(logs), now)) counts.due++;
+	});
+	return counts;
+}
+
+/**
+ * Returns today's reviews and the streak of days on which at least `goal` reviews were done.
+ * @param reviews The review history.
+ * @param goal Reviews to do each day. Must be at least 1.
+ * @param now The current time.
+ */
+export function getGoalProgress(reviews: ReviewHistory, goal: number, now: number = Date.now()): GoalProgress {
+	const activity = getDailyActivity(reviews);
+	const date = new Date(now);
+	const reviewsOn = (offset: number) =>
+		activity.get(dayKey(new Date(date.getFullYear(), date.getMonth(), date.getDate() - offset).getTime()))?.total ?? 0;
+	const today = reviewsOn(0);
+	let offset = today >= goal ? 0 : 1;
+	let streak = 0;
+	while (reviewsOn(offset) >= goal) {
+		streak++;
+		offset++;
+	}
+	return { today, streak };
+}
@@ -0,0 +1,246 @@
+import { DropdownComponent, ItemView, WorkspaceLeaf } from 'obsidian';
+import type FlashyPlugin from '../main';
+import { Flashcard } from './cards';
+import {
+	dayKey,
+	formatPercent,
+	getDailyActivity,
+	getMostMissedCards,
+	getRetention,
+	sessionAccuracy
+} from './stats';
+
+export const VIEW_TYPE_STATS = 'flashy-stats';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+/** Days shown in the accuracy chart. */
+const ACCURACY_DAYS = 30;
+/** Weeks shown in the review heatmap. */
+const HEATMAP_WEEKS = 26;
+const MISSED_CARDS_SHOWN = 10;
+const RECENT_SESSIONS_SHOWN = 10;
+
+/**
+ * A workspace view summarizing review progress: accuracy over time, a review heatmap,
+ * the most-missed cards, retention per folder or note and the latest sessions.
+ */
+export class FlashyStatsView extends ItemView {
+	private readonly plugin: FlashyPlugin;
+	private retentionGrouping: 'deck' | 'folder' | 'note' = 'folder';
+
+	/**
+	 * Creates an instance of FlashyStatsView.
+	 * @param leaf The workspace leaf hosting the view.
+	 * @param plugin The FlashyPlugin instance.
+	 */
+	constructor(leaf: WorkspaceLeaf, plugin: FlashyPlugin) {
+		super(leaf);
+		this.plugin = plugin;
+	}
+
+	getViewType(): string {
+		return VIEW_TYPE_STATS;
+	}
+
+	getDisplayText(): string {
+		return 'Flashy statistics';
+	}
+
+	getIcon(): string {
+		return 'bar-chart-2';
+	}
+
+	/** Called when the view is opened. */
+	async onOpen() {
+		this.contentEl.addClass('flashy-stats-view');
+		this.registerEvent(this.plugin.cardIndex.on('changed', () => this.render()));
+		this.render();
+	}
+
+	/**
+	 * Renders every section of the view from the current review history and sessions.
+	 */
+	render() {
+		const { contentEl } = this;
+		contentEl.empty();
+		const cardsById = new Map<string, Flashcard>();
+		this.plugin.cardIndex.getCards().forEach(card => cardsById.set(card.id, card));
+
+		this.renderOverview(contentEl);
+		this.renderAccuracyChart(this.createSection(contentEl, 'Accuracy over time'));
+		this.renderHeatmap(this.createSection(contentEl, 'Review activity'));
+		this.renderMostMissed(this.createSection(contentEl, 'Most missed cards'), cardsById);
+		this.renderRetention(this.createSection(contentEl, 'Retention'));
+		this.renderRecentSessions(this.createSection(contentEl, 'Recent sessions'));
+	}
+
+	private createSection(container: HTMLElement, title: string): HTMLElement {
+		const section = container.createDiv({ cls: 'flashy-stats-section' });
+		section.createEl('h4', { text: title });
+		return section;
+	}
+
+	/**
+	 * Renders the headline numbers.
+	 */
+	private renderOverview(container: HTMLElement) {
+		const activity = getDailyActivity(this.plugin.reviews);
+		let total = 0;
+		let correct = 0;
+		activity.forEach(day => {
+			total += day.total;
+			correct += day.correct;
+		});
+		const today = activity.get(dayKey(Date.now()));
+
+		const overview = container.createDiv({ cls: 'flashy-stats-overview' });
+		const addFigure = (value: string, label: string) => {
+			const figure = overview.createDiv({ cls: 'flashy-stats-figure' });
+			figure.createDiv({ text: value, cls: 'flashy-stats-figure-value' });
+			figure.createDiv({ text: label, cls: 'flashy-stats-figure-label' });
+		};
+		addFigure(String(total), 'Reviews');
+		addFigure(String(today ? today.total : 0), 'Reviews today');
+		addFigure(String(this.plugin.sessions.length), 'Sessions');
+		addFigure(total > 0 ? formatPercent(correct / total) : '–', 'Accuracy');
+	}
+
+	/**
+	 * Renders one bar per day for the last weeks, its height being that day's accuracy.
+	 */
+	private renderAccuracyChart(container: HTMLElement) {
+		const activity = getDailyActivity(this.plugin.reviews);
+		const chart = container.createDiv({ cls: 'flashy-stats-chart' });
+		for (let offset = ACCURACY_DAYS - 1; offset >= 0; offset--) {
+			const timestamp = Date.now() - offset * DAY_MS;
+			const day = activity.get(dayKey(timestamp));
+			const column = chart.createDiv({ cls: 'flashy-stats-chart-column' });
+			const label = new Date(timestamp).toLocaleDateString();
+			if (!day) {
+				column.setAttr('aria-label', `${label}: no reviews`);
+				continue;
+			}
+			const accuracy = day.correct / day.total;
+			column.setAttr('aria-label', `${label}: ${formatPercent(accuracy)} of ${day.total} reviews`);
+			column.createDiv({ cls: 'flashy-stats-chart-bar' }).style.height = `${Math.max(accuracy * 100, 2)}%`;
+		}
+	}
+
+	/**
+	 * Renders a calendar heatmap of the number of reviews per day, one column per week.
+	 */
+	private renderHeatmap(container: HTMLElement) {
+		const activity = getDailyActivity(this.plugin.reviews);
+		const heatmap = container.createDiv({ cls: 'flashy-stats-heatmap' });
+		const today = new Date();
+		// Start on the Sunday that makes the last column the current week.
+		const start = new Date(today.getFullYear(), today.getMonth(), today.getDate() - today.getDay() - (HEATMAP_WEEKS - 1) * 7);
+
+		for (let i = 0; i < HEATMAP_WEEKS * 7; i++) {
+			const date = new Date(start.getFullYear(), start.getMonth(), start.getDate() + i);
+			const cell = heatmap.createDiv({ cls: 'flashy-stats-heatmap-cell' });
+			if (date > today) {
+				cell.addClass('is-future');
+				continue;
+			}
+			const count = activity.get(dayKey(date.getTime()))?.total ?? 0;
+			const level = count === 0 ? 0 : count < 5 ? 1 : count < 10 ? 2 : count < 20 ? 3 : 4;
+			cell.addClass(`level-${level}`);
+			cell.setAttr('aria-label', `${date.toLocaleDateString()}: ${count} ${count === 1 ? 'review' : 'reviews'}`);
+		}
+	}
+
+	/**
+	 * Lists the cards forgotten most often, linking to the notes they live in.
+	 */
+	private renderMostMissed(container: HTMLElement, cardsById: Map<string, Flashcard>) {
+		const missed = getMostMissedCards(this.plugin.reviews, MISSED_CARDS_SHOWN * 2)
+			.filter(entry => cardsById.has(entry.cardId))
+			.slice(0, MISSED_CARDS_SHOWN);
+		if (missed.length === 0) {
+			container.createEl('p', { text: 'No missed cards yet.', cls: 'flashy-stats-empty' });
+			return;
+		}
+
+		const list = container.createEl('ol', { cls: 'flashy-stats-missed' });
+		missed.forEach(entry => {
+			const card = cardsById.get(entry.cardId) as Flashcard;
+			const item = list.createEl('li');
+			const link = item.createEl('a', { text: card.question.split('\n')[0], cls: 'flashy-stats-card-link' });
+			link.addEventListener('click', () => this.app.workspace.openLinkText(card.sourcePath, '', false));
+			item.createSpan({
+				text: ` ${entry.misses} of ${entry.reviews} reviews missed`,
+				cls: 'flashy-stats-muted',
+			});
+		});
+	}
+
+	/**
+	 * Renders a table of retention per folder or per note.
+	 */
+	private renderRetention(container: HTMLElement) {
+		new DropdownComponent(container)
+			.addOption('deck', 'By deck')
+			.addOption('folder', 'By folder')
+			.addOption('note', 'By note')
+			.setValue(this.retentionGrouping)
+			.onChange(value => {
+				this.retentionGrouping = value as 'deck' | 'folder' | 'note';
+				this.render();
+			});
+
+		const groups = new Map<string, string[]>();
+		this.plugin.cardIndex.getCards().forEach(card => {
+			const path = card.sourcePath;
+			let key: string;
+			if (this.retentionGrouping === 'deck') key = card.deck ?? (path.split('/').pop() ?? path).replace(/\.md$/, '');
+			else if (this.retentionGrouping === 'note') key = path;
+			else key = path.includes('/') ? path.substring(0, path.lastIndexOf('/')) : '/';
+			groups.set(key, (groups.get(key) ?? []).concat(card.id));
+		});
+
+		const rows = Array.from(groups.entries())
+			.map(([name, ids]) => ({ name, ids, retention: getRetention(this.plugin.reviews, ids) }))
+			.filter(row => row.retention.reviews > 0)
+			.sort((a, b) => a.name.localeCompare(b.name));
+		if (rows.length === 0) {
+			container.createEl('p', { text: 'Retention shows up once cards have been reviewed more than once.', cls: 'flashy-stats-empty' });
+			return;
+		}
+
+		const table = container.createEl('table', { cls: 'flashy-stats-table' });
+		const header = table.createEl('tr');
+		[{ deck: 'Deck', folder: 'Folder', note: 'Note' }[this.retentionGrouping], 'Cards', 'Reviews', 'Retention'].forEach(text => header.createEl('th', { text }));
+		rows.forEach(row => {
+			const tr = table.createEl('tr');
+			tr.createEl('td', { text: row.name === '/' ? 'Vault root' : row.name });
+			tr.createEl('td', { text: String(row.ids.length) });
+			tr.createEl('td', { text: String(row.retention.reviews) });
+			tr.createEl('td', { text: formatPercent(row.retention.retained / row.retention.reviews) });
+		});
+	}
+
+	/**
+	 * Lists the latest completed sessions with their scores.
+	 */
+	private renderRecentSessions(container: HTMLElement) {
+		const sessions = this.plugin.sessions.slice(-RECENT_SESSIONS_SHOWN).reverse();
+		if (sessions.length === 0) {
+			container.createEl('p', { text: 'Finish a deck to see it here.', cls: 'flashy-stats-empty' });
+			return;
+		}
+
+		const table = container.createEl('table', { cls: 'flashy-stats-table' });
+		const header = table.createEl('tr');
+		['Deck', 'Finished', 'Cards', 'Score', 'Time per card'].forEach(text => header.createEl('th', { text }));
+		sessions.forEach(session => {
+			const tr = table.createEl('tr');
+			tr.createEl('td', { text: session.deckName });
+			tr.createEl('td', { text: new Date(session.finishedAt).toLocaleString() });
+			tr.createEl('td', { text: String(session.outcomes.length) });
+			tr.createEl('td', { text: formatPercent(sessionAccuracy(session)) });
+			const totalMs = session.outcomes.reduce((sum, outcome) => sum + outcome.durationMs, 0);
+			tr.createEl('td', { text: `${(totalMs / Math.max(session.outcomes.length, 1) / 1000).toFixed(1)}s` });
+		});
+	}
+}
@@ -0,0 +1,167 @@
+import { Setting, TextComponent } from 'obsidian';
+
+/**
+ * A named look for decks, chosen per block with `[[theme=name]]`. Empty colours and zero sizes
+ * keep the plugin's defaults, which follow the light or dark mode of the app.
+ */
+export interface FlashyTheme {
+	name: string;
+	/** Colour of links, focus rings and highlights. */
+	accent: string;
+	/** Background of right answers. */
+	correct: string;
+	/** Background of wrong answers. */
+	incorrect: string;
+	/** Background of the card. */
+	background: string;
+	/** Colour of the card's text. */
+	text: string;
+	/** CSS font family, e.g. `Georgia, serif`. */
+	font: string;
+	/** Corner radius (px). */
+	borderRadius: number;
+	/** Largest width (px) of a card; 0 fills the note. */
+	cardWidth: number;
+	/** Smallest height (px) of a card; 0 fits the content. */
+	cardHeight: number;
+}
+
+/** The colour fields of a theme, with how they are named in the settings. */
+export const THEME_COLORS: { key: 'accent' | 'correct' | 'incorrect' | 'background' | 'text'; name: string }[] = [
+	{ key: 'accent', name: 'Accent' },
+	{ key: 'correct', name: 'Correct answers' },
+	{ key: 'incorrect', name: 'Wrong answers' },
+	{ key: 'background', name: 'Card background' },
+	{ key: 'text', name: 'Card text' },
+];
+
+/** Theme names are written in a property line, so they are kept to one word. */
+const THEME_NAME = /^[\w-]+$/;
+
+/**
+ * Returns a theme that changes nothing, to start a new theme from.
+ */
+export function createTheme(name: string): FlashyTheme {
+	return { name, accent: '', correct: '', incorrect: '', background: '', text: '', font: '', borderRadius: 0, cardWidth: 0, cardHeight: 0 };
+}
+
+/**
+ * Returns whether a value is a CSS colour, e.g. `#336699`, `rebeccapurple`, `rgb(0 0 0 / 50%)` or `var(--text-accent)`.
+ * An empty value counts as valid, since it means no colour was set.
+ */
+export function isValidColor(value: string): boolean {
+	const trimmed = value.trim();
+	return trimmed === '' || CSS.supports('color', trimmed);
+}
+
+/**
+ * Finds a theme by name, ignoring case.
+ */
+export function findTheme(themes: FlashyTheme[], name: string): FlashyTheme | undefined {
+	const lower = name.trim().toLowerCase();
+	return themes.find(theme => theme.name.toLowerCase() === lower);
+}
+
+/**
+ * Checks a theme before it is saved.
+ * @param theme The theme to check.
+ * @param others The other themes, whose names it may not take.
+ * @returns The problems found, empty if the theme can be saved.
+ */
+export function validateTheme(theme: FlashyTheme, others: FlashyTheme[]): string[] {
+	const problems: string[] = [];
+	if (!THEME_NAME.test(theme.name)) problems.push('The name may only contain letters, digits, - and _.');
+	else if (findTheme(others, theme.name)) problems.push(`There is already a theme called "${theme.name}".`);
+	THEME_COLORS.forEach(({ key, name }) => {
+		if (!isValidColor(theme[key])) problems.push(`${name}: "${theme[key]}" is not a CSS colour.`);
+	});
+	return problems;
+}
+
+/**
+ * Returns the CSS custom properties a theme sets, leaving out what it keeps at the default.
+ */
+export function getThemeProperties(theme: FlashyTheme): Record<string, string> {
+	const properties: Record<string, string> = {};
+	const set = (property: string, value: string) => {
+		if (value.trim()) properties[property] = value.trim();
+	};
+	set('--flashy-accent', theme.accent);
+	set('--flashy-correct-bg', theme.correct);
+	set('--flashy-incorrect-bg', theme.incorrect);
+	set('--flashy-bg', theme.background);
+	set('--flashy-question-text', theme.text);
+	set('--flashy-answer-text', theme.text);
+	set('--flashy-font', theme.font);
+	if (theme.borderRadius > 0) properties['--flashy-border-radius'] = `${theme.borderRadius}px`;
+	if (theme.cardWidth > 0) properties['--flashy-card-width'] = `${theme.cardWidth}px`;
+	if (theme.cardHeight > 0) properties['--flashy-card-height'] = `${theme.cardHeight}px`;
+	return properties;
+}
+
+/** Every custom property a theme can set, to clear a previous theme. */
+const THEME_PROPERTIES = [
+	'--flashy-accent', '--flashy-correct-bg', '--flashy-incorrect-bg', '--flashy-bg', '--flashy-question-text',
+	'--flashy-answer-text', '--flashy-font', '--flashy-border-radius', '--flashy-card-width', '--flashy-card-height',
+];
+
+/**
+ * Applies a theme to a deck, replacing the theme applied before. The colours of single cards (`bg` and `color`) still win.
+ * @param el The element holding the deck.
+ * @param theme The theme to apply, or undefined for the default look.
+ */
+export function applyTheme(el: HTMLElement, theme: FlashyTheme | undefined) {
+	THEME_PROPERTIES.forEach(property => el.style.removeProperty(property));
+	el.toggleClass('flashy-themed', theme !== undefined);
+	if (!theme) return;
+	const properties = getThemeProperties(theme);
+	Object.keys(properties).forEach(property => el.style.setProperty(property, properties[property]));
+}
+
+/**
+ * Renders a small sample card in a theme: a question with a right and a wrong answer picked.
+ * @param el The element to render into. It is emptied first.
+ * @param theme The theme to show.
+ */
+export function renderThemePreview(el: HTMLElement, theme: FlashyTheme) {
+	el.empty();
+	applyTheme(el, theme);
+	const card = el.createDiv({ cls: 'flashcard-container flashy-theme-sample', attr: { 'aria-hidden': 'true' } });
+	card.createDiv({ text: 'What is the capital of France?', cls: 'flashcard-question' });
+	const buttons = card.createDiv({ cls: 'flashcard-buttons' });
+	buttons.createEl('button', { text: 'Paris', cls: 'flashcard-answer correct', attr: { tabindex: '-1' } });
+	buttons.createEl('button', { text: 'Lyon', cls: 'flashcard-answer incorrect', attr: { tabindex: '-1' } });
+	buttons.createEl('button', { text: 'Nice', cls: 'flashcard-answer', attr: { tabindex: '-1' } });
+}
+
+/**
+ * Adds a setting for a CSS colour: a text field with a swatch of the colour, marked invalid while the value isn't one.
+ * @param containerEl The element to add the setting to.
+ * @param name The setting's name.
+ * @param desc The setting's description.
+ * @param value The current colour, '' if none.
+ * @param onChange Called with every change, valid or not.
+ */
+export function addColorSetting(containerEl: HTMLElement, name: string, desc: string, value: string, onChange: (value: string) => void): Setting {
+	const setting = new Setting(containerEl).setName(name).setDesc(desc);
+	const swatch = setting.controlEl.createSpan({ cls: 'flashy-color-swatch', attr: { 'aria-hidden': 'true' } });
+	const update = (text: TextComponent, current: string) => {
+		const valid = isValidColor(current);
+		text.inputEl.toggleClass('is-invalid', !valid);
+		text.inputEl.setAttr('aria-invalid', String(!valid));
+		swatch.toggleClass('is-empty', !valid || !current.trim());
+		if (valid && current.trim()) swatch.style.setProperty('--flashy-swatch-color', current.trim());
+		else swatch.style.removeProperty('--flashy-swatch-color');
+	};
+	setting.addText(text => {
+		text.inputEl.addClass('flashy-color-input');
+		text.setPlaceholder('e.g. #336699 or teal')
+			.setValue(value)
+			.onChange(current => {
+				update(text, current);
+				onChange(current);
+			});
+		update(text, value);
+	});
+	return setting;
+}
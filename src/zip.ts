@@ -0,0 +1,71 @@
+/**
+ * Minimal typing for the browser's DecompressionStream, which the bundled DOM lib predates.
+ */
+declare const DecompressionStream: {
+	new(format: 'deflate-raw'): TransformStream<Uint8Array, Uint8Array>;
+};
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_ENTRY = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+
+/**
+ * A file stored in a zip archive, decompressed on demand.
+ */
+export interface ZipEntry {
+	name: string;
+	read(): Promise<Uint8Array>;
+}
+
+/**
+ * Inflates raw deflate data with the platform's built-in decompressor.
+ */
+async function inflateRaw(data: Uint8Array): Promise<Uint8Array> {
+	const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+	return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/**
+ * Lists the files of a zip archive. Only stored and deflated entries are supported, without zip64.
+ * @param data The bytes of the archive.
+ * @throws If the data is not a zip archive.
+ */
+export function readZip(data: Uint8Array): Map<string, ZipEntry> {
+	const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+	const entries = new Map<string, ZipEntry>();
+
+	// The end-of-central-directory record sits at the very end, followed by an optional comment.
+	let end = data.length - 22;
+	while (end >= 0 && view.getUint32(end, true) !== END_OF_CENTRAL_DIRECTORY) end--;
+	if (end < 0) throw new Error('Not a zip archive.');
+
+	const count = view.getUint16(end + 10, true);
+	let offset = view.getUint32(end + 16, true);
+	const decoder = new TextDecoder();
+
+	for (let i = 0; i < count; i++) {
+		if (view.getUint32(offset, true) !== CENTRAL_DIRECTORY_ENTRY) throw new Error('Corrupt zip archive.');
+		const method = view.getUint16(offset + 10, true);
+		const compressedSize = view.getUint32(offset + 20, true);
+		const nameLength = view.getUint16(offset + 28, true);
+		const extraLength = view.getUint16(offset + 30, true);
+		const commentLength = view.getUint16(offset + 32, true);
+		const localOffset = view.getUint32(offset + 42, true);
+		const name = decoder.decode(data.subarray(offset + 46, offset + 46 + nameLength));
+		offset += 46 + nameLength + extraLength + commentLength;
+
+		entries.set(name, {
+			name,
+			read: async () => {
+				if (view.getUint32(localOffset, true) !== LOCAL_FILE_HEADER) throw new Error(`Corrupt zip entry "${name}".`);
+				const start = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+				const raw = data.subarray(start, start + compressedSize);
+				if (method === 0) return raw;
+				if (method === 8) return inflateRaw(raw);
+				throw new Error(`Unsupported compression method ${method} for "${name}".`);
+			},
+		});
+	}
+
+	return entries;
+}
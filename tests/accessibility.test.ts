@@ -0,0 +1,138 @@
+import { wait } from './dom';
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as path from 'path';
+import { applyDisplaySettings } from '../src/settings';
+import { renderTestDeck as render } from './render';
+
+/** How long an announcement takes to reach the live region. */
+const ANNOUNCE_DELAY = 150;
+
+describe('live region', () => {
+	it('announces the result of an answer', async () => {
+		const { liveRegion, answers } = render('Pick one\n=Right\nWrong');
+		assert.equal(liveRegion.getAttribute('aria-live'), 'polite');
+		answers()[0].click();
+		assert.equal(liveRegion.textContent, '');
+		await wait(ANNOUNCE_DELAY);
+		assert.equal(liveRegion.textContent, 'Correct!');
+	});
+
+	it('announces moving to another card, but not the first card', async () => {
+		const { liveRegion, nextButton } = render('Q1\n=== A1\n---\nQ2\n=== A2');
+		await wait(ANNOUNCE_DELAY);
+		assert.equal(liveRegion.textContent, '');
+		nextButton().click();
+		await wait(ANNOUNCE_DELAY);
+		assert.equal(liveRegion.textContent, 'Card 2 of 2');
+	});
+
+	it('reads the same message twice in a row', async () => {
+		const { liveRegion, answers, nextButton } = render('One\n=Right\nWrong\n---\nTwo\n=Right\nWrong');
+		answers()[0].click();
+		await wait(ANNOUNCE_DELAY);
+		nextButton().click();
+		answers()[0].click();
+		assert.equal(liveRegion.textContent, '');
+		await wait(ANNOUNCE_DELAY);
+		assert.equal(liveRegion.textContent, 'Correct!');
+	});
+});
+
+describe('choice semantics', () => {
+	it('makes single-answer multiple choice a radio group', () => {
+		const { container, answers } = render('Pick one\n=Right\nWrong');
+		assert.equal(container.querySelector('.flashcard-buttons')?.getAttribute('role'), 'radiogroup');
+		assert.deepEqual(answers().map(button => [button.getAttribute('role'), button.getAttribute('aria-checked')]), [['radio', 'false'], ['radio', 'false']]);
+		answers()[1].click();
+		assert.deepEqual(answers().map(button => button.getAttribute('aria-checked')), ['false', 'true']);
+	});
+
+	it('makes multiple-answer multiple choice a group of checkboxes', () => {
+		const { container, answers } = render('Pick two\n=A\n=B\nC');
+		const group = container.querySelector('.flashcard-buttons') as HTMLElement;
+		assert.equal(group.getAttribute('role'), 'group');
+		assert.match(group.getAttribute('aria-label') ?? '', /pick all 2/);
+		assert.deepEqual(answers().map(button => button.getAttribute('role')), ['checkbox', 'checkbox', 'checkbox']);
+		answers()[0].click();
+		assert.deepEqual(answers().map(button => button.getAttribute('aria-checked')), ['true', 'false', 'false']);
+		answers()[1].click();
+		assert.deepEqual(answers().map(button => button.getAttribute('aria-checked')), ['true', 'true', 'false']);
+	});
+
+	it('makes true/false a radio group', () => {
+		const { container, answers } = render('The sky is blue => true');
+		assert.equal(container.querySelector('.flashcard-buttons')?.getAttribute('role'), 'radiogroup');
+		answers()[0].click();
+		assert.deepEqual(answers().map(button => [button.getAttribute('role'), button.getAttribute('aria-checked')]), [['radio', 'true'], ['radio', 'false']]);
+	});
+
+	it('says in words which answers were right and wrong', () => {
+		const { answers } = render('Pick one\n=Right\nWrong');
+		answers()[1].click();
+		assert.deepEqual(answers().map(button => button.querySelector('.flashy-sr-only')?.textContent), [', correct', ', wrong']);
+	});
+});
+
+describe('focus', () => {
+	it('moves to the question of the next card', () => {
+		const { el, container, nextButton } = render('Q1\n=== A1\n---\nQ2\n=== A2');
+		nextButton().focus();
+		nextButton().click();
+		const question = container.querySelector('.flashcard-question');
+		assert.equal(question?.textContent, 'Q2');
+		assert.equal(el.doc.activeElement, question);
+	});
+
+	it('moves to the first blank of a fill-in-the-blank card', () => {
+		const { el, container, nextButton } = render('Q1\n=== A1\n---\n{{one}} and {{two}}');
+		nextButton().focus();
+		nextButton().click();
+		assert.equal(el.doc.activeElement, container.querySelector('.flashcard-fill-input'));
+	});
+
+	it('stays in the deck when the answer buttons are disabled', async () => {
+		const { el, container, answers } = render('Pick one\n=Right\nWrong\n---\nQ2\n=== A2');
+		answers()[0].focus();
+		answers()[0].click();
+		await wait();
+		assert.equal(el.doc.activeElement, container);
+	});
+
+	it('does not take the focus when the deck does not have it', () => {
+		const { el, nextButton } = render('Q1\n=== A1\n---\nQ2\n=== A2');
+		const outside = el.doc.body.createEl('button');
+		outside.focus();
+		nextButton().click();
+		assert.equal(el.doc.activeElement, outside);
+	});
+
+	it('moves to the summary heading when the session ends', async () => {
+		const { el, container, answers } = render('Pick one\n=Right\nWrong');
+		answers()[0].focus();
+		answers()[0].click();
+		await wait(1100);
+		const heading = container.querySelector('.flashcard-summary h3');
+		assert.equal(heading?.textContent, 'Session complete!');
+		assert.equal(el.doc.activeElement, heading);
+	});
+});
+
+describe('display settings', () => {
+	it('sets the high contrast and reduced motion classes on the body', () => {
+		const body = document.body;
+		applyDisplaySettings(body, { highContrast: true, reduceMotion: false });
+		assert.deepEqual([body.hasClass('flashy-high-contrast'), body.hasClass('flashy-reduce-motion')], [true, false]);
+		applyDisplaySettings(body, { highContrast: false, reduceMotion: true });
+		assert.deepEqual([body.hasClass('flashy-high-contrast'), body.hasClass('flashy-reduce-motion')], [false, true]);
+		applyDisplaySettings(body, { highContrast: false, reduceMotion: false });
+		assert.equal(body.className, '');
+	});
+
+	it('has styles for both classes', () => {
+		const css = fs.readFileSync(path.join(process.cwd(), 'styles.css'), 'utf8');
+		assert.match(css, /body\.flashy-high-contrast/);
+		assert.match(css, /body\.flashy-reduce-motion/);
+	});
+});
@@ -0,0 +1,49 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { ankiNotesToMarkdown, cardsToAnkiText, parseAnkiText } from '../src/anki';
+import { extractFlashyBlocks, parseDeck } from '../src/parser';
+import { Flashcard } from '../src/cards';
+
+/** Parses every block of imported markdown, as the card index would. */
+function parseMarkdown(markdown: string): Flashcard[] {
+	const cards: Flashcard[] = [];
+	extractFlashyBlocks(markdown).forEach(block => cards.push(...parseDeck(block.source, 'Imported.md', block.startLine + 1).cards));
+	return cards;
+}
+
+/** Returns the Tags column of each row of an exported file. */
+function exportedTags(text: string): string[] {
+	return text.replace(/\n$/, '').split('\n').filter(line => !line.startsWith('#')).map(line => line.split('\t')[5]);
+}
+
+describe('Anki tags', () => {
+	const imported = parseAnkiText([
+		'#separator:tab',
+		'#tags column:3',
+		'Capital of France\tParis\tgeo::europe',
+		'Capital of Japan\tTokyo\tgeo::asia',
+		'2 + 2\t4\t',
+	].join('\n'));
+
+	it('writes the tags of each block in its property line', () => {
+		const markdown = ankiNotesToMarkdown(imported.notes);
+		assert.doesNotMatch(markdown, /^#geo/m);
+		assert.match(markdown, /^\[\[tags=geo\/europe]]$/m);
+		assert.match(markdown, /^\[\[tags=geo\/asia]]$/m);
+	});
+
+	it('keeps each card\'s tags through import and export', () => {
+		const cards = parseMarkdown(ankiNotesToMarkdown(imported.notes));
+		assert.deepEqual(cards.map(card => card.tags), [['geo/europe'], ['geo/asia'], undefined]);
+		assert.deepEqual(exportedTags(cardsToAnkiText(cards, () => [])), ['geo::europe', 'geo::asia', '']);
+	});
+
+	it('adds the note\'s tags without repeating the block\'s', () => {
+		const cards = parseMarkdown(ankiNotesToMarkdown(imported.notes));
+		assert.deepEqual(exportedTags(cardsToAnkiText(cards, () => ['geo/europe', 'quiz'])), [
+			'geo::europe quiz',
+			'geo::europe quiz geo::asia',
+			'geo::europe quiz',
+		]);
+	});
+});
@@ -0,0 +1,53 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { DEFAULT_GENERATE_OPTIONS, GenerateOptions, generateCards } from '../src/cardGenerator';
+
+const NOTE = [
+	'---',
+	'title: Cells',
+	'---',
+	'# Mitochondria',
+	'The powerhouse of the cell.',
+	'ATP: the energy currency',
+	'',
+	'| Organelle | Role |',
+	'| --- | --- |',
+	'| Ribosome | Makes proteins |',
+	'| Nucleus | Holds the DNA |',
+	'',
+	'The **nucleus** is bigger than a **ribosome**.',
+	'```',
+	'Code: not a definition',
+	'```',
+].join('\n');
+
+const generate = (options: Partial<GenerateOptions> = {}) => generateCards(NOTE, { ...DEFAULT_GENERATE_OPTIONS, ...options });
+
+describe('generateCards', () => {
+	it('turns headings, definitions, tables and bold terms into cards, in the order of the note', () => {
+		assert.deepEqual(generate().map(generated => [generated.kind, generated.line, generated.card.question || generated.card.fitbText]), [
+			['heading', 3, 'Mitochondria'],
+			['definition', 5, 'ATP'],
+			['table', 9, 'Ribosome'],
+			['table', 10, 'Nucleus'],
+			['bold', 12, 'The {{nucleus}} is bigger than a {{ribosome}}.'],
+		]);
+	});
+
+	it('leaves what became cards of its own out of a heading\'s answer', () => {
+		const heading = generate().find(generated => generated.kind === 'heading');
+		assert.equal(heading?.card.qaAnswer, 'The powerhouse of the cell.\n\n\nThe **nucleus** is bigger than a **ribosome**.\n```\nCode: not a definition\n```');
+	});
+
+	it('only uses the structures asked for', () => {
+		assert.deepEqual(generate({ headings: false, tables: false, bold: false }).map(generated => generated.kind), ['definition']);
+		const rows = generate({ reverseTables: true }).filter(generated => generated.kind === 'table');
+		assert.deepEqual(rows.map(generated => generated.card.properties), ['reverse', 'reverse']);
+	});
+
+	it('skips frontmatter and existing decks', () => {
+		const cards = generateCards('```flashy\nTerm: definition\n```\n# Heading\nText', DEFAULT_GENERATE_OPTIONS);
+		assert.deepEqual(cards.map(generated => [generated.kind, generated.card.qaAnswer]), [['heading', 'Text']]);
+		assert.equal(generate().some(generated => generated.card.question === 'title'), false);
+	});
+});
@@ -0,0 +1,25 @@
+import './dom';
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { renderTestDeck } from './render';
+
+describe('ordering cards', () => {
+	/** Renders an ordering card and checks the order it was shuffled into. */
+	const submit = (source: string) => {
+		const { container } = renderTestDeck(source);
+		(container.querySelector('.flashcard-fill-submit') as HTMLButtonElement).click();
+		return container.querySelector('.flashcard-feedback')?.textContent;
+	};
+
+	it('never starts in an order that reads as the answer', () => {
+		for (let attempt = 0; attempt < 20; attempt++) {
+			assert.notEqual(submit('Spell "deed"\n1. d\n2. e\n3. e\n4. d'), 'Correct!');
+		}
+	});
+
+	it('counts items that read the same as in place in either order', () => {
+		assert.equal(submit('Repeat\n1. echo\n2. echo'), 'Correct!');
+		const feedback = submit('Spell "aab"\n1. a\n2. a\n3. b');
+		assert.match(feedback ?? '', /^[01] of 3 in the right place$/);
+	});
+});
@@ -0,0 +1,72 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { buildDeckSource, createModalCard, parseModalDeck, wrapDeckSource } from '../src/deckEditing';
+
+const SOURCE = [
+	'[[title="Capitals of Europe" shuffle]]',
+	'[bg=#fee color="rgb(0, 0, 0)" id=france]',
+	'Capital of France?',
+	'=Paris',
+	'Lyon',
+	'Nice',
+	'---',
+	'{{c1::Berlin}} is the capital of {{c2::Germany}}',
+	'---',
+	'[reverse]',
+	'Rome',
+	'===Italy',
+	'---',
+	'Explain the capital of Spain',
+	'===',
+	'Madrid.',
+	'',
+	'Since 1561.',
+	'---',
+	'Vienna is in Austria => true',
+	'On the Danube.',
+	'---',
+	'Order by population',
+	'1. London',
+	'2. Berlin',
+	'3. Madrid',
+	'---',
+	'Match the countries',
+	'Portugal -> Lisbon',
+	'Greece -> Athens',
+].join('\n');
+
+describe('parseModalDeck and buildDeckSource', () => {
+	it('write a deck back as it was written', () => {
+		const deck = parseModalDeck(SOURCE);
+		assert.ok(deck);
+		assert.deepEqual(deck.cards.map(card => card.cardType), ['multiple-choice', 'fill-in-the-blank', 'qa', 'qa', 'true-false', 'ordering', 'matching']);
+		assert.equal(buildDeckSource(deck), SOURCE);
+	});
+
+	it('read the card fields and properties', () => {
+		const deck = parseModalDeck(SOURCE);
+		assert.ok(deck);
+		assert.equal(deck.properties, 'title="Capitals of Europe" shuffle');
+		const [choice, , reversed, multiLine] = deck.cards;
+		assert.deepEqual([choice.bgColor, choice.textColor, choice.properties], ['#fee', 'rgb(0, 0, 0)', 'id=france']);
+		assert.deepEqual([choice.correctAnswers, choice.incorrectAnswers], ['Paris', 'Lyon\nNice']);
+		assert.equal(reversed.properties, 'reverse');
+		assert.equal(multiLine.qaAnswer, 'Madrid.\n\nSince 1561.');
+	});
+
+	it('leave out cards without content', () => {
+		const deck = { properties: '', cards: [createModalCard('qa'), { ...createModalCard('qa'), question: 'Q', qaAnswer: 'A' }] };
+		assert.equal(buildDeckSource(deck), 'Q\n===A');
+	});
+
+	it('refuse decks with syntax errors', () => {
+		assert.equal(parseModalDeck('Q\n===A\n---\n{{unclosed'), null);
+	});
+});
+
+describe('wrapDeckSource', () => {
+	it('uses a fence longer than the code blocks inside', () => {
+		assert.equal(wrapDeckSource('Q\n===A'), '```flashy\nQ\n===A\n```');
+		assert.equal(wrapDeckSource('Q\n===\n````js\nx\n````'), '`````flashy\nQ\n===\n````js\nx\n````\n`````');
+	});
+});
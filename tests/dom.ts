@@ -0,0 +1,179 @@
+/*
+ * Sets up a browser-like environment for tests that render into the DOM: a jsdom window as the
+ * global `window` and `document`, plus the helpers Obsidian adds to DOM elements. Import it before
+ * the modules under test.
+ */
+import { JSDOM } from 'jsdom';
+
+interface ElementInfo {
+	cls?: string | string[];
+	text?: string;
+	attr?: Record<string, string | number | boolean | null>;
+	title?: string;
+	value?: string;
+	type?: string;
+	placeholder?: string;
+	href?: string;
+}
+
+const dom = new JSDOM('<!DOCTYPE html><html><body></body></html>');
+const { window } = dom;
+
+Object.assign(globalThis, {
+	window,
+	document: window.document,
+	Node: window.Node,
+	Element: window.Element,
+	HTMLElement: window.HTMLElement,
+	HTMLInputElement: window.HTMLInputElement,
+	HTMLButtonElement: window.HTMLButtonElement,
+	HTMLSelectElement: window.HTMLSelectElement,
+	HTMLTextAreaElement: window.HTMLTextAreaElement,
+	Event: window.Event,
+	KeyboardEvent: window.KeyboardEvent,
+	MouseEvent: window.MouseEvent,
+	FocusEvent: window.FocusEvent,
+});
+
+function toClasses(cls: string | string[] | undefined): string[] {
+	if (!cls) return [];
+	return (Array.isArray(cls) ? cls : cls.split(' ')).filter(name => name.length > 0);
+}
+
+function createEl(this: Node, tag: string, info?: ElementInfo | string, callback?: (el: HTMLElement) => void): HTMLElement {
+	const options = typeof info === 'string' ? { cls: info } : info ?? {};
+	const el = window.document.createElement(tag);
+	el.classList.add(...toClasses(options.cls));
+	if (options.text !== undefined) el.textContent = options.text;
+	if (options.title !== undefined) el.title = options.title;
+	if (options.value !== undefined) el.setAttribute('value', options.value);
+	if (options.type !== undefined) el.setAttribute('type', options.type);
+	if (options.placeholder !== undefined) el.setAttribute('placeholder', options.placeholder);
+	if (options.href !== undefined) el.setAttribute('href', options.href);
+	Object.keys(options.attr ?? {}).forEach(name => {
+		const value = (options.attr ?? {})[name];
+		if (value !== null && value !== false) el.setAttribute(name, String(value));
+	});
+	this.appendChild(el);
+	callback?.(el);
+	return el;
+}
+
+Object.defineProperties(window.Node.prototype, {
+	createEl: { value: createEl },
+	createDiv: {
+		value: function (this: Node, info?: ElementInfo | string, callback?: (el: HTMLElement) => void) {
+			return createEl.call(this, 'div', info, callback);
+		},
+	},
+	createSpan: {
+		value: function (this: Node, info?: ElementInfo | string, callback?: (el: HTMLElement) => void) {
+			return createEl.call(this, 'span', info, callback);
+		},
+	},
+	empty: {
+		value: function (this: Node) {
+			while (this.firstChild) this.removeChild(this.firstChild);
+		},
+	},
+	appendText: {
+		value: function (this: Node, text: string) {
+			this.appendChild(window.document.createTextNode(text));
+		},
+	},
+	doc: {
+		get: function (this: Node) {
+			return this.ownerDocument ?? window.document;
+		},
+	},
+	win: {
+		get: function (this: Node) {
+			return (this.ownerDocument ?? window.document).defaultView;
+		},
+	},
+});
+
+Object.defineProperties(window.Element.prototype, {
+	setText: {
+		value: function (this: Element, text: string) {
+			this.textContent = text;
+		},
+	},
+	addClass: {
+		value: function (this: Element, ...classes: string[]) {
+			this.classList.add(...classes);
+		},
+	},
+	addClasses: {
+		value: function (this: Element, classes: string[]) {
+			this.classList.add(...classes);
+		},
+	},
+	removeClass: {
+		value: function (this: Element, ...classes: string[]) {
+			this.classList.remove(...classes);
+		},
+	},
+	removeClasses: {
+		value: function (this: Element, classes: string[]) {
+			this.classList.remove(...classes);
+		},
+	},
+	toggleClass: {
+		value: function (this: Element, classes: string | string[], value: boolean) {
+			toClasses(classes).forEach(name => this.classList.toggle(name, value));
+		},
+	},
+	hasClass: {
+		value: function (this: Element, cls: string) {
+			return this.classList.contains(cls);
+		},
+	},
+	setAttr: {
+		value: function (this: Element, name: string, value: string | number | boolean | null) {
+			if (value === null) this.removeAttribute(name);
+			else this.setAttribute(name, String(value));
+		},
+	},
+});
+
+Object.defineProperties(window.HTMLElement.prototype, {
+	show: {
+		value: function (this: HTMLElement) {
+			this.style.display = '';
+		},
+	},
+	hide: {
+		value: function (this: HTMLElement) {
+			this.style.display = 'none';
+		},
+	},
+	// jsdom does no layout, so an element counts as shown when it is in the document and neither it nor a parent is hidden.
+	isShown: {
+		value: function (this: HTMLElement) {
+			if (!this.isConnected) return false;
+			return !this.closest('[style*="display: none"]');
+		},
+	},
+});
+
+Object.defineProperty(Array.prototype, 'remove', {
+	value: function <T>(this: T[], target: T) {
+		for (let index = this.indexOf(target); index !== -1; index = this.indexOf(target)) this.splice(index, 1);
+	},
+});
+
+/**
+ * Waits for the given time, letting the timers of the code under test run.
+ */
+export function wait(ms = 0): Promise<void> {
+	return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Returns an empty element attached to the document, to render into.
+ */
+export function createContainer(): HTMLElement {
+	window.document.body.empty();
+	return window.document.body.createDiv();
+}
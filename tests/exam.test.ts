@@ -0,0 +1,28 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { OrderingCard } from '../src/cards';
+import { gradeExamAnswer, isAnswered } from '../src/exam';
+import { DEFAULT_SETTINGS, getMatchOptions } from '../src/settings';
+import { parseDeck } from '../src/parser';
+
+describe('gradeExamAnswer', () => {
+	const card = parseDeck('Spell "deed"\n1. d\n2. e\n3. e\n4. d', 'note.md').cards[0] as OrderingCard;
+	const grade = (order: number[]) => gradeExamAnswer(card, { type: 'ordering', order }, getMatchOptions(DEFAULT_SETTINGS), 0);
+
+	it('grades ordering answers by item index', () => {
+		assert.equal(grade([0, 1, 2, 3]).result, 'correct');
+		assert.equal(grade([1, 0, 2, 3]).result, 'incorrect');
+		assert.equal(grade([1, 0, 2, 3]).given, '1. e; 2. d; 3. e; 4. d');
+	});
+
+	it('accepts items that read the same in either place', () => {
+		assert.equal(grade([3, 2, 1, 0]).result, 'correct');
+	});
+
+	it('treats positions without a pick as unanswered', () => {
+		assert.equal(isAnswered({ type: 'ordering', order: [-1, -1, -1, -1] }), false);
+		assert.equal(grade([-1, -1, -1, -1]).result, 'unanswered');
+		assert.equal(grade([0, -1, 2, 3]).result, 'incorrect');
+		assert.equal(grade([0, -1, 2, 3]).given, '1. d; 2. –; 3. e; 4. d');
+	});
+});
@@ -0,0 +1,52 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { KnownCard, getCardFingerprint, matchCardIdentities, stringSimilarity } from '../src/identity';
+import { parseDeck } from '../src/parser';
+
+/** Parses a deck and remembers its cards the way the registry does. */
+const remember = (source: string): KnownCard[] => parseDeck(source, 'note.md').cards
+	.map(card => ({ id: card.id, fingerprint: getCardFingerprint(card), createdAt: 0 }));
+
+/** Parses an edited deck and returns the ID and status of each card. */
+const rematch = (source: string, known: KnownCard[]) => {
+	const cards = parseDeck(source, 'note.md').cards;
+	const statuses = matchCardIdentities('note.md', cards, known);
+	return cards.map((card, index) => [card.id, statuses[index]]);
+};
+
+describe('matchCardIdentities', () => {
+	const known = remember('Capital of France?\n===Paris\n---\nCapital of Germany?\n===Berlin');
+	const [france, germany] = known.map(card => card.id);
+
+	it('keeps the IDs of moved cards', () => {
+		assert.deepEqual(rematch('Capital of Germany?\n===Berlin\n---\nCapital of France?\n===Paris', known), [[germany, 'unchanged'], [france, 'unchanged']]);
+	});
+
+	it('keeps the ID of a card whose content was edited a little', () => {
+		assert.deepEqual(rematch('Capital of France?\n===Paris, on the Seine\n---\nCapital of Germany?\n===Berlin', known), [[france, 'modified'], [germany, 'unchanged']]);
+	});
+
+	it('gives rewritten cards a new ID', () => {
+		const [[id, status]] = rematch('Largest ocean?\n===Pacific', known);
+		assert.equal(status, 'new');
+		assert.ok(id !== france && id !== germany);
+	});
+
+	it('gives duplicate cards distinct IDs', () => {
+		const ids = rematch('Q\n===A\n---\nQ\n===A', []).map(([id]) => id);
+		assert.notEqual(ids[0], ids[1]);
+	});
+
+	it('follows pinned IDs whatever the content', () => {
+		const pinned = remember('[id=capital]\nCapital of France?\n===Paris');
+		assert.deepEqual(rematch('[id=capital]\nCapital of Spain?\n===Madrid', pinned), [['capital', 'modified']]);
+	});
+});
+
+describe('stringSimilarity', () => {
+	it('scores shared bigrams between 0 and 1', () => {
+		assert.equal(stringSimilarity('night', 'night'), 1);
+		assert.equal(stringSimilarity('night', 'nacht'), 0.25);
+		assert.equal(stringSimilarity('a', 'b'), 0);
+	});
+});
@@ -0,0 +1,55 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { eventToBinding, findKeyConflict, formatBinding, getKeyAction, normalizeBinding } from '../src/keymap';
+import { DEFAULT_SETTINGS } from '../src/settings';
+
+describe('normalizeBinding', () => {
+	it('writes bindings typed by hand the way key events are read', () => {
+		assert.deepEqual(['r', ' ctrl+r ', 'shift+alt+x', 'space', 'arrowLeft', 'Meta+Ctrl+k', ''].map(normalizeBinding),
+			['R', 'Ctrl+R', 'Alt+Shift+X', 'Space', 'ArrowLeft', 'Ctrl+Meta+K', '']);
+	});
+
+	it('reads a trailing plus as the plus key', () => {
+		assert.equal(normalizeBinding('+'), '+');
+		assert.equal(normalizeBinding('ctrl++'), 'Ctrl++');
+		assert.equal(formatBinding('ctrl++'), 'Ctrl + +');
+		assert.equal(formatBinding(''), 'Not set');
+	});
+
+	it('matches the bindings of key events', () => {
+		const press = (key: string, modifiers: Partial<KeyboardEvent> = {}) => eventToBinding({ key, ctrlKey: false, altKey: false, shiftKey: false, metaKey: false, ...modifiers } as KeyboardEvent);
+		assert.equal(press('r', { ctrlKey: true }), normalizeBinding('ctrl+r'));
+		assert.equal(press('R', { shiftKey: true }), 'Shift+R');
+		// Shift is part of the symbol it types.
+		assert.equal(press('?', { shiftKey: true }), '?');
+		assert.equal(press('+', { ctrlKey: true }), 'Ctrl++');
+		assert.equal(press(' '), 'Space');
+		assert.equal(press(' ', { ctrlKey: true }), 'Ctrl+Space');
+		assert.equal(press('Shift', { shiftKey: true }), null);
+	});
+});
+
+describe('findKeyConflict', () => {
+	const settings = { ...DEFAULT_SETTINGS };
+
+	it('names the action already using the key', () => {
+		assert.equal(findKeyConflict(settings, 'next', 'r'), 'Reset session');
+		assert.equal(findKeyConflict(settings, 'reset', 'R'), null);
+		assert.equal(findKeyConflict(settings, 'next', 'N'), null);
+		assert.equal(findKeyConflict(settings, 'next', ''), null);
+	});
+
+	it('keeps Tab for moving between decks and digits for picking answers', () => {
+		assert.equal(findKeyConflict(settings, 'next', 'shift+tab'), 'moving between decks');
+		assert.equal(findKeyConflict(settings, 'next', '5'), 'picking answers');
+		// Grades only apply to Q&A cards, which have no answers to pick.
+		assert.equal(findKeyConflict(settings, 'again', '5'), null);
+		assert.equal(findKeyConflict(settings, 'again', '2'), 'Grade "Hard"');
+	});
+
+	it('lets Q&A actions share keys with digits on other cards', () => {
+		assert.equal(getKeyAction(settings, '1', 'qa'), 'again');
+		assert.equal(getKeyAction(settings, '1', 'multiple-choice'), null);
+		assert.equal(getKeyAction({ ...settings, keyResetSession: 'ctrl+r' }, 'Ctrl+R'), 'reset');
+	});
+});
@@ -0,0 +1,61 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { AnswerMatchOptions, diffAnswer, getAlternatives, matchAnswer } from '../src/matching';
+
+const STRICT: AnswerMatchOptions = { typoTolerance: 0, ignoreAccents: false, ignorePunctuation: false, numericTolerance: 0, allowRegex: false };
+const LENIENT: AnswerMatchOptions = { typoTolerance: 2, ignoreAccents: true, ignorePunctuation: true, numericTolerance: 0, allowRegex: true };
+
+const result = (input: string, raw: string, options: Partial<AnswerMatchOptions> = {}) => matchAnswer(input, raw, { ...LENIENT, ...options }).result;
+
+describe('matchAnswer', () => {
+	it('ignores case and surrounding or repeated whitespace, even when strict', () => {
+		assert.equal(matchAnswer('  New   YORK ', 'New York', STRICT).result, 'correct');
+		assert.equal(matchAnswer('new yrok', 'New York', STRICT).result, 'incorrect');
+	});
+
+	it('accepts typos up to the tolerance, and one per four characters', () => {
+		assert.equal(result('mitocondria', 'mitochondria'), 'almost');
+		assert.equal(result('mitochondira', 'mitochondria'), 'almost');
+		assert.equal(result('mitocondira', 'mitochondria'), 'incorrect');
+		assert.equal(result('mitochondira', 'mitochondria', { typoTolerance: 1 }), 'incorrect');
+		// Three characters are too short for any typo.
+		assert.equal(result('cta', 'cat'), 'incorrect');
+		assert.equal(result('lian', 'lion'), 'almost');
+		assert.equal(result('loin', 'lion'), 'incorrect');
+	});
+
+	it('ignores accents and punctuation only when asked to', () => {
+		assert.equal(result('creme brulee', 'crème brûlée', { typoTolerance: 0 }), 'correct');
+		assert.equal(result('creme brulee', 'crème brûlée', { typoTolerance: 0, ignoreAccents: false }), 'incorrect');
+		assert.equal(result('tcp ip', 'TCP/IP', { typoTolerance: 0 }), 'correct');
+		assert.equal(result('tcp ip', 'TCP/IP', { typoTolerance: 0, ignorePunctuation: false }), 'incorrect');
+	});
+
+	it('compares numbers within the numeric tolerance', () => {
+		assert.equal(result('1024', '1,024'), 'correct');
+		assert.equal(result('3.15', '3.14159', { numericTolerance: 0.01 }), 'correct');
+		assert.equal(result('3.16', '3.14159', { numericTolerance: 0.01 }), 'incorrect');
+		// Numbers are never accepted as typos of each other.
+		assert.equal(result('1025', '1024'), 'incorrect');
+	});
+
+	it('matches regex answers only when regexes are allowed', () => {
+		assert.equal(result('Colour', '/colou?r/i'), 'correct');
+		assert.equal(result('Colour', '/colou?r/'), 'incorrect');
+		assert.equal(matchAnswer('colour', '/colou?r/', STRICT).result, 'incorrect');
+		assert.equal(result('anything', '/(/'), 'incorrect');
+	});
+
+	it('keeps the best alternative', () => {
+		assert.deepEqual(matchAnswer('colr', 'colour|color', LENIENT), { result: 'almost', expected: 'color' });
+		assert.deepEqual(matchAnswer('colour', 'color|colour', LENIENT), { result: 'correct', expected: 'colour' });
+		assert.deepEqual(getAlternatives('/a|b/'), ['/a|b/']);
+	});
+});
+
+describe('diffAnswer', () => {
+	it('marks missing and extra characters', () => {
+		assert.deepEqual(diffAnswer('colr', 'color'), [{ type: 'same', text: 'col' }, { type: 'missing', text: 'o' }, { type: 'same', text: 'r' }]);
+		assert.deepEqual(diffAnswer('cat', 'cat'), [{ type: 'same', text: 'cat' }]);
+	});
+});
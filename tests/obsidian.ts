@@ -0,0 +1,183 @@
+/*
+ * A small stand-in for the parts of the Obsidian API the tested modules use. The `obsidian`
+ * package only ships type declarations, so the test runner bundles the tests against this file.
+ */
+
+export class Component {
+	private loaded = false;
+	private children: Component[] = [];
+	private cleanups: (() => void)[] = [];
+
+	load() {
+		if (this.loaded) return;
+		this.loaded = true;
+		this.onload();
+		this.children.forEach(child => child.load());
+	}
+
+	onload() { }
+
+	unload() {
+		if (!this.loaded) return;
+		this.loaded = false;
+		this.children.splice(0).forEach(child => child.unload());
+		this.cleanups.splice(0).forEach(cleanup => cleanup());
+		this.onunload();
+	}
+
+	onunload() { }
+
+	addChild<T extends Component>(child: T): T {
+		this.children.push(child);
+		if (this.loaded) child.load();
+		return child;
+	}
+
+	removeChild<T extends Component>(child: T): T {
+		const index = this.children.indexOf(child);
+		if (index !== -1) this.children.splice(index, 1);
+		child.unload();
+		return child;
+	}
+
+	register(cleanup: () => void) {
+		this.cleanups.push(cleanup);
+	}
+
+	registerDomEvent(target: EventTarget, type: string, callback: EventListener) {
+		target.addEventListener(type, callback);
+		this.register(() => target.removeEventListener(type, callback));
+	}
+
+	registerInterval(id: number): number {
+		this.register(() => window.clearInterval(id));
+		return id;
+	}
+}
+
+export class MarkdownRenderChild extends Component {
+	containerEl: HTMLElement;
+
+	constructor(containerEl: HTMLElement) {
+		super();
+		this.containerEl = containerEl;
+	}
+}
+
+export class MarkdownRenderer {
+	/** Renders the markdown as a plain paragraph, which is all the tests look at. */
+	static async render(app: unknown, markdown: string, el: HTMLElement) {
+		el.createEl('p', { text: markdown });
+	}
+}
+
+export class Notice {
+	/** Every message shown so far, newest last. */
+	static messages: string[] = [];
+
+	constructor(message: string) {
+		Notice.messages.push(message);
+	}
+}
+
+export function setIcon(el: HTMLElement, icon: string) {
+	el.setAttr('data-icon', icon);
+}
+
+export class TextComponent {
+	inputEl: HTMLInputElement;
+
+	constructor(containerEl: HTMLElement) {
+		this.inputEl = containerEl.createEl('input', { type: 'text' });
+	}
+
+	getValue(): string {
+		return this.inputEl.value;
+	}
+
+	setValue(value: string): this {
+		this.inputEl.value = value;
+		return this;
+	}
+
+	setPlaceholder(placeholder: string): this {
+		this.inputEl.placeholder = placeholder;
+		return this;
+	}
+
+	setDisabled(disabled: boolean): this {
+		this.inputEl.disabled = disabled;
+		return this;
+	}
+
+	onChange(callback: (value: string) => void): this {
+		this.inputEl.addEventListener('input', () => callback(this.inputEl.value));
+		return this;
+	}
+}
+
+export class DropdownComponent {
+	selectEl: HTMLSelectElement;
+
+	constructor(containerEl: HTMLElement) {
+		this.selectEl = containerEl.createEl('select', { cls: 'dropdown' });
+	}
+
+	addOption(value: string, display: string): this {
+		this.selectEl.createEl('option', { value, text: display });
+		return this;
+	}
+
+	getValue(): string {
+		return this.selectEl.value;
+	}
+
+	setValue(value: string): this {
+		this.selectEl.value = value;
+		return this;
+	}
+
+	setDisabled(disabled: boolean): this {
+		this.selectEl.disabled = disabled;
+		return this;
+	}
+
+	onChange(callback: (value: string) => void): this {
+		this.selectEl.addEventListener('change', () => callback(this.selectEl.value));
+		return this;
+	}
+}
+
+export class Setting {
+	settingEl: HTMLElement;
+	controlEl: HTMLElement;
+
+	constructor(containerEl: HTMLElement) {
+		this.settingEl = containerEl.createDiv({ cls: 'setting-item' });
+		this.controlEl = this.settingEl.createDiv({ cls: 'setting-item-control' });
+	}
+
+	setName(name: string): this {
+		this.settingEl.setAttr('data-name', name);
+		return this;
+	}
+
+	setDesc(desc: string): this {
+		this.settingEl.setAttr('data-desc', desc);
+		return this;
+	}
+
+	addText(callback: (text: TextComponent) => void): this {
+		callback(new TextComponent(this.controlEl));
+		return this;
+	}
+}
+
+export class ItemView extends Component {
+	leaf: unknown;
+
+	constructor(leaf: unknown) {
+		super();
+		this.leaf = leaf;
+	}
+}
@@ -0,0 +1,235 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { FillInTheBlankCard, MultipleChoiceCard, OrderingCard, QACard } from '../src/cards';
+import { Diagnostic, SourceLine, parseClozeCards, parseDeck, splitDeckSource } from '../src/parser';
+
+/** Turns text into the numbered lines the parser works on. */
+function toLines(text: string): SourceLine[] {
+	return text.split('\n').map((line, index) => ({ text: line, line: index }));
+}
+
+/** Keeps the parts of a diagnostic the tests check. */
+function summarize(diagnostic: Diagnostic) {
+	return { severity: diagnostic.severity, line: diagnostic.line, column: diagnostic.column };
+}
+
+describe('parseDeck', () => {
+	it('parses each card type', () => {
+		const deck = parseDeck([
+			'What is 2 + 2?',
+			'3',
+			'=4',
+			'---',
+			'Capital of France',
+			'=== Paris',
+			'---',
+			'The sky is green => false',
+			'---',
+			'Water boils at {{100}} °C',
+			'---',
+			'Order the steps',
+			'2. Second',
+			'1. First',
+			'---',
+			'Match the pairs',
+			'a -> 1',
+			'b -> 2',
+		].join('\n'), 'note.md');
+
+		assert.deepEqual(deck.diagnostics, []);
+		assert.deepEqual(deck.cards.map(card => card.type), ['multiple-choice', 'qa', 'true-false', 'fill-in-the-blank', 'ordering', 'matching']);
+		const [choice, qa, , , ordering] = deck.cards as [MultipleChoiceCard, QACard, unknown, unknown, OrderingCard];
+		assert.deepEqual(choice.answers, [{ text: '3', isCorrect: false }, { text: '4', isCorrect: true }]);
+		assert.equal(qa.answer, 'Paris');
+		assert.deepEqual(ordering.items, ['First', 'Second']);
+		deck.cards.forEach(card => assert.equal(card.sourcePath, 'note.md'));
+	});
+
+	it('keeps blank lines and `---` inside fenced code in a Q&A answer', () => {
+		const deck = parseDeck('Show a rule\n===\n```\n---\n```\n\nAfter the code', 'note.md');
+		assert.equal(deck.cards.length, 1);
+		assert.equal((deck.cards[0] as QACard).answer, '```\n---\n```\n\nAfter the code');
+	});
+
+	it('reads block options and applies block properties to every card', () => {
+		const deck = parseDeck('[[title="Network basics" tags=net,#exam limit=2 bg=teal]]\nQ1\n=== A1\n---\nQ2\n=== A2', 'note.md');
+		assert.deepEqual(deck.options, { title: 'Network basics', tags: ['net', 'exam'], limit: 2 });
+		deck.cards.forEach(card => {
+			assert.equal(card.deck, 'Network basics');
+			assert.deepEqual(card.tags, ['net', 'exam']);
+			assert.equal(card.customBackgroundColor, 'teal');
+		});
+	});
+
+	it('records card positions, offset by the block\'s line', () => {
+		const deck = parseDeck('  Question\n  === Answer\n---\nNext\n=== One', 'note.md', 10);
+		assert.deepEqual(deck.cards[0].position, { start: { line: 10, column: 2 }, end: { line: 11, column: 12 } });
+		assert.equal(deck.cards[1].position.start.line, 13);
+	});
+
+	it('adds a reversed card for `reverse` Q&A cards', () => {
+		const deck = parseDeck('[reverse]\nFront\n=== Back', 'note.md');
+		assert.deepEqual(deck.cards.map(card => [card.question, (card as QACard).answer]), [['Front', 'Back'], ['Back', 'Front']]);
+		assert.equal((deck.cards[1] as QACard).reversed, true);
+	});
+
+	it('keeps pinned IDs and derives stable IDs otherwise', () => {
+		const pinned = parseDeck('[id=capital]\nCapital of France\n=== Paris', 'note.md');
+		assert.equal(pinned.cards[0].id, 'capital');
+		const first = parseDeck('Capital of France\n=== Paris', 'note.md');
+		const moved = parseDeck('\n\nCapital of France\n=== Paris', 'note.md');
+		assert.equal(first.cards[0].id, moved.cards[0].id);
+	});
+
+	it('returns an empty deck for an empty block', () => {
+		assert.deepEqual(parseDeck('\n  \n', 'note.md'), { properties: [], options: {}, cards: [], diagnostics: [] });
+	});
+});
+
+describe('diagnostics', () => {
+	it('reports a dropped card as an error at its line and indent', () => {
+		const deck = parseDeck('Good\n=== Card\n---\n  No answer here\n  still none', 'note.md', 5);
+		assert.equal(deck.cards.length, 1);
+		assert.deepEqual(deck.diagnostics.map(summarize), [{ severity: 'error', line: 8, column: 2 }]);
+		assert.match(deck.diagnostics[0].message, /multiple-choice card has no `=` answer/);
+	});
+
+	it('reports an unterminated blank at its column', () => {
+		const deck = parseDeck('Fill {{this in', 'note.md');
+		assert.deepEqual(deck.diagnostics.map(summarize), [{ severity: 'error', line: 0, column: 5 }]);
+		assert.match(deck.diagnostics[0].message, /unterminated `\{\{`/);
+	});
+
+	it('warns about invalid property values at the property', () => {
+		const deck = parseDeck('[[shuffle=maybe]]\n[timer=soon]\nQ\n=== A', 'note.md');
+		assert.equal(deck.cards.length, 1);
+		assert.deepEqual(deck.diagnostics.map(summarize), [
+			{ severity: 'warning', line: 0, column: 2 },
+			{ severity: 'warning', line: 1, column: 1 },
+		]);
+	});
+
+	it('warns about unknown keys and keys on the wrong line', () => {
+		const deck = parseDeck('[[id=deck colour=red]]\n[limit=3]\nQ\n=== A', 'note.md');
+		assert.deepEqual(deck.diagnostics.map(diagnostic => [diagnostic.message, diagnostic.line, diagnostic.column]), [
+			['`id` only applies to a single card, set it in the card\'s `[...]` line', 0, 2],
+			['unknown property `colour`', 0, 10],
+			['`limit` only applies to a whole block, set it in the `[[...]]` line', 1, 1],
+		]);
+	});
+
+	it('warns when a non-Q&A card is reversed', () => {
+		const deck = parseDeck('[reverse]\nSky is blue => true', 'note.md');
+		assert.equal(deck.cards.length, 1);
+		assert.deepEqual(deck.diagnostics.map(summarize), [{ severity: 'warning', line: 0, column: 0 }]);
+	});
+
+	it('reports invalid block-level match options once, and card-level ones once per definition', () => {
+		const deck = parseDeck('[[typos=many]]\nA {{b}}\n---\n[accents=loose]\n{{c1::C}} and {{c2::D}}', 'note.md');
+		assert.equal(deck.cards.length, 3);
+		assert.deepEqual(deck.diagnostics.map(summarize), [
+			{ severity: 'warning', line: 0, column: 2 },
+			{ severity: 'warning', line: 3, column: 1 },
+		]);
+	});
+
+	it('warns about match options on cards without blanks', () => {
+		const deck = parseDeck('[typos=2 bg=red]\nQ\n=== A\n---\n[typos=2]\nA {{b}}', 'note.md');
+		assert.equal(deck.cards.length, 2);
+		assert.deepEqual(deck.diagnostics.map(diagnostic => [diagnostic.message, diagnostic.line, diagnostic.column]), [
+			['`typos` only applies to fill-in-the-blank cards', 0, 1],
+		]);
+	});
+
+	it('merges card match options over the block\'s', () => {
+		const deck = parseDeck('[[match=exact typos=1]]\n[typos=3]\nA {{b}}\n---\nC {{d}}', 'note.md');
+		const [first, second] = deck.cards as FillInTheBlankCard[];
+		assert.deepEqual(first.matching, { typoTolerance: 3, ignoreAccents: false, ignorePunctuation: false });
+		assert.deepEqual(second.matching, { typoTolerance: 1, ignoreAccents: false, ignorePunctuation: false });
+	});
+});
+
+describe('parseClozeCards', () => {
+	const collect = () => {
+		const errors: { message: string; line: number; column?: number }[] = [];
+		const error = (message: string, at: SourceLine, column?: number) => errors.push({ message, line: at.line, column });
+		return { errors, error };
+	};
+
+	it('makes one card for unnumbered blanks', () => {
+		const { errors, error } = collect();
+		const cards = parseClozeCards(toLines('{{Paris}} is the capital of {{France}}'), error) as FillInTheBlankCard[];
+		assert.deepEqual(errors, []);
+		assert.equal(cards.length, 1);
+		assert.deepEqual(cards[0].answers, ['Paris', 'France']);
+		assert.equal(cards[0].question, '___ is the capital of ___');
+		assert.equal(cards[0].group, undefined);
+	});
+
+	it('makes one card per numbered group, showing the other groups', () => {
+		const { error } = collect();
+		const cards = parseClozeCards(toLines('{{c2::Paris}} is in {{c1::France}}\nand {{c2::Lyon}} too'), error) as FillInTheBlankCard[];
+		assert.deepEqual(cards.map(card => card.group), [1, 2]);
+		assert.equal(cards[0].question, 'Paris is in ___\nand Lyon too');
+		assert.deepEqual(cards[0].answers, ['France']);
+		assert.equal(cards[1].question, '___ is in France\nand ___ too');
+		assert.deepEqual(cards[1].answers, ['Paris', 'Lyon']);
+		assert.deepEqual(cards[1].segments, [
+			{ kind: 'blank', index: 0 },
+			{ kind: 'text', text: ' is in France\nand ' },
+			{ kind: 'blank', index: 1 },
+			{ kind: 'text', text: ' too' },
+		]);
+	});
+
+	it('puts unnumbered blanks after the numbered groups', () => {
+		const { error } = collect();
+		const cards = parseClozeCards(toLines('{{a}} {{c3::b}} {{c1::c}}'), error) as FillInTheBlankCard[];
+		assert.deepEqual(cards.map(card => card.group), [1, 3, undefined]);
+	});
+
+	it('reports empty and unterminated blanks', () => {
+		const empty = collect();
+		assert.equal(parseClozeCards(toLines('An {{ }} blank'), empty.error), null);
+		assert.deepEqual(empty.errors, [{ message: 'fill-in-the-blank card has an empty `{{}}` blank', line: 0, column: 3 }]);
+
+		const open = collect();
+		assert.equal(parseClozeCards(toLines('ok {{x}}\nbroken {{y'), open.error), null);
+		assert.deepEqual(open.errors, [{ message: 'unterminated `{{` in fill-in-the-blank card', line: 1, column: 7 }]);
+	});
+
+	it('expands numbered groups through parseDeck with shared sibling keys', () => {
+		const deck = parseDeck('[id=geo]\n{{c1::Paris}} is in {{c2::France}}', 'note.md');
+		assert.deepEqual(deck.cards.map(card => card.id), ['geo', 'geo-2']);
+		assert.equal(deck.cards[0].siblingKey, 'note.md:0');
+		assert.equal(deck.cards[0].siblingKey, deck.cards[1].siblingKey);
+	});
+});
+
+describe('splitDeckSource', () => {
+	it('splits block properties and card sources without parsing the cards', () => {
+		const { properties, cards } = splitDeckSource('[[title=Deck shuffle]]\n\n[id=one bg="light blue"]\nQ\n=== A\n---\n\nNot a valid card\n\n---\n');
+		assert.deepEqual(properties.map(prop => [prop.key, prop.value, prop.line, prop.column]), [['title', 'Deck', 0, 2], ['shuffle', '', 0, 13]]);
+		assert.equal(cards.length, 2);
+		assert.deepEqual(cards[0].properties.map(prop => [prop.key, prop.value, prop.column]), [['id', 'one', 1], ['bg', 'light blue', 8]]);
+		assert.deepEqual(cards[0].lines.map(line => line.text), ['Q', '=== A']);
+		assert.deepEqual(cards[1].properties, []);
+		assert.deepEqual(cards[1].lines, [{ text: 'Not a valid card', line: 7 }]);
+	});
+
+	it('does not split on `---` inside fenced code', () => {
+		const { cards } = splitDeckSource('Q\n===\n~~~\n---\n~~~\n---\nNext\n=== Card');
+		assert.equal(cards.length, 2);
+		assert.equal(cards[0].lines.length, 5);
+	});
+
+	it('keeps a card with only a property line', () => {
+		const { cards } = splitDeckSource('[id=empty]\n---\nQ\n=== A');
+		assert.deepEqual(cards[0].lines, []);
+		assert.equal(cards[0].properties[0].value, 'empty');
+	});
+
+	it('returns nothing for an empty block', () => {
+		assert.deepEqual(splitDeckSource(''), { properties: [], cards: [] });
+	});
+});
@@ -0,0 +1,36 @@
+import { App, MarkdownRenderChild } from 'obsidian';
+import { createContainer } from './dom';
+import { DeckHost, renderDeck } from '../src/deck';
+import { parseDeck } from '../src/parser';
+import { DEFAULT_SETTINGS } from '../src/settings';
+import { SessionStateStore } from '../src/sessionState';
+
+/** The deck rendered last, unloaded when the next one is rendered. */
+let child: MarkdownRenderChild | null = null;
+
+/**
+ * Renders a deck the way a `flashy` block would, with answers in source order.
+ * @param source The source of the block.
+ */
+export function renderTestDeck(source: string) {
+	child?.unload();
+	const host: DeckHost = {
+		app: {} as App,
+		settings: { ...DEFAULT_SETTINGS, shuffleAnswers: false },
+		reviews: {},
+		sessions: [],
+		sessionStates: new SessionStateStore({}, () => { }),
+		recordReview: async () => { },
+		recordReviews: async () => { },
+		recordSession: async () => { },
+	};
+	const el = createContainer();
+	const deck = parseDeck(source, 'note.md');
+	child = renderDeck(host, el, deck.cards, { id: 'note.md#0', name: 'Test deck' }, deck.options);
+	child.load();
+	const liveRegion = el.querySelector('[role="status"]') as HTMLElement;
+	const container = el.querySelector('.flashcard-container') as HTMLElement;
+	const answers = () => Array.from(container.querySelectorAll<HTMLButtonElement>('.flashcard-answer'));
+	const nextButton = () => container.querySelectorAll<HTMLButtonElement>('.flashcard-nav')[1];
+	return { el, container, liveRegion, answers, nextButton };
+}
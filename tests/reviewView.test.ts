@@ -0,0 +1,38 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { getReviewDeckId, parseReviewDeckId, renameReviewDeckId } from '../src/reviewView';
+import { renameNoteDeckId } from '../src/stats';
+
+describe('review deck IDs', () => {
+	it('reads back filters containing colons', () => {
+		const filter = { folder: 'Notes: 2024', tag: 'lang', notePath: 'Notes: 2024/a:b.md', deck: 'Verbs: irregular' };
+		assert.deepEqual(parseReviewDeckId(getReviewDeckId(filter)), filter);
+		assert.notEqual(getReviewDeckId({ folder: 'a:b' }), getReviewDeckId({ folder: 'a', tag: 'b' }));
+	});
+
+	it('reads the IDs of older versions', () => {
+		assert.deepEqual(parseReviewDeckId('review:Notes:lang:'), { folder: 'Notes', tag: 'lang' });
+		assert.deepEqual(parseReviewDeckId('review:::Notes/a.md'), { notePath: 'Notes/a.md' });
+		assert.deepEqual(parseReviewDeckId('review:::Notes/a.md:Verbs: irregular'), { notePath: 'Notes/a.md', deck: 'Verbs: irregular' });
+		assert.deepEqual(parseReviewDeckId('review::::Verbs'), { deck: 'Verbs' });
+		assert.equal(parseReviewDeckId('Notes/a.md#0'), null);
+	});
+
+	it('only renames the note or folder the session is narrowed down to', () => {
+		const id = getReviewDeckId({ folder: 'Notes', notePath: 'Notes/a.md' });
+		assert.equal(renameReviewDeckId(id, 'Notes', 'Archive'), getReviewDeckId({ folder: 'Archive', notePath: 'Archive/a.md' }));
+		assert.equal(renameReviewDeckId(id, 'Notes/a.md', 'Notes/b.md'), getReviewDeckId({ folder: 'Notes', notePath: 'Notes/b.md' }));
+		assert.equal(renameReviewDeckId(id, 'Note', 'Archive'), null);
+		assert.equal(renameReviewDeckId(getReviewDeckId({ deck: 'Notes/a.md' }), 'Notes/a.md', 'Notes/b.md'), null);
+	});
+});
+
+describe('renameNoteDeckId', () => {
+	it('renames the decks of the renamed note only', () => {
+		assert.equal(renameNoteDeckId('a.md', 'a.md', 'b.md'), 'b.md');
+		assert.equal(renameNoteDeckId('a.md#2', 'a.md', 'b.md'), 'b.md#2');
+		assert.equal(renameNoteDeckId('a.md#inline-14', 'a.md', 'b.md'), 'b.md#inline-14');
+		assert.equal(renameNoteDeckId('a.md.md#0', 'a.md', 'b.md'), null);
+		assert.equal(renameNoteDeckId('review:["","","a.md",""]', 'a.md', 'b.md'), null);
+	});
+});
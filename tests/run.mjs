@@ -0,0 +1,38 @@
+import esbuild from "esbuild";
+import { spawnSync } from "child_process";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import process from "process";
+
+// Bundles every `tests/*.test.ts` file and runs the bundles with Node's test runner.
+
+const testDir = path.dirname(new URL(import.meta.url).pathname);
+const outDir = fs.mkdtempSync(path.join(os.tmpdir(), "flashy-tests-"));
+
+const entryPoints = fs.readdirSync(testDir)
+	.filter(file => file.endsWith(".test.ts"))
+	.map(file => path.join(testDir, file));
+
+let status = 1;
+try {
+	await esbuild.build({
+		entryPoints,
+		bundle: true,
+		platform: "node",
+		format: "cjs",
+		target: "node16",
+		logLevel: "warning",
+		outdir: outDir,
+		// The tested modules import the Obsidian API, which only exists inside the app.
+		alias: { obsidian: path.join(testDir, "obsidian.ts") },
+		external: ["jsdom"],
+	});
+	const outFiles = entryPoints.map(file => path.join(outDir, path.basename(file, ".ts") + ".js"));
+	// The bundles live outside the repository, so point Node at its packages.
+	const env = { ...process.env, NODE_PATH: path.join(testDir, "..", "node_modules") };
+	status = spawnSync(process.execPath, ["--test", ...outFiles], { stdio: "inherit", env }).status ?? 1;
+} finally {
+	fs.rmSync(outDir, { recursive: true, force: true });
+}
+process.exit(status);
@@ -0,0 +1,52 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { ReviewGrade, computeSchedule, formatInterval, isDue, newCardSchedule, previewIntervals } from '../src/scheduler';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Replays the grades one day apart and returns the resulting schedule. */
+const replay = (grades: ReviewGrade[]) => computeSchedule(grades.map((grade, index) => ({ timestamp: index * DAY_MS, grade })));
+
+describe('computeSchedule', () => {
+	it('makes new cards due right away', () => {
+		assert.deepEqual(computeSchedule(undefined), newCardSchedule());
+		assert.equal(isDue(computeSchedule([]), 0), true);
+	});
+
+	it('grows the interval of good reviews from 1 to 6 days, then by the ease', () => {
+		assert.deepEqual([['good'], ['good', 'good'], ['good', 'good', 'good']].map(grades => replay(grades as ReviewGrade[]).interval), [1, 6, 15]);
+	});
+
+	it('starts easy cards at 4 days and hard cards at 1', () => {
+		assert.equal(replay(['easy']).interval, 4);
+		assert.equal(replay(['easy']).ease, 2.65);
+		assert.equal(replay(['hard']).interval, 1);
+		assert.equal(replay(['good', 'good', 'hard']).interval, 7);
+	});
+
+	it('relearns a forgotten card after 10 minutes and counts the lapse', () => {
+		const schedule = replay(['good', 'good', 'again']);
+		assert.deepEqual([schedule.interval, schedule.repetitions, schedule.lapses], [0, 0, 1]);
+		assert.equal(schedule.due, 2 * DAY_MS + 10 * 60 * 1000);
+		assert.equal(replay(['again']).lapses, 0);
+	});
+
+	it('never lowers the ease below 1.3', () => {
+		assert.equal(replay(Array(10).fill('again')).ease, 1.3);
+	});
+
+	it('replays the reviews in time order', () => {
+		const logs = [{ timestamp: DAY_MS, grade: 'again' as const }, { timestamp: 0, grade: 'good' as const }];
+		assert.deepEqual(computeSchedule(logs), replay(['good', 'again']));
+	});
+});
+
+describe('formatInterval', () => {
+	it('picks the largest fitting unit', () => {
+		assert.deepEqual([10 * 60 * 1000, 3 * 60 * 60 * 1000, 4 * DAY_MS, 60 * DAY_MS, 730 * DAY_MS].map(formatInterval), ['10m', '3h', '4d', '2mo', '2.0y']);
+	});
+
+	it('labels the grading buttons of a new card', () => {
+		assert.deepEqual(previewIntervals(newCardSchedule(), 0), { again: '10m', hard: '1d', good: '1d', easy: '4d' });
+	});
+});